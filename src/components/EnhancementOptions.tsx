@@ -11,169 +11,400 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { 
-  Sun, 
-  Moon, 
-  Sparkles, 
-  CameraIcon, 
-  ImageIcon,
-  Layers,
-  Palette,
-  ZoomIn
-} from 'lucide-react';
-
-export type EnhancementOption = 
-  | 'auto'
-  | 'hdr'
-  | 'night'
-  | 'portrait'
-  | 'color'
-  | 'detail'
-  | 'style';
+import { useRef } from 'react';
+import { FileDown, FileImage, FileUp, ZoomIn } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import EnhancementParameters from '@/components/EnhancementParameters';
+import ReferenceImagePicker from '@/components/ReferenceImagePicker';
+import ResizeTargetPicker from '@/components/ResizeTargetPicker';
+import ExportFormatPicker from '@/components/ExportFormatPicker';
+import {
+  EnhancementDefinition,
+  EnhancementId,
+  getEnhancement,
+  isAvailableOnPlan,
+  isEnhancementAvailable,
+  listEnhancements,
+  PlanId,
+} from '@/lib/enhancement/enhancements';
+import {
+  DEFAULT_RESAMPLER,
+  EnhancementPipeline,
+  findMatchingPreset,
+  getFilterSteps,
+  getResampleStep,
+  pipelinePresets,
+  PipelinePreset,
+  setResampler,
+  setStepParams,
+  toggleFilterStep,
+  withAvailableResampler,
+} from '@/lib/enhancement/pipeline';
+import { MIN_SCALE, planResize, ResizeTarget, validateResizeTarget } from '@/lib/enhancement/resizeTarget';
+import type { BudgetAssessment } from '@/lib/enhancement/budget';
+import type { ExportOptions } from '@/lib/enhancement/export';
 
-export type QualityOption = '2x' | '4x' | '8x';
+export type EnhancementOption = EnhancementId;
 
 interface EnhancementOptionsProps {
-  onOptionSelected: (option: EnhancementOption) => void;
-  selectedOption: EnhancementOption;
+  pipeline: EnhancementPipeline;
+  onPipelineChange: (pipeline: EnhancementPipeline) => void;
   isProcessing: boolean;
   onEnhance: () => void;
-  qualityOption: QualityOption;
-  onQualitySelected: (quality: QualityOption) => void;
+  resizeTarget: ResizeTarget;
+  onResizeTargetChange: (target: ResizeTarget) => void;
+  // Size of the uploaded image, to preview the output dimensions
+  sourceSize?: { width: number; height: number };
+  // Cost of the requested output against this browser's canvas and memory limits
+  outputBudget?: BudgetAssessment;
+  exportOptions: ExportOptions;
+  onExportOptionsChange: (options: ExportOptions) => void;
   apiAvailable: boolean;
+  modelAvailable?: boolean;
+  plan?: PlanId;
+  // Import a .cube file as a look; resolves to its id, or null if it failed
+  onImportLook?: (file: File) => Promise<string | null>;
+  // Download the pipeline's colour steps as a .cube file
+  onExportColorTransform?: () => void;
+  // Second image for steps that declare a reference (style or color source)
+  referenceImage?: File | null;
+  onReferenceImageChange?: (file: File | null) => void;
 }
 
-interface EnhancementItem {
-  id: EnhancementOption;
+interface OptionCardProps {
   name: string;
-  icon: React.ReactNode;
   description: string;
+  icon: LucideIcon;
+  isSelected: boolean;
+  isAvailable: boolean;
+  order?: number;
+  onClick: () => void;
 }
 
-const enhancementOptions: EnhancementItem[] = [
-  {
-    id: 'auto',
-    name: 'Auto Enhance',
-    icon: <Sparkles className="h-5 w-5" />,
-    description: 'Our AI analyzes your image and applies optimal adjustments using Real-ESRGAN'
-  },
-  {
-    id: 'hdr',
-    name: 'HDR Effect',
-    icon: <Sun className="h-5 w-5" />,
-    description: 'Dramatically expands dynamic range with our advanced tone mapping algorithm'
-  },
-  {
-    id: 'night',
-    name: 'Night Mode',
-    icon: <Moon className="h-5 w-5" />,
-    description: 'Specialized low-light enhancement with SwinIR noise reduction technology'
-  },
-  {
-    id: 'portrait',
-    name: 'Portrait',
-    icon: <CameraIcon className="h-5 w-5" />,
-    description: 'Smart skin tone preservation with facial feature enhancement'
-  },
-  {
-    id: 'color',
-    name: 'Color Pop',
-    icon: <Palette className="h-5 w-5" />,
-    description: 'Adaptive saturation boost that brings vibrant colors while maintaining balance'
-  },
-  {
-    id: 'detail',
-    name: 'Detail Boost',
-    icon: <Layers className="h-5 w-5" />,
-    description: 'Advanced sharpening algorithm with super-resolution for remarkable detail'
-  },
-  {
-    id: 'style',
-    name: 'Style Transfer',
-    icon: <ImageIcon className="h-5 w-5" />,
-    description: 'Professional cinematic color grading with teal-orange contrast'
-  }
-];
+const OptionCard = ({ name, description, icon: Icon, isSelected, isAvailable, order, onClick }: OptionCardProps) => (
+  <Card 
+    className={`hover:border-primary/50 cursor-pointer transition-all duration-300 ${
+      isSelected 
+        ? 'border-primary shadow-md bg-primary/5' 
+        : 'border-gray-200'
+    } ${!isAvailable ? 'opacity-50 cursor-not-allowed' : ''}`}
+    onClick={onClick}
+  >
+    <CardContent className="p-4 flex items-center gap-3">
+      <div className={`relative p-2.5 rounded-full ${
+        isSelected 
+          ? 'bg-primary/20 text-primary' 
+          : 'bg-gray-100 text-gray-500'
+      }`}>
+        <Icon className="h-5 w-5" />
+        {order !== undefined && (
+          <span className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-primary text-white text-[10px] flex items-center justify-center">
+            {order}
+          </span>
+        )}
+      </div>
+      <div>
+        <h4 className="font-medium">{name}</h4>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+    </CardContent>
+  </Card>
+);
 
 const EnhancementOptions = ({ 
-  onOptionSelected, 
-  selectedOption,
+  pipeline,
+  onPipelineChange,
   isProcessing,
   onEnhance,
-  qualityOption,
-  onQualitySelected,
-  apiAvailable
+  resizeTarget,
+  onResizeTargetChange,
+  sourceSize,
+  outputBudget,
+  exportOptions,
+  onExportOptionsChange,
+  apiAvailable,
+  modelAvailable = true,
+  plan,
+  onImportLook,
+  onExportColorTransform,
+  referenceImage = null,
+  onReferenceImageChange
 }: EnhancementOptionsProps) => {
+  const lookInputRef = useRef<HTMLInputElement>(null);
+  const lookStepIndex = useRef(-1);
+  
+  const definitions = listEnhancements();
+  const operations = definitions.filter(definition => !definition.resamples);
+  const resamplers = definitions.filter(definition => definition.resamples);
+  
+  const activePreset = findMatchingPreset(pipeline);
+  const filterSteps = getFilterSteps(pipeline);
+  const resampleStep = getResampleStep(pipeline);
+  
+  const isOptionAvailable = (option: EnhancementDefinition) => isEnhancementAvailable(option, plan, modelAvailable);
+  // Presets run with the classic upscale when there's no model backend
+  const presetSteps = (preset: PipelinePreset) => withAvailableResampler(preset.steps, modelAvailable);
+  const isPresetAvailable = (preset: PipelinePreset) =>
+    presetSteps(preset).every(step => {
+      const definition = getEnhancement(step.id);
+      return definition ? isOptionAvailable(definition) : false;
+    });
+  
+  const pipelineDefinitions = pipeline.map(step => getEnhancement(step.id));
+  const unavailableStep = pipelineDefinitions.find(definition => !definition || !isOptionAvailable(definition));
+  const selectedUnavailable = pipelineDefinitions.some(definition => !definition || !isOptionAvailable(definition));
+  const selectedNeedsUpgrade = unavailableStep ? !isAvailableOnPlan(unavailableStep, plan) : false;
+  
+  const handlePresetClick = (preset: PipelinePreset) => {
+    if (isProcessing || !isPresetAvailable(preset)) return;
+    onPipelineChange(presetSteps(preset));
+  };
+  
+  const handleOperationClick = (operation: EnhancementDefinition) => {
+    if (isProcessing || !isOptionAvailable(operation)) return;
+    
+    // Starting from a preset begins a fresh custom pipeline, keeping its
+    // upscaler if this browser can run it
+    const currentResampler = resampleStep && getEnhancement(resampleStep.id);
+    const usableResampleStep = currentResampler && isOptionAvailable(currentResampler)
+      ? resampleStep
+      : { id: resamplers.find(isOptionAvailable)?.id ?? DEFAULT_RESAMPLER };
+    const base = activePreset ? [usableResampleStep] : pipeline;
+    onPipelineChange(toggleFilterStep(base, operation.id));
+  };
+  
+  const handleImportLookClick = (index: number) => {
+    lookStepIndex.current = index;
+    lookInputRef.current?.click();
+  };
+  
+  const handleLookFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImportLook) return;
+    
+    const lookId = await onImportLook(file);
+    if (lookId) {
+      onPipelineChange(setStepParams(pipeline, lookStepIndex.current, { look: lookId }));
+    }
+  };
+  
+  const hasColorTransform = pipelineDefinitions.some(definition => definition?.colorTransform);
+  // One reference per pipeline, shown under the first step that asks for it
+  const referenceStepIndex = pipelineDefinitions.findIndex(definition => definition?.reference);
+  const missingReference = referenceStepIndex !== -1 && !referenceImage;
+  const invalidTarget = validateResizeTarget(resizeTarget, sourceSize) !== null;
+  const budgetExceeded = Boolean(outputBudget?.refusal);
+  const largestOutput = sourceSize && outputBudget?.maxScale !== undefined && outputBudget.maxScale >= MIN_SCALE
+    ? planResize({ mode: 'scale', factor: outputBudget.maxScale }, sourceSize.width, sourceSize.height)
+    : null;
+  
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-medium mb-2">Enhancement Options</h3>
       <p className="text-muted-foreground mb-4">
         Choose how you'd like to enhance your image, or let our advanced AI automatically select the best options.
+        Select several options to combine them; they run in the order you pick them, with output sharpening applied after upscaling.
       </p>
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        {enhancementOptions.map((option) => (
-          <Card 
-            key={option.id}
-            className={`hover:border-primary/50 cursor-pointer transition-all duration-300 ${
-              selectedOption === option.id 
-                ? 'border-primary shadow-md bg-primary/5' 
-                : 'border-gray-200'
-            }`}
-            onClick={() => !isProcessing && onOptionSelected(option.id)}
-          >
-            <CardContent className="p-4 flex items-center gap-3">
-              <div className={`p-2.5 rounded-full ${
-                selectedOption === option.id 
-                  ? 'bg-primary/20 text-primary' 
-                  : 'bg-gray-100 text-gray-500'
-              }`}>
-                {option.icon}
-              </div>
-              <div>
-                <h4 className="font-medium">{option.name}</h4>
-                <p className="text-xs text-muted-foreground">{option.description}</p>
-              </div>
-            </CardContent>
-          </Card>
+        {pipelinePresets.map((preset) => (
+          <OptionCard
+            key={preset.id}
+            name={preset.name}
+            description={preset.description}
+            icon={preset.icon}
+            isSelected={activePreset?.id === preset.id}
+            isAvailable={isPresetAvailable(preset)}
+            onClick={() => handlePresetClick(preset)}
+          />
         ))}
+        {operations.map((operation) => {
+          const order = activePreset
+            ? -1
+            : filterSteps.findIndex(step => step.id === operation.id);
+          
+          return (
+            <OptionCard
+              key={operation.id}
+              name={operation.name}
+              description={operation.description}
+              icon={operation.icon}
+              isSelected={order >= 0}
+              isAvailable={isOptionAvailable(operation)}
+              order={order >= 0 && filterSteps.length > 1 ? order + 1 : undefined}
+              onClick={() => handleOperationClick(operation)}
+            />
+          );
+        })}
       </div>
       
+      {!activePreset && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Pipeline: {pipelineDefinitions.map(definition => definition?.name ?? 'Unknown').join(' → ')}
+          </p>
+          {hasColorTransform && onExportColorTransform && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs shrink-0"
+              disabled={isProcessing}
+              onClick={onExportColorTransform}
+            >
+              <FileDown className="mr-1 h-3 w-3" />
+              Export .cube
+            </Button>
+          )}
+        </div>
+      )}
+      
+      <input
+        type="file"
+        ref={lookInputRef}
+        onChange={handleLookFileChange}
+        accept=".cube"
+        className="hidden"
+      />
+      
+      {pipeline.map((step, index) => {
+        const definition = pipelineDefinitions[index];
+        if (!definition) return null;
+        
+        return (
+          <div key={`${step.id}-${index}`} className="space-y-2">
+            <EnhancementParameters
+              definition={definition}
+              values={step.params}
+              onChange={(params) => onPipelineChange(setStepParams(pipeline, index, params))}
+              disabled={isProcessing}
+            />
+            {index === referenceStepIndex && definition.reference && onReferenceImageChange && (
+              <ReferenceImagePicker
+                label={definition.reference.label}
+                file={referenceImage}
+                onChange={onReferenceImageChange}
+                disabled={isProcessing}
+              />
+            )}
+            {definition.params?.some(param => param.id === 'look') && onImportLook && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full text-xs"
+                disabled={isProcessing}
+                onClick={() => handleImportLookClick(index)}
+              >
+                <FileUp className="mr-1 h-3 w-3" />
+                Import .cube look
+              </Button>
+            )}
+          </div>
+        );
+      })}
+      
       <div className="space-y-4 pt-4">
         <div className="flex flex-col gap-2">
-          <label htmlFor="quality-select" className="text-sm font-medium">
-            Output Quality
+          <label htmlFor="output-size-mode" className="text-sm font-medium flex items-center gap-2">
+            <ZoomIn className="h-4 w-4 text-gray-500" />
+            Output Size
+          </label>
+          <ResizeTargetPicker
+            target={resizeTarget}
+            onChange={onResizeTargetChange}
+            sourceSize={sourceSize}
+            disabled={isProcessing}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Larger outputs mean larger file sizes and longer processing times.
+          </p>
+          {budgetExceeded && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/5 p-3 space-y-2">
+              <p className="text-xs text-destructive">
+                {outputBudget?.refusal}. Browsers can't allocate images this large, so the result would fail or come out blank.
+              </p>
+              {largestOutput && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full text-xs"
+                  disabled={isProcessing}
+                  onClick={() => onResizeTargetChange({ mode: 'scale', factor: largestOutput.scale })}
+                >
+                  Use the largest output this device supports: {largestOutput.width} × {largestOutput.height} px ({largestOutput.scale}x)
+                </Button>
+              )}
+            </div>
+          )}
+          {outputBudget?.tileSize && (
+            <p className="text-xs text-muted-foreground">
+              This output is processed in smaller tiles to fit in memory, which takes a little longer.
+            </p>
+          )}
+        </div>
+        
+        <div className="flex flex-col gap-2">
+          <label htmlFor="output-format" className="text-sm font-medium flex items-center gap-2">
+            <FileImage className="h-4 w-4 text-gray-500" />
+            Output Format
           </label>
-          <div className="flex items-center gap-3">
-            <ZoomIn className="h-5 w-5 text-gray-500" />
+          <ExportFormatPicker
+            options={exportOptions}
+            onChange={onExportOptionsChange}
+            disabled={isProcessing}
+          />
+        </div>
+        
+        {!activePreset && (
+          <div className="flex flex-col gap-2">
+            <label htmlFor="upscaler-select" className="text-sm font-medium">
+              Upscaling Method
+            </label>
             <Select 
-              value={qualityOption} 
-              onValueChange={(value) => onQualitySelected(value as QualityOption)}
+              value={resampleStep?.id} 
+              onValueChange={(value) => onPipelineChange(setResampler(pipeline, value))}
               disabled={isProcessing}
             >
-              <SelectTrigger className="flex-grow">
-                <SelectValue placeholder="Select Quality" />
+              <SelectTrigger id="upscaler-select">
+                <SelectValue placeholder="Select Upscaler" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="2x">Low (2x) - Faster, smaller file</SelectItem>
-                <SelectItem value="4x">Medium (4x) - Balanced</SelectItem>
-                <SelectItem value="8x">High (8x) - Maximum detail</SelectItem>
+                {resamplers.map((resampler) => (
+                  <SelectItem 
+                    key={resampler.id} 
+                    value={resampler.id}
+                    disabled={!isOptionAvailable(resampler)}
+                  >
+                    {resampler.name} - {resampler.description}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
-          <p className="text-xs text-muted-foreground mt-1">
-            Higher quality means larger file sizes and longer processing times.
-          </p>
-        </div>
+        )}
         
         <Button 
-          disabled={isProcessing || !apiAvailable}
+          disabled={isProcessing || !apiAvailable || selectedUnavailable || missingReference || invalidTarget || budgetExceeded}
           className="w-full rounded-full text-base py-6"
           onClick={onEnhance}
         >
           {isProcessing ? 'Enhancing Image...' : 'Enhance Image with AI'}
         </Button>
         
+        {apiAvailable && selectedUnavailable && (
+          <p className="text-xs text-destructive text-center">
+            {selectedNeedsUpgrade
+              ? 'This option is not included in your current plan. Please upgrade or choose another option.'
+              : "This option needs AI model support, which isn't available in this browser. Please choose another option."}
+          </p>
+        )}
+        
+        {apiAvailable && !selectedUnavailable && missingReference && (
+          <p className="text-xs text-muted-foreground text-center">
+            Choose a {pipelineDefinitions[referenceStepIndex]?.reference?.label.toLowerCase()} to continue.
+          </p>
+        )}
+        
         {!apiAvailable && (
           <p className="text-xs text-destructive text-center">
             Enhancement services are currently unavailable. Please try again later.
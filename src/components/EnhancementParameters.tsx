@@ -0,0 +1,118 @@
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RotateCcw } from 'lucide-react';
+import {
+  EnhancementDefinition,
+  EnhancementParams,
+  getSelectOptions,
+  resolveParams
+} from '@/lib/enhancement/enhancements';
+
+interface EnhancementParametersProps {
+  definition: EnhancementDefinition;
+  values?: EnhancementParams;
+  onChange: (params: EnhancementParams) => void;
+  disabled?: boolean;
+}
+
+const EnhancementParameters = ({
+  definition,
+  values,
+  onChange,
+  disabled = false
+}: EnhancementParametersProps) => {
+  const specs = definition.params ?? [];
+  if (specs.length === 0) return null;
+
+  const resolved = resolveParams(definition, values);
+  const defaults = resolveParams(definition);
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">{definition.name} Settings</h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={disabled}
+          onClick={() => onChange(defaults)}
+        >
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Reset
+        </Button>
+      </div>
+
+      {specs.map((spec) => {
+        const controlId = `${definition.id}-${spec.id}`;
+
+        if (spec.type === 'boolean') {
+          return (
+            <div key={spec.id} className="flex items-center justify-between">
+              <Label htmlFor={controlId} className="text-xs">{spec.label}</Label>
+              <Switch
+                id={controlId}
+                checked={resolved[spec.id] as boolean}
+                onCheckedChange={(checked) => onChange({ [spec.id]: checked })}
+                disabled={disabled}
+              />
+            </div>
+          );
+        }
+
+        if (spec.type === 'select') {
+          return (
+            <div key={spec.id} className="flex items-center justify-between gap-4">
+              <Label htmlFor={controlId} className="text-xs">{spec.label}</Label>
+              <Select
+                value={resolved[spec.id] as string}
+                onValueChange={(value) => onChange({ [spec.id]: value })}
+                disabled={disabled}
+              >
+                <SelectTrigger id={controlId} className="h-8 w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getSelectOptions(spec).map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        }
+
+        return (
+          <div key={spec.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={controlId} className="text-xs">{spec.label}</Label>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {resolved[spec.id] as number}
+              </span>
+            </div>
+            <Slider
+              id={controlId}
+              min={spec.min}
+              max={spec.max}
+              step={spec.step}
+              value={[resolved[spec.id] as number]}
+              onValueChange={([value]) => onChange({ [spec.id]: value })}
+              disabled={disabled}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EnhancementParameters;
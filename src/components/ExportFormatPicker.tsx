@@ -0,0 +1,148 @@
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChromaSubsampling,
+  ExportFormat,
+  exportFormats,
+  ExportOptions,
+} from '@/lib/enhancement/export';
+import { enhancementEngine } from '@/lib/imageEnhancement';
+
+interface ExportFormatPickerProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  disabled?: boolean;
+}
+
+const chromaLabels: Record<ChromaSubsampling, string> = {
+  '420': '4:2:0 (smaller)',
+  '444': '4:4:4 (sharper color)',
+};
+
+const colorSpaceLabels: Record<PredefinedColorSpace, string> = {
+  srgb: 'sRGB',
+  'display-p3': 'Display P3 (wide gamut)',
+};
+
+const ExportFormatPicker = ({ options, onChange, disabled = false }: ExportFormatPickerProps) => {
+  const format = exportFormats[options.format];
+  const lossless = options.format === 'png' || (format.supportsLossless && options.lossless);
+  const wideGamut = format.supportsWideGamut && enhancementEngine.supportsWideGamutCanvas();
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={options.format}
+        onValueChange={(value) => onChange({ ...options, format: value as ExportFormat })}
+        disabled={disabled}
+      >
+        <SelectTrigger id="output-format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(exportFormats) as ExportFormat[]).map(option => (
+            <SelectItem key={option} value={option}>{exportFormats[option].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {format.supportsLossless && options.format !== 'png' && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="output-lossless" className="text-xs">Lossless</Label>
+          <Switch
+            id="output-lossless"
+            checked={options.lossless}
+            onCheckedChange={(checked) => onChange({ ...options, lossless: checked })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {!lossless && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="output-quality" className="text-xs">Quality</Label>
+            <span className="text-xs text-muted-foreground tabular-nums">{options.quality}</span>
+          </div>
+          <Slider
+            id="output-quality"
+            min={1}
+            max={100}
+            step={1}
+            value={[options.quality]}
+            onValueChange={([quality]) => onChange({ ...options, quality })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {!lossless && format.supportsChroma && (
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="output-chroma" className="text-xs">Chroma subsampling</Label>
+          <Select
+            value={options.chroma}
+            onValueChange={(value) => onChange({ ...options, chroma: value as ChromaSubsampling })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="output-chroma" className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(chromaLabels) as ChromaSubsampling[]).map(option => (
+                <SelectItem key={option} value={option}>{chromaLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="output-color-space" className="text-xs">Color space</Label>
+        <Select
+          value={wideGamut ? options.colorSpace : 'srgb'}
+          onValueChange={(value) => onChange({ ...options, colorSpace: value as PredefinedColorSpace })}
+          disabled={disabled || !wideGamut}
+        >
+          <SelectTrigger id="output-color-space" className="h-8 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(colorSpaceLabels) as PredefinedColorSpace[]).map(option => (
+              <SelectItem key={option} value={option}>{colorSpaceLabels[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {format.supportsHighBitDepth && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="output-bit-depth" className="text-xs">16 bits per channel (larger, no banding)</Label>
+          <Switch
+            id="output-bit-depth"
+            checked={options.bitDepth === 16}
+            onCheckedChange={(checked) => onChange({ ...options, bitDepth: checked ? 16 : 8 })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {!format.supportsWideGamut && (
+        <p className="text-xs text-muted-foreground">{format.label} is always saved in sRGB.</p>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Images with transparency are always saved losslessly{format.supportsAlpha ? '' : ', as PNG'}.
+      </p>
+    </div>
+  );
+};
+
+export default ExportFormatPicker;
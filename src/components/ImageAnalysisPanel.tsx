@@ -0,0 +1,127 @@
+import { Activity } from 'lucide-react';
+import type { ImageAnalysisReport } from '@/lib/enhancement/analysis';
+
+interface ImageAnalysisPanelProps {
+  report: ImageAnalysisReport;
+  className?: string;
+}
+
+interface MetricProps {
+  label: string;
+  value: string;
+  status?: 'good' | 'warning';
+  note?: string;
+}
+
+const Metric = ({ label, value, status = 'good', note }: MetricProps) => (
+  <div className="flex items-start justify-between gap-3 py-1.5">
+    <span className="text-xs text-muted-foreground">{label}</span>
+    <div className="text-right">
+      <span className="text-xs font-medium tabular-nums">{value}</span>
+      {note && (
+        <span className={`ml-2 text-[10px] px-2 py-0.5 rounded-full ${
+          status === 'warning'
+            ? 'bg-amber-100 text-amber-700'
+            : 'bg-green-100 text-green-700'
+        }`}>
+          {note}
+        </span>
+      )}
+    </div>
+  </div>
+);
+
+// Collapse the 256-bin histogram for a compact bar chart
+const HISTOGRAM_BARS = 64;
+
+const ImageAnalysisPanel = ({ report, className = "" }: ImageAnalysisPanelProps) => {
+  const { exposure, clipping } = report;
+
+  const bars = Array.from({ length: HISTOGRAM_BARS }, (_, bar) => {
+    const binsPerBar = 256 / HISTOGRAM_BARS;
+    let total = 0;
+    for (let bin = bar * binsPerBar; bin < (bar + 1) * binsPerBar; bin++) {
+      total += exposure.histogram[bin];
+    }
+    return total;
+  });
+  const tallest = Math.max(...bars, 1e-6);
+
+  const exposureLabels = {
+    underexposed: 'Underexposed',
+    balanced: 'Balanced',
+    overexposed: 'Overexposed'
+  };
+
+  return (
+    <div className={`rounded-xl border border-gray-200 p-4 ${className}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <Activity className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-medium">Image Analysis</h3>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {report.width} × {report.height}px
+        </span>
+      </div>
+
+      <div className="flex items-end gap-px h-16 mb-3 bg-gray-50 rounded p-1" aria-label="Luminance histogram">
+        {bars.map((value, index) => (
+          <div
+            key={index}
+            className="flex-1 bg-primary/60 rounded-t-sm"
+            style={{ height: `${(value / tallest) * 100}%` }}
+          />
+        ))}
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        <Metric
+          label="Sharpness (Laplacian variance)"
+          value={report.sharpness.toFixed(0)}
+          status={report.isBlurry ? 'warning' : 'good'}
+          note={report.isBlurry ? 'Blurry' : 'Sharp'}
+        />
+        <Metric
+          label="Estimated blur"
+          value={report.blur.motion
+            ? `${report.blur.motion.length}px shake at ${report.blur.motion.angle}°`
+            : `σ ${report.blur.sigma.toFixed(1)}px`}
+        />
+        <Metric
+          label="Noise level (σ)"
+          value={report.noiseLevel.toFixed(1)}
+          status={report.isNoisy ? 'warning' : 'good'}
+          note={report.isNoisy ? 'Noisy' : 'Clean'}
+        />
+        <Metric
+          label="Exposure (mean / median)"
+          value={`${exposure.mean.toFixed(0)} / ${exposure.median}`}
+          status={exposure.verdict === 'balanced' ? 'good' : 'warning'}
+          note={exposureLabels[exposure.verdict]}
+        />
+        <Metric
+          label="Contrast (std. dev.)"
+          value={exposure.stdDev.toFixed(1)}
+          status={exposure.isLowContrast ? 'warning' : 'good'}
+          note={exposure.isLowContrast ? 'Flat' : 'Good'}
+        />
+        <Metric
+          label="Shadows / midtones / highlights"
+          value={`${exposure.shadowsPercent.toFixed(0)}% / ${exposure.midtonesPercent.toFixed(0)}% / ${exposure.highlightsPercent.toFixed(0)}%`}
+        />
+        <Metric
+          label="Clipped shadows / highlights"
+          value={`${clipping.shadowsPercent.toFixed(1)}% / ${clipping.highlightsPercent.toFixed(1)}%`}
+          status={clipping.shadowsPercent > 2 || clipping.highlightsPercent > 2 ? 'warning' : 'good'}
+        />
+        <Metric
+          label="JPEG blockiness"
+          value={report.blockiness.toFixed(2)}
+          status={report.hasCompressionArtifacts ? 'warning' : 'good'}
+          note={report.hasCompressionArtifacts ? 'Artifacts' : 'Clean'}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ImageAnalysisPanel;
@@ -1,16 +1,22 @@
 
 import { useState, useRef } from 'react';
 import { Button } from "@/components/ui/button";
-import { Upload, X, Image } from 'lucide-react';
+import { Upload, X, Image, Layers } from 'lucide-react';
 import { toast } from 'sonner';
+import { MAX_EXPOSURES, MIN_EXPOSURES } from '@/lib/enhancement/bracketing';
+import { IMAGE_FILE_ACCEPT, isSupportedImageFile } from '@/lib/enhancement/decoders';
+import { enhancementEngine } from '@/lib/imageEnhancement';
 
 interface ImageUploaderProps {
   onImageSelected: (file: File) => void;
+  // When set, selecting several files at once is treated as an exposure bracket
+  onBracketSelected?: (files: File[]) => void;
 }
 
-const ImageUploader = ({ onImageSelected }: ImageUploaderProps) => {
+const ImageUploader = ({ onImageSelected, onBracketSelected }: ImageUploaderProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [bracketPreviewUrls, setBracketPreviewUrls] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const handleDragEnter = (e: React.DragEvent) => {
@@ -54,39 +60,68 @@ const ImageUploader = ({ onImageSelected }: ImageUploaderProps) => {
     }
   };
   
-  const processFiles = (files: FileList) => {
-    if (files.length === 0) return;
-    
-    const file = files[0];
-    
+  const isValidImage = (file: File) => {
     // Check if file is an image
-    if (!file.type.startsWith('image/')) {
-      toast.error('Please upload an image file (JPEG, PNG, etc.)');
-      return;
+    if (!isSupportedImageFile(file)) {
+      toast.error('Please upload an image file (JPEG, PNG, HEIC, TIFF, DNG, etc.)');
+      return false;
     }
     
     // Check file size (limit to 10 MB)
     if (file.size > 10 * 1024 * 1024) {
       toast.error('Image is too large. Please upload an image smaller than 10 MB.');
+      return false;
+    }
+    
+    return true;
+  };
+  
+  const handlePreviewError = (error: unknown) => {
+    console.error('Could not decode image for preview:', error);
+    toast.error('This image could not be decoded. It may be damaged or use an unsupported variant of its format.');
+  };
+  
+  const processBracket = (files: File[]) => {
+    if (files.length > MAX_EXPOSURES) {
+      toast.error(`Please select between ${MIN_EXPOSURES} and ${MAX_EXPOSURES} exposures to merge.`);
       return;
     }
+    if (!files.every(isValidImage)) return;
     
-    // Create preview URL
-    const objectUrl = URL.createObjectURL(file);
-    setPreviewUrl(objectUrl);
+    bracketPreviewUrls.forEach(url => URL.revokeObjectURL(url));
+    Promise.all(files.map(file => enhancementEngine.createPreviewUrl(file)))
+      .then(setBracketPreviewUrls)
+      .catch(handlePreviewError);
+    onBracketSelected?.(files);
+  };
+  
+  const processFiles = (files: FileList) => {
+    if (files.length === 0) return;
+    
+    if (files.length > 1 && onBracketSelected) {
+      processBracket(Array.from(files));
+      return;
+    }
+    
+    const file = files[0];
+    if (!isValidImage(file)) return;
+    
+    // Create preview URL; HEIC, TIFF and DNG are decoded for it first
+    enhancementEngine.createPreviewUrl(file)
+      .then(setPreviewUrl)
+      .catch(handlePreviewError);
     
     // Pass the file to the parent component
     onImageSelected(file);
-    
-    // Clean up the preview URL when component unmounts
-    return () => URL.revokeObjectURL(objectUrl);
   };
   
   const handleClearImage = () => {
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl);
     }
+    bracketPreviewUrls.forEach(url => URL.revokeObjectURL(url));
     setPreviewUrl(null);
+    setBracketPreviewUrls([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -98,11 +133,12 @@ const ImageUploader = ({ onImageSelected }: ImageUploaderProps) => {
         type="file"
         ref={fileInputRef}
         onChange={handleFileInputChange}
-        accept="image/*"
+        accept={IMAGE_FILE_ACCEPT}
+        multiple={!!onBracketSelected}
         className="hidden"
       />
       
-      {!previewUrl ? (
+      {!previewUrl && bracketPreviewUrls.length === 0 ? (
         <div
           className={`border-2 border-dashed rounded-xl p-12 transition-colors ${
             isDragging
@@ -118,7 +154,8 @@ const ImageUploader = ({ onImageSelected }: ImageUploaderProps) => {
             <Upload className="w-12 h-12 text-gray-400 mb-4" />
             <h3 className="text-lg font-medium mb-2">Drag & Drop Your Image</h3>
             <p className="text-muted-foreground mb-6 max-w-sm">
-              Upload an image to enhance. We support JPG, PNG, and WEBP formats up to 10 MB.
+              Upload an image to enhance. We support JPG, PNG, WEBP, HEIC, TIFF and DNG formats up to 10 MB.
+              {onBracketSelected && ` Select ${MIN_EXPOSURES}–${MAX_EXPOSURES} bracketed exposures at once to merge them into one HDR image.`}
             </p>
             <Button
               onClick={handleBrowseClick}
@@ -140,11 +177,30 @@ const ImageUploader = ({ onImageSelected }: ImageUploaderProps) => {
           >
             <X className="h-4 w-4" />
           </Button>
-          <img 
-            src={previewUrl} 
-            alt="Preview" 
-            className="w-full h-auto max-h-[500px] object-contain p-2"
-          />
+          {bracketPreviewUrls.length > 0 ? (
+            <div className="p-4">
+              <div className="flex items-center gap-2 mb-3 text-sm font-medium">
+                <Layers className="h-4 w-4 text-primary" />
+                {bracketPreviewUrls.length} exposures to merge
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {bracketPreviewUrls.map((url, index) => (
+                  <img
+                    key={url}
+                    src={url}
+                    alt={`Exposure ${index + 1}`}
+                    className="w-full h-32 object-cover rounded-md"
+                  />
+                ))}
+              </div>
+            </div>
+          ) : (
+            <img 
+              src={previewUrl ?? undefined} 
+              alt="Preview" 
+              className="w-full h-auto max-h-[500px] object-contain p-2"
+            />
+          )}
         </div>
       )}
     </div>
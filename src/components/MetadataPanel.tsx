@@ -0,0 +1,73 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { MapPinOff, Palette, Tag } from 'lucide-react';
+import type { ExportFormat } from '@/lib/enhancement/export';
+import type { ImageMetadata, MetadataPolicy } from '@/lib/enhancement/metadata';
+
+interface MetadataPanelProps {
+  metadata: ImageMetadata;
+  policy: MetadataPolicy;
+  onChange: (policy: MetadataPolicy) => void;
+  // Format of the result, since not every format gets metadata written
+  format: ExportFormat;
+}
+
+// What the upload's metadata says, and what of it goes into downloads and shares
+const MetadataPanel = ({ metadata, policy, onChange, format }: MetadataPanelProps) => {
+  const hasTags = Boolean(metadata.exif || metadata.xmp);
+  if (!hasTags && !metadata.icc) return null;
+
+  const { summary } = metadata;
+  const details = [summary.camera, summary.takenAt, summary.copyright && `© ${summary.copyright}`]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 space-y-3 mt-4">
+      <div className="flex items-center gap-2">
+        <Tag className="h-4 w-4 text-gray-500" />
+        <h4 className="text-sm font-medium">Photo Metadata</h4>
+      </div>
+      {details && <p className="text-xs text-muted-foreground">{details}</p>}
+      {summary.colorProfile && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <Palette className="h-3 w-3" />
+          {summary.colorProfile}
+          {metadata.icc?.info.wideGamut && ' (wide gamut)'}
+        </p>
+      )}
+
+      {hasTags && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="metadata-preserve" className="text-xs">Keep metadata in downloads and shares</Label>
+          <Switch
+            id="metadata-preserve"
+            checked={policy.preserve}
+            onCheckedChange={(preserve) => onChange({ ...policy, preserve })}
+          />
+        </div>
+      )}
+
+      {summary.hasLocation && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="metadata-strip-location" className="text-xs flex items-center gap-1">
+            <MapPinOff className="h-3 w-3" />
+            Remove location (GPS)
+          </Label>
+          <Switch
+            id="metadata-strip-location"
+            checked={policy.stripLocation}
+            onCheckedChange={(stripLocation) => onChange({ ...policy, stripLocation })}
+            disabled={!policy.preserve}
+          />
+        </div>
+      )}
+
+      {format === 'avif' && (
+        <p className="text-xs text-muted-foreground">AVIF downloads are saved without metadata.</p>
+      )}
+    </div>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { ImagePlus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { IMAGE_FILE_ACCEPT, isSupportedImageFile } from '@/lib/enhancement/decoders';
+import { enhancementEngine } from '@/lib/imageEnhancement';
+
+interface ReferenceImagePickerProps {
+  label: string;
+  file: File | null;
+  onChange: (file: File | null) => void;
+  disabled?: boolean;
+}
+
+// Compact picker for the second image some steps need (style or color reference)
+const ReferenceImagePicker = ({ label, file, onChange, disabled = false }: ReferenceImagePickerProps) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    let url: string | null = null;
+    enhancementEngine.createPreviewUrl(file)
+      .then(previewUrl => {
+        url = previewUrl;
+        if (!cancelled) setPreviewUrl(previewUrl);
+      })
+      .catch(error => {
+        console.error('Could not preview reference image:', error);
+        if (!cancelled) setPreviewUrl(null);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    if (!isSupportedImageFile(selected)) {
+      toast.error('Please choose an image file (JPEG, PNG, HEIC, TIFF, etc.)');
+      return;
+    }
+    if (selected.size > 10 * 1024 * 1024) {
+      toast.error('Image is too large. Please choose an image smaller than 10 MB.');
+      return;
+    }
+
+    onChange(selected);
+  };
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-gray-200 p-3">
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileInputChange}
+        accept={IMAGE_FILE_ACCEPT}
+        className="hidden"
+      />
+
+      <div className="h-14 w-14 shrink-0 rounded-md bg-gray-100 overflow-hidden flex items-center justify-center">
+        {previewUrl ? (
+          <img src={previewUrl} alt={label} className="h-full w-full object-cover" />
+        ) : (
+          <ImagePlus className="h-5 w-5 text-gray-400" />
+        )}
+      </div>
+
+      <div className="flex-grow min-w-0">
+        <p className="text-xs font-medium">{label}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {file ? file.name : 'Required for this option'}
+        </p>
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-xs"
+        disabled={disabled}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {file ? 'Change' : 'Choose'}
+      </Button>
+      {file && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          disabled={disabled}
+          onClick={() => onChange(null)}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceImagePicker;
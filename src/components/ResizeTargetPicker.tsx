@@ -0,0 +1,171 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BoxFit,
+  planResize,
+  PrintUnit,
+  ResizeTarget,
+  validateResizeTarget,
+} from '@/lib/enhancement/resizeTarget';
+
+interface ResizeTargetPickerProps {
+  target: ResizeTarget;
+  onChange: (target: ResizeTarget) => void;
+  // Size of the uploaded image, to preview the output dimensions
+  sourceSize?: { width: number; height: number };
+  disabled?: boolean;
+}
+
+const defaultTargets: Record<ResizeTarget['mode'], ResizeTarget> = {
+  scale: { mode: 'scale', factor: 4 },
+  width: { mode: 'width', width: 3840 },
+  height: { mode: 'height', height: 2160 },
+  box: { mode: 'box', width: 3000, height: 2000, fit: 'fit' },
+  print: { mode: 'print', width: 8, height: 10, unit: 'in', dpi: 300, fit: 'fit' },
+};
+
+const modeLabels: Record<ResizeTarget['mode'], string> = {
+  scale: 'Scale factor',
+  width: 'Exact width',
+  height: 'Exact height',
+  box: 'Width × height',
+  print: 'Print size',
+};
+
+const fitLabels: Record<BoxFit, string> = {
+  fit: 'Fit inside (keep aspect)',
+  fill: 'Fill and crop',
+  stretch: 'Stretch',
+};
+
+const scalePresets = [2, 4, 8];
+
+const ResizeTargetPicker = ({ target, onChange, sourceSize, disabled = false }: ResizeTargetPickerProps) => {
+  const error = validateResizeTarget(target, sourceSize);
+  const plan = sourceSize && !error ? planResize(target, sourceSize.width, sourceSize.height) : null;
+
+  const numberField = (id: string, label: string, value: number, update: (value: number) => void, step = 1) => (
+    <div className="flex-1 space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={step}
+        value={Number.isFinite(value) ? value : ''}
+        onChange={(e) => update(e.target.valueAsNumber)}
+        disabled={disabled}
+        className="h-8 text-xs"
+      />
+    </div>
+  );
+
+  const fitSelect = (fit: BoxFit, update: (fit: BoxFit) => void) => (
+    <Select value={fit} onValueChange={(value) => update(value as BoxFit)} disabled={disabled}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(fitLabels) as BoxFit[]).map(option => (
+          <SelectItem key={option} value={option}>{fitLabels[option]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={target.mode}
+        onValueChange={(mode) => onChange(defaultTargets[mode as ResizeTarget['mode']])}
+        disabled={disabled}
+      >
+        <SelectTrigger id="output-size-mode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(modeLabels) as ResizeTarget['mode'][]).map(mode => (
+            <SelectItem key={mode} value={mode}>{modeLabels[mode]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {target.mode === 'scale' && (
+        <div className="flex items-end gap-2">
+          {numberField('output-scale', 'Factor', target.factor, factor => onChange({ ...target, factor }), 0.25)}
+          {scalePresets.map(factor => (
+            <Button
+              key={factor}
+              variant={target.factor === factor ? 'default' : 'outline'}
+              size="sm"
+              className="h-8 text-xs"
+              disabled={disabled}
+              onClick={() => onChange({ ...target, factor })}
+            >
+              {factor}x
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {target.mode === 'width' &&
+        numberField('output-width', 'Width (px)', target.width, width => onChange({ ...target, width }))}
+
+      {target.mode === 'height' &&
+        numberField('output-height', 'Height (px)', target.height, height => onChange({ ...target, height }))}
+
+      {target.mode === 'box' && (
+        <>
+          <div className="flex gap-2">
+            {numberField('output-box-width', 'Width (px)', target.width, width => onChange({ ...target, width }))}
+            {numberField('output-box-height', 'Height (px)', target.height, height => onChange({ ...target, height }))}
+          </div>
+          {fitSelect(target.fit, fit => onChange({ ...target, fit }))}
+        </>
+      )}
+
+      {target.mode === 'print' && (
+        <>
+          <div className="flex items-end gap-2">
+            {numberField('output-print-width', 'Width', target.width, width => onChange({ ...target, width }), 0.5)}
+            {numberField('output-print-height', 'Height', target.height, height => onChange({ ...target, height }), 0.5)}
+            <Select
+              value={target.unit}
+              onValueChange={(unit) => onChange({ ...target, unit: unit as PrintUnit })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8 w-20 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="in">in</SelectItem>
+                <SelectItem value="cm">cm</SelectItem>
+              </SelectContent>
+            </Select>
+            {numberField('output-print-dpi', 'DPI', target.dpi, dpi => onChange({ ...target, dpi }))}
+          </div>
+          {fitSelect(target.fit, fit => onChange({ ...target, fit }))}
+        </>
+      )}
+
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : plan && (
+        <p className="text-xs text-muted-foreground">
+          Output: {plan.width} × {plan.height} px ({Number(plan.scale.toFixed(2))}x
+          {plan.finish === 'crop' ? ', cropped to fill' : plan.finish === 'stretch' ? ', stretched' : ''})
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ResizeTargetPicker;
@@ -16,6 +16,7 @@ export type Database = {
           enhancement_type: string
           id: string
           original_url: string
+          pipeline: Json | null
           quality: string
           user_id: string
         }
@@ -25,6 +26,7 @@ export type Database = {
           enhancement_type: string
           id?: string
           original_url: string
+          pipeline?: Json | null
           quality: string
           user_id: string
         }
@@ -34,6 +36,7 @@ export type Database = {
           enhancement_type?: string
           id?: string
           original_url?: string
+          pipeline?: Json | null
           quality?: string
           user_id?: string
         }
@@ -0,0 +1,218 @@
+// Image quality analysis. Everything here works on Rec. 601 luminance and
+// returns plain data so the report can cross the worker boundary.
+
+import { BlurEstimate, estimateBlur } from './deblur';
+
+export type ExposureVerdict = 'underexposed' | 'balanced' | 'overexposed';
+
+export type ImageAnalysisReport = {
+  width: number;
+  height: number;
+  // Variance of the Laplacian; low values mean few sharp edges
+  sharpness: number;
+  isBlurry: boolean;
+  // Blur kernel estimate the deblur step deconvolves with
+  blur: BlurEstimate;
+  // Estimated standard deviation of additive noise, in 0-255 units
+  noiseLevel: number;
+  isNoisy: boolean;
+  exposure: {
+    mean: number;
+    median: number;
+    stdDev: number;
+    // 256-bin luminance histogram, as fractions of all pixels
+    histogram: number[];
+    shadowsPercent: number;
+    midtonesPercent: number;
+    highlightsPercent: number;
+    verdict: ExposureVerdict;
+    isLowContrast: boolean;
+  };
+  clipping: {
+    // Pixels with every channel crushed to black
+    shadowsPercent: number;
+    // Pixels with at least one channel blown to white
+    highlightsPercent: number;
+  };
+  // Ratio of gradients across 8x8 block boundaries to gradients inside blocks
+  blockiness: number;
+  hasCompressionArtifacts: boolean;
+};
+
+// Thresholds are on the 0-255 scale and tuned for photos around 1-12 MP
+const BLUR_THRESHOLD = 100;
+const NOISE_THRESHOLD = 6;
+const BLOCKINESS_THRESHOLD = 1.3;
+const LOW_CONTRAST_STD_DEV = 35;
+
+export const computeLuminance = (imageData: ImageData): Float32Array => {
+  const { data, width, height } = imageData;
+  const luminance = new Float32Array(width * height);
+
+  for (let pixel = 0, i = 0; pixel < luminance.length; pixel++, i += 4) {
+    luminance[pixel] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+
+  return luminance;
+};
+
+// Variance of the 4-neighbour Laplacian response
+export const measureSharpness = (luminance: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const laplacian = luminance[idx - 1] + luminance[idx + 1] +
+        luminance[idx - width] + luminance[idx + width] - 4 * luminance[idx];
+      sum += laplacian;
+      sumSq += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+// Immerkær's fast noise variance estimation: the mask cancels image structure
+// up to second order, leaving mostly noise
+export const estimateNoise = (luminance: Float32Array, width: number, height: number): number => {
+  if (width < 3 || height < 3) return 0;
+
+  let total = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const response =
+        luminance[idx - width - 1] - 2 * luminance[idx - width] + luminance[idx - width + 1] -
+        2 * luminance[idx - 1] + 4 * luminance[idx] - 2 * luminance[idx + 1] +
+        luminance[idx + width - 1] - 2 * luminance[idx + width] + luminance[idx + width + 1];
+      total += Math.abs(response);
+    }
+  }
+
+  return Math.sqrt(Math.PI / 2) * total / (6 * (width - 2) * (height - 2));
+};
+
+// Compare gradients that straddle the 8x8 JPEG block grid with the rest
+const measureBlockiness = (luminance: Float32Array, width: number, height: number): number => {
+  let boundarySum = 0;
+  let boundaryCount = 0;
+  let interiorSum = 0;
+  let interiorCount = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const diff = Math.abs(luminance[y * width + x + 1] - luminance[y * width + x]);
+      if (x % 8 === 7) {
+        boundarySum += diff;
+        boundaryCount++;
+      } else {
+        interiorSum += diff;
+        interiorCount++;
+      }
+    }
+  }
+
+  for (let y = 0; y < height - 1; y++) {
+    const isBoundary = y % 8 === 7;
+    for (let x = 0; x < width; x++) {
+      const diff = Math.abs(luminance[(y + 1) * width + x] - luminance[y * width + x]);
+      if (isBoundary) {
+        boundarySum += diff;
+        boundaryCount++;
+      } else {
+        interiorSum += diff;
+        interiorCount++;
+      }
+    }
+  }
+
+  if (boundaryCount === 0 || interiorCount === 0) return 1;
+  // Floor the interior gradient at one grey level so flat images don't explode the ratio
+  const interiorMean = interiorSum / interiorCount;
+  return (boundarySum / boundaryCount) / Math.max(interiorMean, 1);
+};
+
+export const analyzeImage = (imageData: ImageData): ImageAnalysisReport => {
+  const { data, width, height } = imageData;
+  const pixelCount = width * height;
+  const luminance = computeLuminance(imageData);
+
+  // Exposure statistics from the luminance histogram
+  const counts = new Array<number>(256).fill(0);
+  let sum = 0;
+  let sumSq = 0;
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const value = luminance[pixel];
+    counts[Math.min(255, Math.round(value))]++;
+    sum += value;
+    sumSq += value * value;
+  }
+
+  const mean = sum / pixelCount;
+  const stdDev = Math.sqrt(Math.max(0, sumSq / pixelCount - mean * mean));
+
+  let median = 0;
+  let cumulative = 0;
+  for (let bin = 0; bin < 256; bin++) {
+    cumulative += counts[bin];
+    if (cumulative >= pixelCount / 2) {
+      median = bin;
+      break;
+    }
+  }
+
+  const percentInRange = (from: number, to: number) => {
+    let total = 0;
+    for (let bin = from; bin <= to; bin++) total += counts[bin];
+    return (total / pixelCount) * 100;
+  };
+
+  // Clipping is judged per channel: one blown channel already loses detail
+  let clippedShadows = 0;
+  let clippedHighlights = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] <= 1 && data[i + 1] <= 1 && data[i + 2] <= 1) clippedShadows++;
+    if (data[i] >= 254 || data[i + 1] >= 254 || data[i + 2] >= 254) clippedHighlights++;
+  }
+
+  const verdict: ExposureVerdict = mean < 85 ? 'underexposed' : mean > 170 ? 'overexposed' : 'balanced';
+
+  const sharpness = measureSharpness(luminance, width, height);
+  const noiseLevel = estimateNoise(luminance, width, height);
+  const blockiness = measureBlockiness(luminance, width, height);
+
+  const report: ImageAnalysisReport = {
+    width,
+    height,
+    sharpness,
+    isBlurry: sharpness < BLUR_THRESHOLD,
+    blur: estimateBlur(luminance, width, height),
+    noiseLevel,
+    isNoisy: noiseLevel > NOISE_THRESHOLD,
+    exposure: {
+      mean,
+      median,
+      stdDev,
+      histogram: counts.map(count => count / pixelCount),
+      shadowsPercent: percentInRange(0, 63),
+      midtonesPercent: percentInRange(64, 191),
+      highlightsPercent: percentInRange(192, 255),
+      verdict,
+      isLowContrast: stdDev < LOW_CONTRAST_STD_DEV,
+    },
+    clipping: {
+      shadowsPercent: (clippedShadows / pixelCount) * 100,
+      highlightsPercent: (clippedHighlights / pixelCount) * 100,
+    },
+    blockiness,
+    hasCompressionArtifacts: blockiness > BLOCKINESS_THRESHOLD,
+  };
+
+  return report;
+};
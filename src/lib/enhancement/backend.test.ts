@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { candidateBackends, probeCapabilities } from './backend';
+
+describe('probeCapabilities', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('finds WebAssembly but no WebGPU or threads outside a browser', async () => {
+    const capabilities = await probeCapabilities();
+    expect(capabilities).toMatchObject({ webgpu: false, wasm: true, wasmThreads: false });
+    expect(candidateBackends(capabilities)).toEqual(['wasm']);
+  });
+
+  it('ignores WebGPU when no adapter is handed out, as in headless browsers', async () => {
+    vi.stubGlobal('navigator', { gpu: { requestAdapter: async () => null } });
+    expect((await probeCapabilities()).webgpu).toBe(false);
+  });
+
+  it('ignores WebGPU when asking for an adapter throws', async () => {
+    vi.stubGlobal('navigator', { gpu: { requestAdapter: async () => { throw new Error('GPU process crashed'); } } });
+    expect((await probeCapabilities()).webgpu).toBe(false);
+  });
+
+  it('uses WebGPU when there is an adapter', async () => {
+    vi.stubGlobal('navigator', { gpu: { requestAdapter: async () => ({}) } });
+    expect((await probeCapabilities()).webgpu).toBe(true);
+  });
+
+  it('finds no backend without WebAssembly or WebGPU', async () => {
+    vi.stubGlobal('WebAssembly', undefined);
+    const capabilities = await probeCapabilities();
+    expect(capabilities).toMatchObject({ webgpu: false, wasm: false, wasmSimd: false, wasmThreads: false });
+    expect(candidateBackends(capabilities)).toEqual([]);
+  });
+});
+
+describe('candidateBackends', () => {
+  it('tries WebGPU before WebAssembly', () => {
+    expect(candidateBackends({ webgpu: true, wasm: true, wasmSimd: true, wasmThreads: false })).toEqual(['webgpu', 'wasm']);
+  });
+});
@@ -0,0 +1,71 @@
+// Where model inference runs. There is no pure-JavaScript fallback for the
+// ONNX models: 'none' means neither WebGPU nor WebAssembly could be brought up,
+// so the classic pixel filters still work but model-backed options
+// (AI upscaling, neural style transfer) are disabled, and the AI upscale of
+// the default pipeline and presets is swapped for the classic one (see
+// withAvailableResampler in pipeline.ts).
+export type ModelBackend = 'webgpu' | 'wasm';
+export type ExecutionBackend = ModelBackend | 'none';
+
+export type BackendCapabilities = {
+  webgpu: boolean;
+  wasm: boolean;
+  wasmSimd: boolean;
+  wasmThreads: boolean;
+};
+
+export const backendLabels: Record<ExecutionBackend, string> = {
+  webgpu: 'WebGPU',
+  wasm: 'WebAssembly',
+  none: 'No AI backend (classic filters only)',
+};
+
+// Smallest valid module, and one using a v128 instruction (from wasm-feature-detect)
+const wasmModule = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0]);
+const wasmSimdModule = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+
+type GpuNavigator = Navigator & {
+  gpu?: { requestAdapter: () => Promise<unknown | null> };
+};
+
+const probeWebGpu = async (): Promise<boolean> => {
+  try {
+    const gpu = (navigator as GpuNavigator).gpu;
+    if (!gpu) return false;
+
+    // Headless environments expose navigator.gpu but hand out no adapter
+    return (await gpu.requestAdapter()) !== null;
+  } catch {
+    return false;
+  }
+};
+
+const validateWasm = (bytes: Uint8Array): boolean => {
+  try {
+    return typeof WebAssembly === 'object' && WebAssembly.validate(bytes);
+  } catch {
+    return false;
+  }
+};
+
+export const probeCapabilities = async (): Promise<BackendCapabilities> => {
+  const wasm = validateWasm(wasmModule);
+
+  return {
+    webgpu: await probeWebGpu(),
+    wasm,
+    wasmSimd: wasm && validateWasm(wasmSimdModule),
+    // Threads need SharedArrayBuffer, which browsers only grant to cross-origin isolated pages
+    wasmThreads: wasm && typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true,
+  };
+};
+
+// Model backends worth trying, fastest first
+export const candidateBackends = (capabilities: BackendCapabilities): ModelBackend[] => {
+  const candidates: ModelBackend[] = [];
+  if (capabilities.webgpu) candidates.push('webgpu');
+  if (capabilities.wasm) candidates.push('wasm');
+  return candidates;
+};
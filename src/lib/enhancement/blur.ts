@@ -0,0 +1,87 @@
+// Gaussian blurs of a single Float32 channel with clamp-to-edge borders, for
+// masks, frequency layers and unsharp masking.
+
+export const gaussianKernel1d = (sigma: number): number[] => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel: number[] = [];
+  let total = 0;
+
+  for (let offset = -radius; offset <= radius; offset++) {
+    const weight = Math.exp(-(offset * offset) / (2 * sigma * sigma));
+    kernel.push(weight);
+    total += weight;
+  }
+
+  return kernel.map(weight => weight / total);
+};
+
+// Separable: one horizontal and one vertical pass
+export const gaussianBlur = (values: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const kernel = gaussianKernel1d(sigma);
+  const radius = (kernel.length - 1) / 2;
+  const horizontal = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = 0; k < kernel.length; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k - radius));
+        sum += values[y * width + sx] * kernel[k];
+      }
+      horizontal[y * width + x] = sum;
+    }
+  }
+
+  const output = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = 0; k < kernel.length; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k - radius));
+        sum += horizontal[sy * width + x] * kernel[k];
+      }
+      output[y * width + x] = sum;
+    }
+  }
+  return output;
+};
+
+// Wide blurs run on a reduced grid and are interpolated back up. Close enough
+// for masks and low-frequency layers, at a fraction of the cost of a
+// full-resolution kernel hundreds of taps wide.
+export const fastGaussianBlur = (values: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const factor = Math.max(1, Math.floor(sigma / 2));
+  if (factor === 1) return gaussianBlur(values, width, height, sigma);
+
+  const smallWidth = Math.ceil(width / factor);
+  const smallHeight = Math.ceil(height / factor);
+  const small = new Float32Array(smallWidth * smallHeight);
+  const counts = new Float32Array(small.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = Math.floor(y / factor) * smallWidth + Math.floor(x / factor);
+      small[index] += values[y * width + x];
+      counts[index]++;
+    }
+  }
+  for (let i = 0; i < small.length; i++) small[i] /= counts[i];
+
+  const blurred = gaussianBlur(small, smallWidth, smallHeight, sigma / factor);
+  const output = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(smallHeight - 1, Math.max(0, (y + 0.5) / factor - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(smallHeight - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(smallWidth - 1, Math.max(0, (x + 0.5) / factor - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(smallWidth - 1, x0 + 1);
+      const fx = sx - x0;
+      const top = blurred[y0 * smallWidth + x0] * (1 - fx) + blurred[y0 * smallWidth + x1] * fx;
+      const bottom = blurred[y1 * smallWidth + x0] * (1 - fx) + blurred[y1 * smallWidth + x1] * fx;
+      output[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+
+  return output;
+};
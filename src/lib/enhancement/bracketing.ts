@@ -0,0 +1,366 @@
+// Bracketed exposure merging: median threshold bitmap (MTB) alignment followed
+// by Mertens exposure fusion. Fusion blends the best-exposed parts of each frame
+// directly into a display-ready image, so no camera response curve or separate
+// tone mapping pass is needed.
+
+export const MIN_EXPOSURES = 2;
+export const MAX_EXPOSURES = 7;
+
+// MTB ignores pixels this close to the median; they flip between frames on noise alone
+const MTB_EXCLUSION = 4;
+const MAX_ALIGNMENT_LEVELS = 6;
+// Spread of the well-exposedness weight around mid grey
+const WELL_EXPOSED_SIGMA = 0.2;
+
+type Plane = {
+  data: Float32Array;
+  width: number;
+  height: number;
+  channels: number;
+};
+
+type Offset = { dx: number; dy: number };
+
+const toGray = ({ data, width, height }: ImageData): Uint8Array => {
+  const gray = new Uint8Array(width * height);
+  for (let pixel = 0, i = 0; pixel < gray.length; pixel++, i += 4) {
+    gray[pixel] = (54 * data[i] + 183 * data[i + 1] + 19 * data[i + 2]) >> 8;
+  }
+  return gray;
+};
+
+const halveGray = (gray: Uint8Array, width: number, height: number) => {
+  const halfWidth = Math.max(1, width >> 1);
+  const halfHeight = Math.max(1, height >> 1);
+  const half = new Uint8Array(halfWidth * halfHeight);
+
+  for (let y = 0; y < halfHeight; y++) {
+    for (let x = 0; x < halfWidth; x++) {
+      const sx = Math.min(width - 2, x * 2);
+      const sy = Math.min(height - 2, y * 2);
+      const idx = sy * width + sx;
+      half[y * halfWidth + x] = (gray[idx] + gray[idx + 1] + gray[idx + width] + gray[idx + width + 1]) >> 2;
+    }
+  }
+
+  return { gray: half, width: halfWidth, height: halfHeight };
+};
+
+const medianOf = (gray: Uint8Array): number => {
+  const counts = new Uint32Array(256);
+  for (let i = 0; i < gray.length; i++) counts[gray[i]]++;
+
+  let cumulative = 0;
+  for (let value = 0; value < 256; value++) {
+    cumulative += counts[value];
+    if (cumulative >= gray.length / 2) return value;
+  }
+  return 127;
+};
+
+// Threshold bitmap plus the mask of pixels far enough from the median to trust
+const thresholdBitmaps = (gray: Uint8Array) => {
+  const median = medianOf(gray);
+  const threshold = new Uint8Array(gray.length);
+  const exclusion = new Uint8Array(gray.length);
+
+  for (let i = 0; i < gray.length; i++) {
+    threshold[i] = gray[i] > median ? 1 : 0;
+    exclusion[i] = Math.abs(gray[i] - median) > MTB_EXCLUSION ? 1 : 0;
+  }
+
+  return { threshold, exclusion };
+};
+
+const alignmentError = (
+  reference: ReturnType<typeof thresholdBitmaps>,
+  candidate: ReturnType<typeof thresholdBitmaps>,
+  width: number,
+  height: number,
+  { dx, dy }: Offset
+): number => {
+  let errors = 0;
+  let compared = 0;
+
+  for (let y = Math.max(0, dy); y < Math.min(height, height + dy); y++) {
+    for (let x = Math.max(0, dx); x < Math.min(width, width + dx); x++) {
+      const ref = y * width + x;
+      const moved = (y - dy) * width + (x - dx);
+      if (reference.exclusion[ref] && candidate.exclusion[moved]) {
+        compared++;
+        if (reference.threshold[ref] !== candidate.threshold[moved]) errors++;
+      }
+    }
+  }
+
+  // As a fraction, so larger shifts aren't favoured just for overlapping less
+  return compared > 0 ? errors / compared : Infinity;
+};
+
+// Ward's MTB: compare median-thresholded bitmaps coarse to fine, refining the
+// translation by one pixel per pyramid level
+const findOffset = (reference: ImageData, candidate: ImageData): Offset => {
+  const levels = Math.max(0, Math.min(
+    MAX_ALIGNMENT_LEVELS,
+    Math.floor(Math.log2(Math.min(reference.width, reference.height) / 32))
+  ));
+
+  const referencePyramid = [{ gray: toGray(reference), width: reference.width, height: reference.height }];
+  const candidatePyramid = [{ gray: toGray(candidate), width: candidate.width, height: candidate.height }];
+  for (let level = 1; level <= levels; level++) {
+    const ref = referencePyramid[level - 1];
+    const cand = candidatePyramid[level - 1];
+    referencePyramid.push(halveGray(ref.gray, ref.width, ref.height));
+    candidatePyramid.push(halveGray(cand.gray, cand.width, cand.height));
+  }
+
+  let offset: Offset = { dx: 0, dy: 0 };
+  for (let level = levels; level >= 0; level--) {
+    const { gray, width, height } = referencePyramid[level];
+    const referenceBitmaps = thresholdBitmaps(gray);
+    const candidateBitmaps = thresholdBitmaps(candidatePyramid[level].gray);
+
+    // Start from the current estimate so ties (e.g. featureless directions) don't drift
+    let best = offset;
+    let bestError = alignmentError(referenceBitmaps, candidateBitmaps, width, height, offset);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        const trial = { dx: offset.dx + dx, dy: offset.dy + dy };
+        const error = alignmentError(referenceBitmaps, candidateBitmaps, width, height, trial);
+        if (error < bestError) {
+          bestError = error;
+          best = trial;
+        }
+      }
+    }
+
+    offset = level > 0 ? { dx: best.dx * 2, dy: best.dy * 2 } : best;
+  }
+
+  return offset;
+};
+
+// Translate an image, repeating edge pixels into the uncovered border
+const shiftImage = (imageData: ImageData, { dx, dy }: Offset): ImageData => {
+  if (dx === 0 && dy === 0) return imageData;
+
+  const { data, width, height } = imageData;
+  const shifted = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(height - 1, Math.max(0, y - dy));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(width - 1, Math.max(0, x - dx));
+      const target = (y * width + x) * 4;
+      const source = (sy * width + sx) * 4;
+      shifted[target] = data[source];
+      shifted[target + 1] = data[source + 1];
+      shifted[target + 2] = data[source + 2];
+      shifted[target + 3] = data[source + 3];
+    }
+  }
+
+  return new ImageData(shifted, width, height);
+};
+
+// Align every exposure to the reference frame, correcting hand-held drift
+export const alignExposures = (exposures: ImageData[], referenceIndex: number): ImageData[] => {
+  const reference = exposures[referenceIndex];
+  return exposures.map((exposure, index) => {
+    if (index === referenceIndex) return exposure;
+    return shiftImage(exposure, findOffset(reference, exposure));
+  });
+};
+
+// Pyramid helpers. Down- and upsampling only need to be consistent with each
+// other: Laplacian levels are built with the same pyrUp used to collapse them.
+
+const pyrDown = (plane: Plane): Plane => {
+  const { data, width, height, channels } = plane;
+  const halfWidth = Math.max(1, Math.ceil(width / 2));
+  const halfHeight = Math.max(1, Math.ceil(height / 2));
+  const output = new Float32Array(halfWidth * halfHeight * channels);
+  const kernel = [1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16];
+
+  for (let y = 0; y < halfHeight; y++) {
+    for (let x = 0; x < halfWidth; x++) {
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let ky = -2; ky <= 2; ky++) {
+          const sy = Math.min(height - 1, Math.max(0, y * 2 + ky));
+          for (let kx = -2; kx <= 2; kx++) {
+            const sx = Math.min(width - 1, Math.max(0, x * 2 + kx));
+            sum += data[(sy * width + sx) * channels + c] * kernel[ky + 2] * kernel[kx + 2];
+          }
+        }
+        output[(y * halfWidth + x) * channels + c] = sum;
+      }
+    }
+  }
+
+  return { data: output, width: halfWidth, height: halfHeight, channels };
+};
+
+// Bilinear upsampling to an explicit size
+const pyrUp = (plane: Plane, width: number, height: number): Plane => {
+  const { data, channels } = plane;
+  const output = new Float32Array(width * height * channels);
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(plane.height - 1, Math.max(0, (y + 0.5) / 2 - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(plane.height - 1, y0 + 1);
+    const fy = sy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(plane.width - 1, Math.max(0, (x + 0.5) / 2 - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(plane.width - 1, x0 + 1);
+      const fx = sx - x0;
+
+      for (let c = 0; c < channels; c++) {
+        const top = data[(y0 * plane.width + x0) * channels + c] * (1 - fx) +
+          data[(y0 * plane.width + x1) * channels + c] * fx;
+        const bottom = data[(y1 * plane.width + x0) * channels + c] * (1 - fx) +
+          data[(y1 * plane.width + x1) * channels + c] * fx;
+        output[(y * width + x) * channels + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  return { data: output, width, height, channels };
+};
+
+const gaussianPyramid = (plane: Plane, levels: number): Plane[] => {
+  const pyramid = [plane];
+  for (let level = 1; level < levels; level++) {
+    pyramid.push(pyrDown(pyramid[level - 1]));
+  }
+  return pyramid;
+};
+
+const laplacianPyramid = (plane: Plane, levels: number): Plane[] => {
+  const gaussian = gaussianPyramid(plane, levels);
+  return gaussian.map((level, index) => {
+    if (index === levels - 1) return level;
+    const expanded = pyrUp(gaussian[index + 1], level.width, level.height);
+    return { ...level, data: level.data.map((value, i) => value - expanded.data[i]) };
+  });
+};
+
+// Mertens' quality measures: local contrast, saturation and well-exposedness
+const fusionWeights = ({ data, width, height }: ImageData): Float32Array => {
+  const pixelCount = width * height;
+  const gray = new Float32Array(pixelCount);
+  for (let pixel = 0, i = 0; pixel < pixelCount; pixel++, i += 4) {
+    gray[pixel] = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+  }
+
+  const weights = new Float32Array(pixelCount);
+  const wellExposedFactor = -1 / (2 * WELL_EXPOSED_SIGMA * WELL_EXPOSED_SIGMA);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const i = pixel * 4;
+
+      const left = gray[y * width + Math.max(0, x - 1)];
+      const right = gray[y * width + Math.min(width - 1, x + 1)];
+      const up = gray[Math.max(0, y - 1) * width + x];
+      const down = gray[Math.min(height - 1, y + 1) * width + x];
+      const contrast = Math.abs(left + right + up + down - 4 * gray[pixel]);
+
+      const r = data[i] / 255;
+      const g = data[i + 1] / 255;
+      const b = data[i + 2] / 255;
+      const mean = (r + g + b) / 3;
+      const saturation = Math.sqrt(((r - mean) ** 2 + (g - mean) ** 2 + (b - mean) ** 2) / 3);
+
+      const wellExposed = Math.exp(
+        ((r - 0.5) ** 2 + (g - 0.5) ** 2 + (b - 0.5) ** 2) * wellExposedFactor
+      );
+
+      weights[pixel] = contrast * saturation * wellExposed + 1e-12;
+    }
+  }
+
+  return weights;
+};
+
+// Blend the exposures per pyramid level with their normalised weights
+export const fuseExposures = (exposures: ImageData[], referenceIndex: number): ImageData => {
+  const { width, height } = exposures[0];
+  const pixelCount = width * height;
+  const levels = Math.max(1, Math.min(8, Math.floor(Math.log2(Math.min(width, height))) - 2));
+
+  const weights = exposures.map(fusionWeights);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    let total = 0;
+    for (const weight of weights) total += weight[pixel];
+    for (const weight of weights) weight[pixel] /= total;
+  }
+
+  let blended: Plane[] = [];
+  for (let index = 0; index < exposures.length; index++) {
+    const exposure = exposures[index];
+    const rgb = new Float32Array(pixelCount * 3);
+    for (let pixel = 0, i = 0; pixel < pixelCount; pixel++, i += 4) {
+      rgb[pixel * 3] = exposure.data[i] / 255;
+      rgb[pixel * 3 + 1] = exposure.data[i + 1] / 255;
+      rgb[pixel * 3 + 2] = exposure.data[i + 2] / 255;
+    }
+
+    const laplacian = laplacianPyramid({ data: rgb, width, height, channels: 3 }, levels);
+    const weightPyramid = gaussianPyramid({ data: weights[index], width, height, channels: 1 }, levels);
+
+    blended = laplacian.map((level, levelIndex) => {
+      const weight = weightPyramid[levelIndex].data;
+      const accumulated = blended[levelIndex]?.data ?? new Float32Array(level.data.length);
+      for (let i = 0; i < level.data.length; i++) {
+        accumulated[i] += level.data[i] * weight[Math.floor(i / 3)];
+      }
+      return { ...level, data: accumulated };
+    });
+  }
+
+  // Collapse the blended pyramid
+  let result = blended[levels - 1];
+  for (let level = levels - 2; level >= 0; level--) {
+    const expanded = pyrUp(result, blended[level].width, blended[level].height);
+    result = { ...blended[level], data: blended[level].data.map((value, i) => value + expanded.data[i]) };
+  }
+
+  const output = new Uint8ClampedArray(pixelCount * 4);
+  const alpha = exposures[referenceIndex].data;
+  for (let pixel = 0, i = 0; pixel < pixelCount; pixel++, i += 4) {
+    output[i] = result.data[pixel * 3] * 255;
+    output[i + 1] = result.data[pixel * 3 + 1] * 255;
+    output[i + 2] = result.data[pixel * 3 + 2] * 255;
+    output[i + 3] = alpha[i + 3];
+  }
+
+  return new ImageData(output, width, height);
+};
+
+// Merge exposures ordered darkest to brightest into one image. The middle
+// exposure is the alignment reference and the one results are compared against.
+export const mergeExposures = (
+  exposures: ImageData[],
+  onProgress: (message: string) => void
+): ImageData => {
+  if (exposures.length < MIN_EXPOSURES || exposures.length > MAX_EXPOSURES) {
+    throw new Error(`Exposure merging needs ${MIN_EXPOSURES} to ${MAX_EXPOSURES} images, got ${exposures.length}`);
+  }
+  const { width, height } = exposures[0];
+  if (exposures.some(exposure => exposure.width !== width || exposure.height !== height)) {
+    throw new Error('Bracketed exposures must all have the same dimensions');
+  }
+
+  const referenceIndex = Math.floor(exposures.length / 2);
+
+  onProgress(`Aligning ${exposures.length} exposures...`);
+  const aligned = alignExposures(exposures, referenceIndex);
+
+  onProgress('Fusing exposures...');
+  return fuseExposures(aligned, referenceIndex);
+};
@@ -0,0 +1,38 @@
+import { Sun } from 'lucide-react';
+import { describe, expect, it } from 'vitest';
+import { assessBudget, DeviceLimits } from './budget';
+import type { EnhancementDefinition } from './registry';
+import { planResize } from './resizeTarget';
+
+const MB = 1024 ** 2;
+
+// A tiled per-pixel step that keeps the size
+const brighten: EnhancementDefinition = {
+  id: 'brighten',
+  name: 'Brighten',
+  description: 'Test step',
+  icon: Sun,
+  load: async () => async image => image,
+};
+
+const limits: DeviceLimits = { maxCanvasSide: 16384, maxCanvasArea: 16384 * 16384, memoryBudget: 100 * MB };
+
+describe('assessBudget', () => {
+  const plan = planResize({ mode: 'scale', factor: 1 }, 1000, 1000);
+
+  it('counts every bracketed exposure, not just the merged source', () => {
+    const single = assessBudget(1000, 1000, plan, [brighten], undefined, limits);
+    const bracket = assessBudget(1000, 1000, plan, [brighten], undefined, limits, 7);
+
+    expect(single.refusal).toBeUndefined();
+    expect(bracket.refusal).toMatch(/memory/);
+    // At least the decoded and the aligned 8-bit copy of every frame
+    expect(bracket.cost.imageBytes).toBeGreaterThanOrEqual(7 * 1000 * 1000 * 8);
+  });
+
+  it('scales the merge cost with the number of frames', () => {
+    const cost = (frames: number) => assessBudget(1000, 1000, plan, [brighten], undefined, limits, frames).cost.imageBytes;
+    expect(cost(5)).toBeGreaterThan(cost(3));
+    expect(cost(3)).toBeGreaterThan(cost(1));
+  });
+});
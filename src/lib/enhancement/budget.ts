@@ -0,0 +1,241 @@
+import type { EnhancementDefinition } from './registry';
+import { planResize, ResizePlan } from './resizeTarget';
+import { MIN_TILE_SIZE, tileOptionsForScale, TileOptions } from './tiling';
+
+// Browsers cap both the size of a canvas and the memory a tab may use, and
+// past those limits getImageData throws or quietly returns blank pixels. A
+// job's cost is estimated from its sizes before anything runs, so it can be
+// refused (or given smaller tiles) instead of failing halfway or producing
+// garbage.
+
+export type DeviceLimits = {
+  // Largest canvas edge and area, in pixels
+  maxCanvasSide: number;
+  maxCanvasArea: number;
+  // Bytes the job's buffers may take in total
+  memoryBudget: number;
+};
+
+export type JobCost = {
+  width: number;
+  height: number;
+  // Peak bytes held by full-size image buffers
+  imageBytes: number;
+  // Bytes one tile's model inference holds on top of them
+  tileBytes: number;
+};
+
+export type BudgetAssessment = {
+  cost: JobCost;
+  // Tile edge the job has to use to stay within memory, when the planned one is too big
+  tileSize?: number;
+  // Why the job can't run on this device, and the largest uniform scale of
+  // this source that would
+  refusal?: string;
+  maxScale?: number;
+};
+
+const GIB = 1024 ** 3;
+
+// navigator.deviceMemory is Chromium-only, and rounded down and capped at 8
+const DEFAULT_DEVICE_MEMORY_GB = 4;
+// A tab gets a fraction of the device's memory, and WASM heaps top out at 4 GB
+const MEMORY_FRACTION = 0.25;
+const MAX_MEMORY_BUDGET = 2 * GIB;
+
+// Desktop browsers allow 16384px edges and 268M pixel canvases; iOS Safari
+// allows only 16.7M pixels
+const DESKTOP_CANVAS_SIDE = 16384;
+const IOS_CANVAS_AREA = 4096 * 4096;
+
+// Bytes per pixel of the buffers each kind of step holds at once. Steps
+// run on the Float32 working buffer (see linear.ts); 8-bit RGBA is only
+// decoded input and encoder output.
+const RGBA_BYTES = 4;
+const LINEAR_RGBA_BYTES = 16;
+// Input, output, and processTiled's Float32 RGBA accumulator plus weight
+const TILED_STEP_BYTES = LINEAR_RGBA_BYTES * 2 + 20;
+// Whole-image steps keep several Float32 planes (masks, Lab, blurs) and
+// 8-bit copies alive next to their input and output
+const WHOLE_IMAGE_STEP_BYTES = LINEAR_RGBA_BYTES * 2 + 48;
+// Bracket merging holds every frame twice in 8-bit (decoded and aligned) with
+// a Float32 fusion weight each, on top of one frame's Float32 pyramids and the
+// blended result
+const MERGE_FRAME_BYTES = RGBA_BYTES * 2 + 4;
+const MERGE_WORKING_BYTES = 80;
+// Model inference per tile output pixel: a few live 64-channel Float32 feature maps
+const MODEL_TILE_BYTES = 256;
+
+export const detectDeviceLimits = (): DeviceLimits => {
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+    ?? DEFAULT_DEVICE_MEMORY_GB;
+  // iPadOS reports itself as a Mac, but with a touch screen
+  const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent)
+    || (/Macintosh/.test(navigator.userAgent) && navigator.maxTouchPoints > 1);
+
+  return {
+    maxCanvasSide: DESKTOP_CANVAS_SIDE,
+    maxCanvasArea: isIOS ? IOS_CANVAS_AREA : DESKTOP_CANVAS_SIDE * DESKTOP_CANVAS_SIDE,
+    memoryBudget: Math.min(MAX_MEMORY_BUDGET, deviceMemory * GIB * MEMORY_FRACTION),
+  };
+};
+
+// Tiles the engine uses for a plan, with the caller's overrides
+export const tilingForPlan = (plan: ResizePlan, overrides?: Partial<TileOptions>): TileOptions => {
+  return { ...tileOptionsForScale(plan.scale), ...overrides };
+};
+
+const stepBytes = (definition: EnhancementDefinition, pixels: number) =>
+  pixels * (definition.wholeImage ? WHOLE_IMAGE_STEP_BYTES : TILED_STEP_BYTES);
+
+// frameCount is the number of bracketed exposures merged into the source
+export const estimateJobCost = (
+  sourceWidth: number,
+  sourceHeight: number,
+  plan: ResizePlan,
+  definitions: EnhancementDefinition[],
+  tiling: TileOptions,
+  frameCount = 1
+): JobCost => {
+  const sourcePixels = sourceWidth * sourceHeight;
+  // The decoded 8-bit frames stay alive for the whole job
+  const framesBytes = sourcePixels * RGBA_BYTES * frameCount;
+  const outputPixels = plan.width * plan.height;
+  // Fill targets resample past the box and crop afterwards
+  const resampledPixels = Math.round(sourceWidth * plan.scale) * Math.round(sourceHeight * plan.scale);
+
+  // Encoding holds the output pixels, their colour-converted copy, and the
+  // 8-bit image data and canvas (or 16-bit samples) made from it
+  let imageBytes = outputPixels * (LINEAR_RGBA_BYTES * 2 + RGBA_BYTES * 2);
+  let tileBytes = 0;
+
+  if (frameCount > 1) {
+    imageBytes = Math.max(imageBytes, sourcePixels * (frameCount * MERGE_FRAME_BYTES + MERGE_WORKING_BYTES));
+  }
+
+  for (const definition of definitions) {
+    if (definition.resamples) {
+      imageBytes = Math.max(imageBytes, sourcePixels * LINEAR_RGBA_BYTES + stepBytes(definition, resampledPixels));
+    } else {
+      imageBytes = Math.max(imageBytes, stepBytes(definition, definition.afterResample ? outputPixels : sourcePixels));
+    }
+
+    if (definition.requiresModel) {
+      const scale = definition.resamples ? plan.scale : 1;
+      const tileEdge = (tiling.tileSize + 2 * tiling.overlap) * scale;
+      tileBytes = Math.max(tileBytes, tileEdge * tileEdge * MODEL_TILE_BYTES);
+    }
+  }
+
+  return { width: plan.width, height: plan.height, imageBytes: imageBytes + framesBytes, tileBytes };
+};
+
+const formatGigabytes = (bytes: number) => `${(bytes / GIB).toFixed(1)} GB`;
+
+// Why a job of this cost can't run, ignoring tile memory (which can be traded for more tiles)
+const canvasOrMemoryRefusal = (cost: JobCost, limits: DeviceLimits): string | null => {
+  const { width, height } = cost;
+  if (Math.max(width, height) > limits.maxCanvasSide) {
+    return `${width} × ${height} px is wider than this browser's canvas limit of ${limits.maxCanvasSide} px`;
+  }
+  if (width * height > limits.maxCanvasArea) {
+    const megapixels = (limits.maxCanvasArea / 1e6).toFixed(1);
+    return `${width} × ${height} px is larger than this browser's canvas limit of ${megapixels} megapixels`;
+  }
+  if (cost.imageBytes > limits.memoryBudget) {
+    return `${width} × ${height} px needs about ${formatGigabytes(cost.imageBytes)} of memory, `
+      + `but this device can spare about ${formatGigabytes(limits.memoryBudget)}`;
+  }
+  return null;
+};
+
+// Largest tile edge whose model inference fits in the memory left over, if any
+const fittingTileSize = (
+  cost: JobCost,
+  limits: DeviceLimits,
+  definitions: EnhancementDefinition[],
+  plan: ResizePlan,
+  overlap: number
+): number | null => {
+  const scale = definitions.some(definition => definition.resamples && definition.requiresModel) ? plan.scale : 1;
+  const spare = limits.memoryBudget - cost.imageBytes;
+  const tileEdge = Math.floor(Math.sqrt(Math.max(0, spare) / MODEL_TILE_BYTES) / scale) - 2 * overlap;
+  return tileEdge >= MIN_TILE_SIZE ? tileEdge : null;
+};
+
+const fits = (
+  sourceWidth: number,
+  sourceHeight: number,
+  plan: ResizePlan,
+  definitions: EnhancementDefinition[],
+  tilingOverrides: Partial<TileOptions> | undefined,
+  limits: DeviceLimits,
+  frameCount: number
+): boolean => {
+  const tiling = tilingForPlan(plan, tilingOverrides);
+  const cost = estimateJobCost(sourceWidth, sourceHeight, plan, definitions, tiling, frameCount);
+  if (canvasOrMemoryRefusal(cost, limits)) return false;
+  return cost.imageBytes + cost.tileBytes <= limits.memoryBudget
+    || fittingTileSize(cost, limits, definitions, plan, tiling.overlap) !== null;
+};
+
+// Largest uniform scale, to two decimals, that still fits
+const findMaxScale = (
+  sourceWidth: number,
+  sourceHeight: number,
+  definitions: EnhancementDefinition[],
+  tilingOverrides: Partial<TileOptions> | undefined,
+  limits: DeviceLimits,
+  frameCount: number
+): number => {
+  const planFor = (scale: number) => planResize({ mode: 'scale', factor: scale }, sourceWidth, sourceHeight);
+  const canvasScale = Math.min(
+    limits.maxCanvasSide / Math.max(sourceWidth, sourceHeight),
+    Math.sqrt(limits.maxCanvasArea / (sourceWidth * sourceHeight))
+  );
+
+  let low = 0;
+  let high = Math.floor(canvasScale * 100);
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(sourceWidth, sourceHeight, planFor(middle / 100), definitions, tilingOverrides, limits, frameCount)) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low / 100;
+};
+
+export const assessBudget = (
+  sourceWidth: number,
+  sourceHeight: number,
+  plan: ResizePlan,
+  definitions: EnhancementDefinition[],
+  tilingOverrides: Partial<TileOptions> | undefined,
+  limits: DeviceLimits,
+  frameCount = 1
+): BudgetAssessment => {
+  const tiling = tilingForPlan(plan, tilingOverrides);
+  const cost = estimateJobCost(sourceWidth, sourceHeight, plan, definitions, tiling, frameCount);
+  const maxScale = () => findMaxScale(sourceWidth, sourceHeight, definitions, tilingOverrides, limits, frameCount);
+
+  const refusal = canvasOrMemoryRefusal(cost, limits);
+  if (refusal) {
+    return { cost, refusal, maxScale: maxScale() };
+  }
+
+  if (cost.imageBytes + cost.tileBytes > limits.memoryBudget) {
+    const tileSize = fittingTileSize(cost, limits, definitions, plan, tiling.overlap);
+    if (tileSize === null) {
+      return {
+        cost,
+        refusal: `${cost.width} × ${cost.height} px leaves too little memory for the model to process tiles`,
+        maxScale: maxScale(),
+      };
+    }
+    return { cost, tileSize };
+  }
+
+  return { cost };
+};
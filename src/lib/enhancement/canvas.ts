@@ -0,0 +1,51 @@
+// Canvas helpers that work inside the enhancement worker (no DOM access there)
+//
+// Pixels are processed in a working colour space (sRGB, or Display P3 for
+// wide-gamut sources). Canvases are created in the space their image data is
+// tagged with, so drawing never clips colours to sRGB along the way.
+
+export const createCanvas = (width: number, height: number): OffscreenCanvas => {
+  return new OffscreenCanvas(width, height);
+};
+
+export const getContext2d = (
+  canvas: OffscreenCanvas,
+  colorSpace: PredefinedColorSpace = 'srgb'
+): OffscreenCanvasRenderingContext2D => {
+  const ctx = canvas.getContext('2d', { colorSpace });
+  if (!ctx) throw new Error('Failed to create 2D canvas context');
+  return ctx;
+};
+
+export const canvasFromImageData = (imageData: ImageData): OffscreenCanvas => {
+  const canvas = createCanvas(imageData.width, imageData.height);
+  getContext2d(canvas, imageData.colorSpace).putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// The browser converts from the bitmap's embedded profile to the requested space
+export const imageDataFromBitmap = (bitmap: ImageBitmap, colorSpace: PredefinedColorSpace = 'srgb'): ImageData => {
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  const ctx = getContext2d(canvas, colorSpace);
+  ctx.drawImage(bitmap, 0, 0);
+  return ctx.getImageData(0, 0, bitmap.width, bitmap.height, { colorSpace });
+};
+
+// Resample image data to the given size with the browser's high quality smoothing
+export const resizeImageData = (imageData: ImageData, width: number, height: number): ImageData => {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2d(canvas, imageData.colorSpace);
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvasFromImageData(imageData), 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height, { colorSpace: imageData.colorSpace });
+};
+
+export const upscaleImageData = (imageData: ImageData, factor: number): ImageData => {
+  return resizeImageData(imageData, imageData.width * factor, imageData.height * factor);
+};
+
+export const encodeImageData = (imageData: ImageData, type = 'image/jpeg', quality = 0.95): Promise<Blob> => {
+  return canvasFromImageData(imageData).convertToBlob({ type, quality });
+};
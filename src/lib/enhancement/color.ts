@@ -0,0 +1,58 @@
+// sRGB transfer functions and luminance helpers shared by the filters
+
+// sRGB-encoded value in [0, 1] to linear light
+export const decodeSrgb = (c: number): number => {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+// The sRGB curve extended past [0, 1] (the linear segment continues below 0,
+// the power segment above 1), for headroom in the linear working buffer
+export const encodeSrgbUnclamped = (c: number): number => {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+};
+
+// Linear light to an sRGB-encoded value in [0, 1]
+export const encodeSrgb = (value: number): number => {
+  return encodeSrgbUnclamped(Math.min(1, Math.max(0, value)));
+};
+
+// Decoding 8-bit values is a hot path, so it goes through a lookup table
+const srgbToLinearTable = new Float32Array(256);
+for (let value = 0; value < 256; value++) {
+  srgbToLinearTable[value] = decodeSrgb(value / 255);
+}
+
+// 8-bit sRGB value to linear light in [0, 1]
+export const srgbToLinear = (value: number): number => srgbToLinearTable[value];
+
+// Linear light in [0, 1] back to an 8-bit sRGB value
+export const linearToSrgb = (value: number): number => 255 * encodeSrgb(value);
+
+// Rec. 709 relative luminance of linear RGB
+export const linearLuminance = (r: number, g: number, b: number): number => {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// CIE L*a*b* (D65 white) from linear sRGB, written into out as [L, a, b]
+const labF = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+const labFInverse = (t: number) => t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27);
+
+export const linearRgbToLab = (r: number, g: number, b: number, out: Float32Array | number[], offset = 0) => {
+  const x = labF((0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047);
+  const y = labF(0.2126729 * r + 0.7151522 * g + 0.0721750 * b);
+  const z = labF((0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / 1.08883);
+  out[offset] = 116 * y - 16;
+  out[offset + 1] = 500 * (x - y);
+  out[offset + 2] = 200 * (y - z);
+};
+
+// Back to linear sRGB (unclamped, out-of-gamut values are left to the caller)
+export const labToLinearRgb = (l: number, a: number, b: number, out: Float32Array | number[], offset = 0) => {
+  const fy = (l + 16) / 116;
+  const x = 0.95047 * labFInverse(fy + a / 500);
+  const y = labFInverse(fy);
+  const z = 1.08883 * labFInverse(fy - b / 200);
+  out[offset] = 3.2404542 * x - 1.5371385 * y - 0.4985314 * z;
+  out[offset + 1] = -0.9692660 * x + 1.8760108 * y + 0.0415560 * z;
+  out[offset + 2] = 0.0556434 * x - 0.2040259 * y + 1.0572252 * z;
+};
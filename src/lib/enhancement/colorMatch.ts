@@ -0,0 +1,120 @@
+import { labToLinearRgb, linearRgbToLab, srgbToLinear } from './color';
+import { createLinearImage, isLinearImage, LinearImage, PixelBuffer } from './linear';
+
+// Colour transfer from a reference photo (Reinhard et al., 2001) done in CIE
+// Lab: each channel is shifted and scaled to the reference's mean and standard
+// deviation, or with histogram matching remapped to its full distribution.
+// The image is the linear working buffer and comes back as one, unclamped;
+// the reference is whatever was decoded for it.
+
+export type ColorMatchOptions = {
+  // Match each channel's whole distribution instead of just mean and deviation
+  histogram: boolean;
+};
+
+// Measuring the reference doesn't need every pixel of a large photo
+const MAX_REFERENCE_SAMPLES = 1_000_000;
+const HISTOGRAM_BINS = 1024;
+// Value ranges of L, a and b for histogram binning
+const CHANNEL_RANGES: [number, number][] = [[0, 100], [-128, 128], [-128, 128]];
+
+const toLab = (image: PixelBuffer, step = 1): Float32Array => {
+  const { data } = image;
+  const linear = isLinearImage(image) ? (value: number) => value : srgbToLinear;
+  const pixelCount = Math.ceil(data.length / 4 / step);
+  const lab = new Float32Array(pixelCount * 3);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const i = pixel * step * 4;
+    linearRgbToLab(linear(data[i]), linear(data[i + 1]), linear(data[i + 2]), lab, pixel * 3);
+  }
+  return lab;
+};
+
+const channelStatistics = (lab: Float32Array, channel: number) => {
+  const count = lab.length / 3;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let i = channel; i < lab.length; i += 3) {
+    sum += lab[i];
+    sumOfSquares += lab[i] * lab[i];
+  }
+  const mean = sum / count;
+  return { mean, std: Math.sqrt(Math.max(0, sumOfSquares / count - mean * mean)) };
+};
+
+const binOf = (value: number, [min, max]: [number, number]) => {
+  return Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor((value - min) / (max - min) * HISTOGRAM_BINS)));
+};
+
+// Normalized cumulative histogram of one channel
+const channelCdf = (lab: Float32Array, channel: number): Float64Array => {
+  const range = CHANNEL_RANGES[channel];
+  const cdf = new Float64Array(HISTOGRAM_BINS);
+  for (let i = channel; i < lab.length; i += 3) cdf[binOf(lab[i], range)]++;
+
+  const count = lab.length / 3;
+  let running = 0;
+  for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+    running += cdf[bin];
+    cdf[bin] = running / count;
+  }
+  return cdf;
+};
+
+// For every source bin, the reference value at the same quantile
+const histogramMapping = (source: Float64Array, reference: Float64Array, [min, max]: [number, number]): Float32Array => {
+  const binWidth = (max - min) / HISTOGRAM_BINS;
+  const mapping = new Float32Array(HISTOGRAM_BINS);
+  let referenceBin = 0;
+
+  for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+    const quantile = source[bin];
+    while (referenceBin < HISTOGRAM_BINS - 1 && reference[referenceBin] < quantile) referenceBin++;
+
+    // Interpolate inside the reference bin so the mapping has no steps
+    const below = referenceBin > 0 ? reference[referenceBin - 1] : 0;
+    const span = reference[referenceBin] - below;
+    const fraction = span > 0 ? Math.min(1, Math.max(0, (quantile - below) / span)) : 0.5;
+    mapping[bin] = min + (referenceBin + fraction) * binWidth;
+  }
+  return mapping;
+};
+
+export const matchColors = (
+  image: LinearImage,
+  reference: PixelBuffer,
+  { histogram }: ColorMatchOptions
+): LinearImage => {
+  const { data, width, height } = image;
+  const lab = toLab(image);
+  const referenceStep = Math.max(1, Math.ceil(reference.width * reference.height / MAX_REFERENCE_SAMPLES));
+  const referenceLab = toLab(reference, referenceStep);
+
+  for (let channel = 0; channel < 3; channel++) {
+    if (histogram) {
+      const range = CHANNEL_RANGES[channel];
+      const mapping = histogramMapping(channelCdf(lab, channel), channelCdf(referenceLab, channel), range);
+      for (let i = channel; i < lab.length; i += 3) lab[i] = mapping[binOf(lab[i], range)];
+    } else {
+      const source = channelStatistics(lab, channel);
+      const target = channelStatistics(referenceLab, channel);
+      const scale = source.std > 1e-6 ? target.std / source.std : 1;
+      for (let i = channel; i < lab.length; i += 3) {
+        lab[i] = (lab[i] - source.mean) * scale + target.mean;
+      }
+    }
+  }
+
+  const output = createLinearImage(width, height);
+  const rgb = new Float32Array(3);
+  for (let pixel = 0; pixel < lab.length / 3; pixel++) {
+    labToLinearRgb(lab[pixel * 3], lab[pixel * 3 + 1], lab[pixel * 3 + 2], rgb);
+    const i = pixel * 4;
+    output.data[i] = rgb[0];
+    output.data[i + 1] = rgb[1];
+    output.data[i + 2] = rgb[2];
+    output.data[i + 3] = data[i + 3];
+  }
+
+  return output;
+};
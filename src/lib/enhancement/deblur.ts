@@ -0,0 +1,324 @@
+import { gaussianKernel1d } from './blur';
+
+// Blur kernel estimation and Richardson–Lucy deconvolution. Everything works
+// on a single Float32 channel (luminance) with clamp-to-edge borders.
+
+export type MotionBlur = {
+  // Direction of the smear in degrees, 0 = horizontal, measured clockwise in image coordinates
+  angle: number;
+  // Length of the smear in pixels
+  length: number;
+};
+
+export type BlurEstimate = {
+  // Isotropic Gaussian blur radius in pixels; ~0 for a sharp image
+  sigma: number;
+  // Set when blur is clearly stronger along one direction (camera shake)
+  motion: MotionBlur | null;
+};
+
+// A point spread function as a sequence of convolution passes, so a Gaussian
+// can stay separable while a motion streak is a single 2D pass
+type KernelTap = { dx: number; dy: number; weight: number };
+export type PointSpreadFunction = KernelTap[][];
+
+// Largest blur we try to estimate or undo; beyond this deconvolution only rings
+const MAX_SIGMA = 6;
+const MAX_MOTION_LENGTH = 31;
+// Sigma of the re-blur used for estimation
+const REBLUR_SIGMA = 2;
+const ORIENTATION_BINS = 12;
+const MIN_SAMPLES_PER_BIN = 20;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const gaussianPsf = (sigma: number): PointSpreadFunction => {
+  const kernel = gaussianKernel1d(sigma);
+  const radius = (kernel.length - 1) / 2;
+  return [
+    kernel.map((weight, index) => ({ dx: index - radius, dy: 0, weight })),
+    kernel.map((weight, index) => ({ dx: 0, dy: index - radius, weight })),
+  ];
+};
+
+// Rasterize a line of the given length, splatting sub-pixel samples bilinearly
+const motionPsf = ({ angle, length }: MotionBlur): PointSpreadFunction => {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const weights = new Map<string, KernelTap>();
+  const samples = Math.max(2, Math.ceil(length * 2));
+
+  const splat = (dx: number, dy: number, weight: number) => {
+    if (weight <= 0) return;
+    const key = `${dx},${dy}`;
+    const tap = weights.get(key);
+    if (tap) tap.weight += weight;
+    else weights.set(key, { dx, dy, weight });
+  };
+
+  for (let sample = 0; sample < samples; sample++) {
+    const t = (sample / (samples - 1) - 0.5) * (length - 1);
+    const x = t * cos;
+    const y = t * sin;
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+    splat(x0, y0, (1 - fx) * (1 - fy));
+    splat(x0 + 1, y0, fx * (1 - fy));
+    splat(x0, y0 + 1, (1 - fx) * fy);
+    splat(x0 + 1, y0 + 1, fx * fy);
+  }
+
+  const taps = Array.from(weights.values());
+  const total = taps.reduce((sum, tap) => sum + tap.weight, 0);
+  return [taps.map(tap => ({ ...tap, weight: tap.weight / total }))];
+};
+
+// Pick the kernel to deconvolve with, or null when there is nothing to undo
+export const createPointSpreadFunction = (
+  estimate: BlurEstimate,
+  allowMotion: boolean
+): PointSpreadFunction | null => {
+  if (allowMotion && estimate.motion && estimate.motion.length >= 2) {
+    return motionPsf({ ...estimate.motion, length: Math.min(estimate.motion.length, MAX_MOTION_LENGTH) });
+  }
+  if (estimate.sigma < 0.4) return null;
+  return gaussianPsf(Math.min(estimate.sigma, MAX_SIGMA));
+};
+
+// The adjoint flips every pass and applies them in reverse
+const adjointPsf = (psf: PointSpreadFunction): PointSpreadFunction => {
+  return psf
+    .map(pass => pass.map(tap => ({ dx: -tap.dx, dy: -tap.dy, weight: tap.weight })))
+    .reverse();
+};
+
+export const convolve = (
+  input: Float32Array,
+  width: number,
+  height: number,
+  psf: PointSpreadFunction
+): Float32Array => {
+  let current = input;
+
+  for (const pass of psf) {
+    const output = new Float32Array(current.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (const { dx, dy, weight } of pass) {
+          const sx = clamp(x + dx, 0, width - 1);
+          const sy = clamp(y + dy, 0, height - 1);
+          sum += current[sy * width + sx] * weight;
+        }
+        output[y * width + x] = sum;
+      }
+    }
+    current = output;
+  }
+
+  return current;
+};
+
+// Central-difference gradients with clamped borders
+const gradients = (values: Float32Array, width: number, height: number) => {
+  const gx = new Float32Array(values.length);
+  const gy = new Float32Array(values.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const left = values[y * width + Math.max(0, x - 1)];
+      const right = values[y * width + Math.min(width - 1, x + 1)];
+      const up = values[Math.max(0, y - 1) * width + x];
+      const down = values[Math.min(height - 1, y + 1) * width + x];
+      gx[idx] = (right - left) / 2;
+      gy[idx] = (down - up) / 2;
+    }
+  }
+
+  return { gx, gy };
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Re-blur estimation (Zhuo & Sim): blurring an edge of unknown sigma with a
+// known sigma0 lowers its gradient peak by R = sqrt(sigma² + sigma0²) / sigma.
+// Measuring R per edge and per edge orientation gives both the blur radius and
+// whether the blur has a dominant direction.
+export const estimateBlur = (luminance: Float32Array, width: number, height: number): BlurEstimate => {
+  if (width < 8 || height < 8) return { sigma: 0, motion: null };
+
+  const reblurred = convolve(luminance, width, height, gaussianPsf(REBLUR_SIGMA));
+  const original = gradients(luminance, width, height);
+  const blurred = gradients(reblurred, width, height);
+
+  const magnitude = new Float32Array(luminance.length);
+  for (let i = 0; i < magnitude.length; i++) {
+    magnitude[i] = Math.hypot(original.gx[i], original.gy[i]);
+  }
+
+  // Only measure clear edges: the top 10% of gradients and at least a few grey levels per pixel
+  const sampled = Array.from(magnitude.filter((_, i) => i % 7 === 0));
+  sampled.sort((a, b) => a - b);
+  const threshold = Math.max(2, sampled[Math.floor(sampled.length * 0.9)] ?? 0);
+
+  const sigmasByBin: number[][] = Array.from({ length: ORIENTATION_BINS }, () => []);
+  const allSigmas: number[] = [];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const strength = magnitude[idx];
+      if (strength < threshold) continue;
+
+      // Non-maximum suppression so we sample each edge at its centre
+      const nx = Math.round(original.gx[idx] / strength);
+      const ny = Math.round(original.gy[idx] / strength);
+      const ahead = magnitude[(y + ny) * width + x + nx];
+      const behind = magnitude[(y - ny) * width + x - nx];
+      if (strength < ahead || strength < behind) continue;
+
+      const ratio = strength / Math.max(Math.hypot(blurred.gx[idx], blurred.gy[idx]), 1e-6);
+      if (ratio <= 1.01) continue;
+
+      const sigma = Math.min(MAX_SIGMA * 2, REBLUR_SIGMA / Math.sqrt(ratio * ratio - 1));
+      let orientation = Math.atan2(original.gy[idx], original.gx[idx]);
+      if (orientation < 0) orientation += Math.PI;
+      const bin = Math.min(ORIENTATION_BINS - 1, Math.floor((orientation / Math.PI) * ORIENTATION_BINS));
+
+      sigmasByBin[bin].push(sigma);
+      allSigmas.push(sigma);
+    }
+  }
+
+  const sigma = median(allSigmas);
+  return { sigma: Math.min(sigma, MAX_SIGMA), motion: fitMotion(sigmasByBin) };
+};
+
+// Motion blur of length L along angle phi adds (L²/12)·cos²(theta - phi) to the
+// variance seen by edges with normal theta, so fit
+// sigma²(theta) = c0 + c1·cos 2theta + c2·sin 2theta over the orientation bins
+const fitMotion = (sigmasByBin: number[][]): MotionBlur | null => {
+  const rows: { theta: number; variance: number }[] = [];
+  sigmasByBin.forEach((values, bin) => {
+    if (values.length < MIN_SAMPLES_PER_BIN) return;
+    const binSigma = median(values);
+    rows.push({ theta: ((bin + 0.5) / ORIENTATION_BINS) * Math.PI, variance: binSigma * binSigma });
+  });
+  if (rows.length < 3) return null;
+
+  // Normal equations for the three coefficients
+  const ata = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const atb = [0, 0, 0];
+  for (const { theta, variance } of rows) {
+    const basis = [1, Math.cos(2 * theta), Math.sin(2 * theta)];
+    for (let r = 0; r < 3; r++) {
+      atb[r] += basis[r] * variance;
+      for (let c = 0; c < 3; c++) ata[r][c] += basis[r] * basis[c];
+    }
+  }
+  const coefficients = solve3x3(ata, atb);
+  if (!coefficients) return null;
+
+  const [c0, c1, c2] = coefficients;
+  const amplitude = Math.hypot(c1, c2);
+  const along = Math.sqrt(Math.max(0, c0 + amplitude));
+  const across = Math.sqrt(Math.max(0, c0 - amplitude));
+  if (along <= across * 1.5 + 0.5) return null;
+
+  // A box of length L has variance L²/12
+  const length = Math.round(Math.sqrt(12 * (along * along - across * across)));
+  if (length < 3) return null;
+
+  let angle = (Math.atan2(c2, c1) / 2) * (180 / Math.PI);
+  if (angle < 0) angle += 180;
+  return { angle: Math.round(angle), length: Math.min(length, MAX_MOTION_LENGTH) };
+};
+
+const solve3x3 = (a: number[][], b: number[]): number[] | null => {
+  const det = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+  const determinant = det(a);
+  if (Math.abs(determinant) < 1e-9) return null;
+
+  // Cramer's rule
+  return [0, 1, 2].map(column =>
+    det(a.map((row, r) => row.map((value, c) => (c === column ? b[r] : value)))) / determinant
+  );
+};
+
+// Divergence of the normalised gradient, i.e. the total variation curvature
+const totalVariationCurvature = (values: Float32Array, width: number, height: number): Float32Array => {
+  const nx = new Float32Array(values.length);
+  const ny = new Float32Array(values.length);
+  const epsilon = 1e-3;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const dx = (x < width - 1 ? values[idx + 1] : values[idx]) - values[idx];
+      const dy = (y < height - 1 ? values[idx + width] : values[idx]) - values[idx];
+      const norm = Math.sqrt(dx * dx + dy * dy + epsilon);
+      nx[idx] = dx / norm;
+      ny[idx] = dy / norm;
+    }
+  }
+
+  const divergence = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const ddx = nx[idx] - (x > 0 ? nx[idx - 1] : 0);
+      const ddy = ny[idx] - (y > 0 ? ny[idx - width] : 0);
+      divergence[idx] = ddx + ddy;
+    }
+  }
+
+  return divergence;
+};
+
+// Richardson–Lucy with total variation regularisation (Dey et al.), which
+// keeps the ringing and noise amplification of plain RL in check
+export const richardsonLucy = (
+  observed: Float32Array,
+  width: number,
+  height: number,
+  psf: PointSpreadFunction,
+  iterations: number,
+  regularization: number
+): Float32Array => {
+  const adjoint = adjointPsf(psf);
+  // RL needs strictly positive data
+  const offset = 1;
+  const target = observed.map(value => value + offset);
+  let estimate = Float32Array.from(target);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const reblurred = convolve(estimate, width, height, psf);
+    const ratio = new Float32Array(target.length);
+    for (let i = 0; i < ratio.length; i++) {
+      ratio[i] = target[i] / Math.max(reblurred[i], 1e-3);
+    }
+    const correction = convolve(ratio, width, height, adjoint);
+    const curvature = regularization > 0 ? totalVariationCurvature(estimate, width, height) : null;
+
+    const next = new Float32Array(estimate.length);
+    for (let i = 0; i < next.length; i++) {
+      const damping = curvature ? Math.max(0.5, 1 - regularization * curvature[i]) : 1;
+      next[i] = clamp((estimate[i] * correction[i]) / damping, 0, 255 * 2);
+    }
+    estimate = next;
+  }
+
+  return estimate.map(value => value - offset);
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { detectImageFormat, orientImage } from './decoders';
+import { createLinearImage } from './linear';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const bytes = (...parts: number[][]) => new Uint8Array(parts.flat());
+
+// Little-endian TIFF header and an IFD0 with one BYTE entry
+const tiff = (tag: number) => bytes(
+  ascii('II'), [42, 0], [8, 0, 0, 0],
+  [1, 0], [tag & 0xff, tag >> 8, 1, 0, 4, 0, 0, 0, 1, 4, 0, 0],
+  [0, 0, 0, 0]
+);
+
+// ftyp box with a major brand and compatible brands
+const ftyp = (major: string, ...compatible: string[]) => {
+  const size = 16 + compatible.length * 4;
+  return bytes([0, 0, 0, size], ascii('ftyp'), ascii(major), [0, 0, 0, 0], ...compatible.map(ascii));
+};
+
+describe('detectImageFormat', () => {
+  const signatures: [string, Uint8Array][] = [
+    ['jpeg', bytes([0xff, 0xd8, 0xff, 0xe0])],
+    ['png', bytes([0x89], ascii('PNG\r\n\x1a\n'))],
+    ['webp', bytes(ascii('RIFF'), [0, 0, 0, 0], ascii('WEBP'))],
+    ['gif', bytes(ascii('GIF89a'))],
+    ['bmp', bytes(ascii('BM'), [0, 0, 0, 0])],
+    // ImageDescription, then DNGVersion
+    ['tiff', tiff(0x010e)],
+    ['dng', tiff(0xc612)],
+    ['heic', ftyp('heic', 'mif1', 'heic')],
+    ['heic', ftyp('mif1', 'miaf', 'heic')],
+    ['avif', ftyp('avif', 'mif1', 'miaf')],
+    ['avif', ftyp('mif1', 'avif')],
+  ];
+
+  it.each(signatures)('recognizes %s', (format, signature) => {
+    expect(detectImageFormat(signature)).toBe(format);
+  });
+
+  it('recognizes nothing else', () => {
+    expect(detectImageFormat(bytes(ascii('%PDF-1.7')))).toBeNull();
+    expect(detectImageFormat(ftyp('isom', 'mp41'))).toBeNull();
+    expect(detectImageFormat(new Uint8Array(0))).toBeNull();
+  });
+});
+
+describe('orientImage', () => {
+  // 3x2 image whose red channel numbers its pixels:
+  //   0 1 2
+  //   3 4 5
+  const image = new ImageData(3, 2);
+  for (let pixel = 0; pixel < 6; pixel++) image.data.set([pixel, 0, 0, 255], pixel * 4);
+
+  const layout = (oriented: { data: ArrayLike<number>; width: number; height: number }) =>
+    Array.from({ length: oriented.height }, (_, y) =>
+      Array.from({ length: oriented.width }, (_, x) => oriented.data[(y * oriented.width + x) * 4]));
+
+  const expected: Record<number, number[][]> = {
+    1: [[0, 1, 2], [3, 4, 5]],
+    2: [[2, 1, 0], [5, 4, 3]],
+    3: [[5, 4, 3], [2, 1, 0]],
+    4: [[3, 4, 5], [0, 1, 2]],
+    5: [[0, 3], [1, 4], [2, 5]],
+    6: [[3, 0], [4, 1], [5, 2]],
+    7: [[5, 2], [4, 1], [3, 0]],
+    8: [[2, 5], [1, 4], [0, 3]],
+  };
+
+  for (const [orientation, rows] of Object.entries(expected)) {
+    it(`turns orientation ${orientation} upright`, () => {
+      expect(layout(orientImage(image, Number(orientation)))).toEqual(rows);
+    });
+  }
+
+  it('orients the linear working buffer the same way', () => {
+    const linear = createLinearImage(3, 2);
+    for (let pixel = 0; pixel < 6; pixel++) linear.data.set([pixel / 8, 0, 0, 1], pixel * 4);
+
+    const oriented = orientImage(linear, 6);
+    expect(oriented.data).toBeInstanceOf(Float32Array);
+    expect(layout(oriented).map(row => row.map(value => value * 8))).toEqual(expected[6]);
+  });
+});
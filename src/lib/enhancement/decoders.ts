@@ -0,0 +1,189 @@
+import type { IFD } from 'utif';
+import { developDng, PHOTOMETRIC_CFA, PHOTOMETRIC_LINEAR_RAW, tagValues } from './dng';
+import { convertFromIccProfile } from './icc';
+import { createPixelBuffer, encodeLinearImage, LinearImage, PixelBuffer } from './linear';
+import { parseExif, readImageMetadata } from './metadata';
+
+// Decoders for uploads the browser can't open itself: HEIC/HEIF (libheif,
+// WASM), TIFF and DNG camera raw (UTIF, with raw development in dng.ts).
+// Files are identified by their leading bytes, since the type and extension
+// browsers report for these are unreliable. Every decoder produces upright
+// 8-bit RGBA ImageData, the same buffer the browser's own decoding gives:
+// converted from the file's colour profile to sRGB or Display P3, and tagged
+// with that space. Camera raws are developed to the linear working buffer,
+// which the engine takes as it is; their ImageData is its 8-bit encoding.
+
+export type SourceFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'avif' | 'heic' | 'tiff' | 'dng';
+
+export type DecodedImage = {
+  imageData: ImageData;
+  // Camera raws: the developed linear sRGB pixels, before imageData's 8-bit encoding
+  linear?: LinearImage;
+  format: SourceFormat;
+  // Images in the file; the first full-size one is decoded
+  pageCount: number;
+};
+
+// For file inputs: browsers don't list these under image/* everywhere
+export const IMAGE_FILE_ACCEPT = 'image/*,.heic,.heif,.tif,.tiff,.dng';
+
+const DECODER_EXTENSIONS = /\.(heic|heif|tiff?|dng)$/i;
+
+// Bytes needed to tell whether a file needs one of these decoders
+export const FORMAT_SIGNATURE_LENGTH = 64;
+
+const HEIF_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs', 'mif1', 'msf1']);
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DNG_VERSION = 0xc612;
+const TAG_NEW_SUBFILE_TYPE = 254;
+const TAG_ICC_PROFILE = 0x8773;
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, Math.min(end, bytes.length)));
+
+// Identify an image by its signature. A prefix of FORMAT_SIGNATURE_LENGTH is
+// enough to route it; telling DNG from TIFF needs the first IFD as well.
+export const detectImageFormat = (bytes: Uint8Array): SourceFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+
+  const byteOrder = ascii(bytes, 0, 4);
+  if (byteOrder === 'II*\0' || byteOrder === 'MM\0*') {
+    const isDng = parseExif(bytes)?.ifd0.some(entry => entry.tag === TAG_DNG_VERSION) ?? false;
+    return isDng ? 'dng' : 'tiff';
+  }
+
+  // ISO base media file: an ftyp box with the major brand, then compatible brands
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const boxSize = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+    const brands = [ascii(bytes, 8, 12)];
+    for (let offset = 16; offset + 4 <= Math.min(boxSize, bytes.length); offset += 4) {
+      brands.push(ascii(bytes, offset, offset + 4));
+    }
+    if (brands.some(brand => AVIF_BRANDS.has(brand))) return 'avif';
+    if (brands.some(brand => HEIF_BRANDS.has(brand))) return 'heic';
+  }
+  return null;
+};
+
+export const needsDecoder = (format: SourceFormat | null): boolean =>
+  format === 'heic' || format === 'tiff' || format === 'dng';
+
+export const isSupportedImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || DECODER_EXTENSIONS.test(file.name);
+
+// Turn pixels stored in EXIF orientation 2-8 upright
+export const orientImage = <T extends PixelBuffer>(image: T, orientation: number): T => {
+  if (orientation < 2 || orientation > 8) return image;
+
+  const { data, width, height } = image;
+  const transposed = orientation >= 5;
+  const outWidth = transposed ? height : width;
+  const outHeight = transposed ? width : height;
+  const oriented = createPixelBuffer(image, outWidth, outHeight);
+  const output = oriented.data;
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      let sx = x;
+      let sy = y;
+      switch (orientation) {
+        case 2: sx = width - 1 - x; break;
+        case 3: sx = width - 1 - x; sy = height - 1 - y; break;
+        case 4: sy = height - 1 - y; break;
+        case 5: sx = y; sy = x; break;
+        case 6: sx = y; sy = height - 1 - x; break;
+        case 7: sx = width - 1 - y; sy = height - 1 - x; break;
+        case 8: sx = width - 1 - y; sy = x; break;
+      }
+      const source = (sy * width + sx) * 4;
+      const target = (y * outWidth + x) * 4;
+      output[target] = data[source];
+      output[target + 1] = data[source + 1];
+      output[target + 2] = data[source + 2];
+      output[target + 3] = data[source + 3];
+    }
+  }
+  return oriented;
+};
+
+const decodeHeic = async (bytes: Uint8Array): Promise<Omit<DecodedImage, 'format'>> => {
+  const { default: createLibheif } = await import('libheif-js/libheif-wasm/libheif-bundle.mjs');
+  const images = new (createLibheif().HeifDecoder)().decode(bytes);
+  if (images.length === 0) throw new Error('Could not read this HEIC/HEIF file');
+
+  try {
+    // libheif applies the file's rotation and mirroring while decoding
+    const image = images.find(candidate => candidate.is_primary()) ?? images[0];
+    const width = image.get_width();
+    const height = image.get_height();
+    const imageData = await new Promise<ImageData>((resolve, reject) => {
+      image.display({ data: new Uint8ClampedArray(width * height * 4), width, height }, result => {
+        if (result) resolve(new ImageData(result.data, width, height));
+        else reject(new Error('Could not decode this HEIC/HEIF image'));
+      });
+    });
+
+    // The profile is a property of the image in the container (ICC, or nclx
+    // code points for most phone cameras); libheif leaves it to the caller
+    const { icc } = await readImageMetadata(bytes);
+    return { imageData: icc ? convertFromIccProfile(imageData, icc.data) : imageData, pageCount: images.length };
+  } finally {
+    images.forEach(image => image.free());
+  }
+};
+
+// TIFF pages and DNG raws, with the sub-IFDs DNG keeps its raw image in
+const decodeTiff = async (bytes: Uint8Array, format: 'tiff' | 'dng'): Promise<Omit<DecodedImage, 'format'>> => {
+  const UTIF = await import('utif');
+  const buffer = bytes.slice().buffer;
+  const ifds = UTIF.decode(buffer);
+  if (ifds.length === 0) throw new Error('Could not read this TIFF file');
+
+  const withSubIfds = ifds.flatMap(ifd => [ifd, ...((ifd as { subIFD?: IFD[] }).subIFD ?? [])]);
+  // Bit 0 of NewSubfileType marks reduced-resolution copies (thumbnails, previews)
+  const pages = withSubIfds.filter(ifd => ifd.t256 !== undefined && !((tagValues(ifd, TAG_NEW_SUBFILE_TYPE)[0] ?? 0) & 1));
+  const isRaw = (ifd: IFD) =>
+    [PHOTOMETRIC_CFA, PHOTOMETRIC_LINEAR_RAW].includes(tagValues(ifd, 262)[0]);
+  const page = (format === 'dng' ? pages.find(isRaw) : pages.find(ifd => !isRaw(ifd))) ?? pages[0];
+  if (!page) throw new Error('This TIFF file has no image to decode');
+
+  UTIF.decodeImage(buffer, page);
+  // Orientation is recorded in IFD0 and, for TIFF pages, on the page itself
+  const orientation = tagValues(page, TAG_ORIENTATION)[0] ?? tagValues(ifds[0], TAG_ORIENTATION)[0] ?? 1;
+
+  if (isRaw(page)) {
+    const linear = orientImage(developDng(page, ifds[0], bytes[0] === 0x49), orientation);
+    return { imageData: encodeLinearImage(linear), linear, pageCount: 1 };
+  }
+
+  // Likewise the profile
+  const imageData = orientImage(
+    new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(page).buffer), page.width, page.height),
+    orientation
+  );
+  const pageProfile = tagValues(page, TAG_ICC_PROFILE);
+  const profile = pageProfile.length ? pageProfile : tagValues(ifds[0], TAG_ICC_PROFILE);
+  return {
+    imageData: profile.length ? convertFromIccProfile(imageData, new Uint8Array(profile)) : imageData,
+    pageCount: format === 'dng' ? 1 : pages.length,
+  };
+};
+
+export const decodeSourceImage = async (bytes: Uint8Array): Promise<DecodedImage> => {
+  const format = detectImageFormat(bytes);
+  switch (format) {
+    case 'heic':
+      return { format, ...(await decodeHeic(bytes)) };
+    case 'tiff':
+    case 'dng':
+      return { format, ...(await decodeTiff(bytes, format)) };
+    default:
+      throw new Error(format ? `${format.toUpperCase()} images are decoded by the browser` : 'Unrecognized image format');
+  }
+};
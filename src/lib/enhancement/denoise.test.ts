@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { bilateralDenoise, DenoiseOptions } from './denoise';
+import { encodeLinearImage, linearFromImageData } from './linear';
+
+type Fixture = (x: number, y: number) => [number, number, number];
+
+const WIDTH = 64;
+const HEIGHT = 48;
+const NOISE_LEVEL = 12;
+
+// Seeded so every run sees the same noise (mulberry32)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const renderFixture = (fixture: Fixture): ImageData => {
+  const image = new ImageData(WIDTH, HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      image.data.set([...fixture(x, y), 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return image;
+};
+
+// Independent Gaussian noise per channel (Box-Muller)
+const addNoise = (image: ImageData, sigma: number, seed: number): ImageData => {
+  const random = createRandom(seed);
+  const noisy = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  for (let i = 0; i < noisy.data.length; i++) {
+    if (i % 4 === 3) continue;
+    const gaussian = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    noisy.data[i] = image.data[i] + sigma * gaussian;
+  }
+  return noisy;
+};
+
+const psnr = (reference: ImageData, test: ImageData): number => {
+  let squaredError = 0;
+  let samples = 0;
+  for (let i = 0; i < reference.data.length; i++) {
+    if (i % 4 === 3) continue;
+    const diff = reference.data[i] - test.data[i];
+    squaredError += diff * diff;
+    samples++;
+  }
+  return 10 * Math.log10((255 * 255) / (squaredError / samples));
+};
+
+const fixtures: Record<string, Fixture> = {
+  flat: () => [128, 110, 96],
+  gradient: x => [40 + 2.5 * x, 60 + 1.5 * x, 200 - 2 * x],
+  // A hard edge between two colours, where a plain blur would lose most
+  edge: x => (x < WIDTH / 2 ? [50, 70, 160] : [210, 180, 60]),
+  checker: (x, y) => ((Math.floor(x / 8) + Math.floor(y / 8)) % 2 === 0 ? [30, 30, 30] : [220, 220, 220]),
+};
+
+// The filter runs on the working buffer; fixtures and PSNR are 8-bit
+const denoise = (image: ImageData, options: DenoiseOptions): ImageData =>
+  encodeLinearImage(bilateralDenoise(linearFromImageData(image), options));
+
+describe('bilateralDenoise', () => {
+  for (const [name, fixture] of Object.entries(fixtures)) {
+    it(`raises PSNR on a noisy ${name} image`, () => {
+      const clean = renderFixture(fixture);
+      const noisy = addNoise(clean, NOISE_LEVEL, 1);
+      const denoised = denoise(noisy, { noiseLevel: NOISE_LEVEL, strength: 1 });
+
+      expect(psnr(clean, denoised) - psnr(clean, noisy)).toBeGreaterThan(8);
+    });
+  }
+
+  it('keeps edges: the two halves of the edge fixture stay apart', () => {
+    const clean = renderFixture(fixtures.edge);
+    const denoised = denoise(addNoise(clean, NOISE_LEVEL, 2), { noiseLevel: NOISE_LEVEL, strength: 1 });
+
+    // Pixels right next to the edge keep the colour of their own side
+    for (let y = 4; y < HEIGHT - 4; y++) {
+      const left = (y * WIDTH + WIDTH / 2 - 1) * 4;
+      const right = left + 4;
+      expect(Math.abs(denoised.data[left] - 50)).toBeLessThan(25);
+      expect(Math.abs(denoised.data[right] - 210)).toBeLessThan(25);
+    }
+  });
+
+  it('passes clean images straight through', () => {
+    const clean = linearFromImageData(renderFixture(fixtures.gradient));
+    expect(bilateralDenoise(clean, { noiseLevel: 0.2, strength: 1 })).toBe(clean);
+    expect(bilateralDenoise(clean, { noiseLevel: NOISE_LEVEL, strength: 0 })).toBe(clean);
+  });
+
+  it('keeps highlights above white instead of clipping them', () => {
+    // The noisy flat fixture three stops brighter, past white in linear light
+    const bright = linearFromImageData(addNoise(renderFixture(fixtures.flat), NOISE_LEVEL, 3));
+    bright.data.forEach((value, i) => {
+      if (i % 4 !== 3) bright.data[i] = value * 8;
+    });
+
+    const { data } = bilateralDenoise(bright, { noiseLevel: NOISE_LEVEL, strength: 1 });
+    const reds = data.filter((_, i) => i % 4 === 0);
+    const mean = reds.reduce((sum, value) => sum + value, 0) / reds.length;
+    expect(mean).toBeGreaterThan(1.5);
+    expect(Math.max(...reds)).toBeGreaterThan(mean);
+  });
+});
@@ -0,0 +1,111 @@
+// Edge-preserving noise reduction. Pixels are split into luminance and chroma
+// (YCbCr) so colour blotches can be smoothed harder than fine luminance detail.
+// It runs on the working buffer at the perceptual scale the noise levels are
+// measured in, so highlights above white are filtered rather than clipped.
+
+import { createLinearImage, fromPerceptual, LinearImage, toPerceptual } from './linear';
+
+export type DenoiseOptions = {
+  // Standard deviation of the noise in 0-255 units, e.g. from estimateNoise
+  noiseLevel: number;
+  // Scales the filter's range tolerance; 1 is tuned for the estimated noise
+  strength: number;
+};
+
+const SPATIAL_SIGMA = 1.5;
+const RADIUS = 3;
+// Range tolerances as multiples of the noise level. Chroma noise is usually
+// coarser and less visible as detail, so it gets a wider tolerance
+const LUMA_RANGE = 2;
+const CHROMA_RANGE = 3.5;
+// Below this the image is effectively clean and filtering only softens it
+const MIN_NOISE_LEVEL = 0.5;
+
+const toYCbCr = (data: Float32Array, pixelCount: number) => {
+  const y = new Float32Array(pixelCount);
+  const cb = new Float32Array(pixelCount);
+  const cr = new Float32Array(pixelCount);
+
+  for (let pixel = 0, i = 0; pixel < pixelCount; pixel++, i += 4) {
+    const r = toPerceptual(data[i]);
+    const g = toPerceptual(data[i + 1]);
+    const b = toPerceptual(data[i + 2]);
+    y[pixel] = 0.299 * r + 0.587 * g + 0.114 * b;
+    cb[pixel] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    cr[pixel] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+
+  return { y, cb, cr };
+};
+
+// Joint bilateral filter: luminance is weighted by luminance similarity only,
+// chroma by both, so colour never bleeds across a brightness edge
+export const bilateralDenoise = (image: LinearImage, { noiseLevel, strength }: DenoiseOptions): LinearImage => {
+  if (noiseLevel < MIN_NOISE_LEVEL || strength <= 0) return image;
+
+  const { data, width, height } = image;
+  const { y, cb, cr } = toYCbCr(data, width * height);
+
+  const lumaRange = LUMA_RANGE * noiseLevel * strength;
+  const chromaRange = CHROMA_RANGE * noiseLevel * strength;
+  const lumaFactor = -1 / (2 * lumaRange * lumaRange);
+  const chromaFactor = -1 / (2 * chromaRange * chromaRange);
+
+  const spatialWeights: number[] = [];
+  for (let dy = -RADIUS; dy <= RADIUS; dy++) {
+    for (let dx = -RADIUS; dx <= RADIUS; dx++) {
+      spatialWeights.push(Math.exp(-(dx * dx + dy * dy) / (2 * SPATIAL_SIGMA * SPATIAL_SIGMA)));
+    }
+  }
+
+  const output = createLinearImage(width, height);
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const center = py * width + px;
+      const centerY = y[center];
+      const centerCb = cb[center];
+      const centerCr = cr[center];
+
+      let lumaSum = 0;
+      let lumaWeight = 0;
+      let cbSum = 0;
+      let crSum = 0;
+      let chromaWeight = 0;
+      let tap = 0;
+
+      for (let dy = -RADIUS; dy <= RADIUS; dy++) {
+        const sy = Math.min(height - 1, Math.max(0, py + dy));
+        for (let dx = -RADIUS; dx <= RADIUS; dx++, tap++) {
+          const sx = Math.min(width - 1, Math.max(0, px + dx));
+          const neighbor = sy * width + sx;
+
+          const diffY = y[neighbor] - centerY;
+          const diffCb = cb[neighbor] - centerCb;
+          const diffCr = cr[neighbor] - centerCr;
+
+          const weight = spatialWeights[tap] * Math.exp(diffY * diffY * lumaFactor);
+          lumaSum += y[neighbor] * weight;
+          lumaWeight += weight;
+
+          const colorWeight = weight * Math.exp((diffCb * diffCb + diffCr * diffCr) * chromaFactor);
+          cbSum += cb[neighbor] * colorWeight;
+          crSum += cr[neighbor] * colorWeight;
+          chromaWeight += colorWeight;
+        }
+      }
+
+      const outY = lumaSum / lumaWeight;
+      const outCb = cbSum / chromaWeight;
+      const outCr = crSum / chromaWeight;
+
+      const i = center * 4;
+      output.data[i] = fromPerceptual(outY + 1.402 * outCr);
+      output.data[i + 1] = fromPerceptual(outY - 0.344136 * outCb - 0.714136 * outCr);
+      output.data[i + 2] = fromPerceptual(outY + 1.772 * outCb);
+      output.data[i + 3] = data[i + 3];
+    }
+  }
+
+  return output;
+};
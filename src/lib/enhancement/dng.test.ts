@@ -0,0 +1,149 @@
+import type { IFD } from 'utif';
+import { describe, expect, it } from 'vitest';
+import { developDng, PHOTOMETRIC_CFA, PHOTOMETRIC_LINEAR_RAW } from './dng';
+
+// 16-bit samples, little-endian as UTIF leaves them
+const pack16 = (samples: number[]) => {
+  const data = new Uint8Array(samples.length * 2);
+  const view = new DataView(data.buffer);
+  samples.forEach((sample, index) => view.setUint16(index * 2, sample, true));
+  return data;
+};
+
+// Samples of `bits` each, MSB first, every row starting on a byte
+const packBits = (rows: number[][], bits: number) => {
+  const rowBytes = Math.ceil((rows[0].length * bits) / 8);
+  const data = new Uint8Array(rowBytes * rows.length);
+  rows.forEach((row, y) => {
+    let position = y * rowBytes * 8;
+    for (const sample of row) {
+      for (let bit = bits - 1; bit >= 0; bit--, position++) {
+        if ((sample >> bit) & 1) data[position >> 3] |= 0x80 >> (position & 7);
+      }
+    }
+  });
+  return data;
+};
+
+// A linear RGB raw as UTIF decodes it, without colour tags
+const createLinearRaw = (
+  width: number,
+  height: number,
+  data: Uint8Array,
+  tags: Record<string, number[]> = {}
+): IFD => ({
+  t262: [PHOTOMETRIC_LINEAR_RAW],
+  t277: [3],
+  t258: [16],
+  ...tags,
+  width,
+  height,
+  data,
+}) as unknown as IFD;
+
+// Red of every pixel of a developed image
+const reds = ({ data }: { data: Float32Array }) => Array.from(data.filter((_, index) => index % 4 === 0));
+
+describe('developDng', () => {
+  it('develops to linear light at the sensor precision', () => {
+    // Neighbouring 14-bit values, far closer than one 8-bit step
+    const raw = createLinearRaw(3, 1, pack16([4000, 4000, 4000, 4001, 4001, 4001, 16383, 16383, 16383]), {
+      t50717: [16383],
+    });
+    const { data, width, height } = developDng(raw, {} as IFD, true);
+
+    expect([width, height]).toEqual([3, 1]);
+    expect(data).toBeInstanceOf(Float32Array);
+    expect(data[0]).toBeCloseTo(4000 / 16383, 6);
+    expect(data[4]).toBeGreaterThan(data[0]);
+    expect(data[8]).toBeCloseTo(1, 6);
+    expect(data[3]).toBe(1);
+  });
+
+  it('develops a flat grey patch of an RGGB sensor to neutral grey', () => {
+    // The camera sees grey 0.4 through its filters as red 0.5x, blue 0.8x green,
+    // which is what AsShotNeutral records
+    const neutral = [0.5, 1, 0.8];
+    const width = 6;
+    const height = 4;
+    const samples = Array.from({ length: width * height }, (_, index) => {
+      const x = index % width;
+      const y = Math.floor(index / width);
+      const color = y % 2 === 0 ? (x % 2 === 0 ? 0 : 1) : (x % 2 === 0 ? 1 : 2);
+      return Math.round(0.4 * neutral[color] * 4095);
+    });
+    const raw = {
+      t262: [PHOTOMETRIC_CFA],
+      t258: [16],
+      t33421: [2, 2],
+      t33422: [0, 1, 1, 2],
+      t50717: [4095],
+      t50728: neutral,
+      // A camera matrix, to check it keeps white white
+      t50721: [0.7, -0.1, -0.05, -0.4, 1.2, 0.2, -0.05, 0.15, 0.6],
+      width,
+      height,
+      data: pack16(samples),
+    } as unknown as IFD;
+
+    const { data } = developDng(raw, {} as IFD, true);
+    for (let i = 0; i < data.length; i += 4) {
+      expect(data[i]).toBeCloseTo(0.4, 2);
+      expect(data[i + 1]).toBeCloseTo(0.4, 2);
+      expect(data[i + 2]).toBeCloseTo(0.4, 2);
+    }
+  });
+
+  for (const bits of [10, 12, 14]) {
+    it(`unpacks ${bits}-bit samples, with rows padded to a byte`, () => {
+      const white = (1 << bits) - 1;
+      // Three pixels a row, so 10 and 14 bits leave a partial byte at the end
+      const rows = [
+        [1, 2, 3, white, white, white, 0, 0, 0],
+        [white >> 1, 5, 6, 7, 8, 9, white - 1, 0, white],
+      ];
+      const raw = createLinearRaw(3, 2, packBits(rows, bits), { t258: [bits], t50717: [white] });
+      const developed = developDng(raw, {} as IFD, false);
+
+      expect(reds(developed).map(value => Math.round(value * white))).toEqual([1, white, 0, white >> 1, 7, white - 1]);
+    });
+  }
+
+  it('crops to the active area', () => {
+    // A 5x4 sensor whose outer pixels are masked at full scale
+    const width = 5;
+    const height = 4;
+    const samples = Array.from({ length: width * height }, (_, pixel) => {
+      const x = pixel % width;
+      const y = Math.floor(pixel / width);
+      const value = x >= 1 && x < 4 && y >= 1 && y < 3 ? 100 * (y * width + x) : 65535;
+      return [value, value, value];
+    }).flat();
+    // Top, left, bottom, right
+    const raw = createLinearRaw(width, height, pack16(samples), { t50717: [65535], t50829: [1, 1, 3, 4] });
+    const developed = developDng(raw, {} as IFD, true);
+
+    expect([developed.width, developed.height]).toEqual([3, 2]);
+    expect(reds(developed).map(value => Math.round(value * 65535))).toEqual([600, 700, 800, 1100, 1200, 1300]);
+  });
+
+  it('subtracts a black level that repeats over a 2x2 pattern', () => {
+    // One black level per pattern cell and channel
+    const blacks = [100, 200, 300, 400];
+    const width = 4;
+    const height = 2;
+    const samples = Array.from({ length: width * height }, (_, pixel) => {
+      const cell = (Math.floor(pixel / width) % 2) * 2 + (pixel % width) % 2;
+      return [blacks[cell] + 1000, blacks[cell] + 1000, blacks[cell] + 1000];
+    }).flat();
+    const raw = createLinearRaw(width, height, pack16(samples), {
+      t50713: [2, 2],
+      t50714: blacks.flatMap(black => [black, black, black]),
+      t50717: [4095],
+    });
+    const developed = developDng(raw, {} as IFD, true);
+
+    const expected = [0, 1, 0, 1, 2, 3, 2, 3].map(cell => 1000 / (4095 - blacks[cell]));
+    reds(developed).forEach((value, index) => expect(value).toBeCloseTo(expected[index], 6));
+  });
+});
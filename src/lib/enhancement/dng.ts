@@ -0,0 +1,217 @@
+import type { IFD } from 'utif';
+import { createLinearImage, LinearImage } from './linear';
+
+// Basic development of DNG camera raw data: linearization, black and white
+// levels, bilinear demosaicing of the colour filter array, white balance from
+// the camera's as-shot neutral, and the DNG colour matrix to linear sRGB.
+// The result is the engine's working buffer, so the sensor's precision isn't
+// quantized to 8 bits before the pipeline sees it. There's no highlight
+// recovery, noise reduction or lens correction; the pipeline takes it from there.
+
+const TAG = {
+  photometric: 262,
+  samplesPerPixel: 277,
+  bitsPerSample: 258,
+  cfaRepeatPatternDim: 33421,
+  cfaPattern: 33422,
+  linearizationTable: 50712,
+  blackLevelRepeatDim: 50713,
+  blackLevel: 50714,
+  whiteLevel: 50717,
+  colorMatrix1: 50721,
+  asShotNeutral: 50728,
+  baselineExposure: 50730,
+  activeArea: 50829,
+} as const;
+
+export const PHOTOMETRIC_CFA = 32803;
+export const PHOTOMETRIC_LINEAR_RAW = 34892;
+
+// CIE XYZ (D65) of linear sRGB primaries
+const SRGB_TO_XYZ = [
+  0.4124564, 0.3575761, 0.1804375,
+  0.2126729, 0.7151522, 0.072175,
+  0.0193339, 0.119192, 0.9503041,
+];
+
+// Numeric values of a tag, whatever TIFF type UTIF read it as
+export const tagValues = (ifd: IFD, tag: number): number[] => {
+  const value: unknown = ifd[`t${tag}`];
+  if (value === undefined) return [];
+  if (typeof value === 'number') return [value];
+  return Array.from(value as ArrayLike<number>, Number);
+};
+
+// Raw samples as stored: 8 or 16 bits, or packed MSB first with rows starting on a byte
+const readSamples = (raw: IFD, channels: number, bits: number, littleEndian: boolean): Uint16Array => {
+  const { data, width, height } = raw;
+  const samples = new Uint16Array(width * height * channels);
+  const rowLength = width * channels;
+
+  if (bits === 8) {
+    samples.set(data.subarray(0, samples.length));
+  } else if (bits === 16) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const count = Math.min(samples.length, data.byteLength >> 1);
+    for (let i = 0; i < count; i++) samples[i] = view.getUint16(i * 2, littleEndian);
+  } else {
+    const rowBits = Math.ceil((rowLength * bits) / 8) * 8;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < rowLength; x++) {
+        let value = 0;
+        let position = y * rowBits + x * bits;
+        for (let bit = 0; bit < bits; bit++, position++) {
+          value = (value << 1) | ((data[position >> 3] >> (7 - (position & 7))) & 1);
+        }
+        samples[y * rowLength + x] = value;
+      }
+    }
+  }
+  return samples;
+};
+
+const invert3x3 = (m: number[]): number[] | null => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-9) return null;
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+};
+
+const multiply3x3 = (a: number[], b: number[]): number[] =>
+  Array.from({ length: 9 }, (_, index) => {
+    const row = Math.floor(index / 3);
+    const column = index % 3;
+    return a[row * 3] * b[column] + a[row * 3 + 1] * b[3 + column] + a[row * 3 + 2] * b[6 + column];
+  });
+
+// White-balanced camera RGB to linear sRGB. Rows of camera-from-sRGB are
+// normalized so white stays white, as in dcraw; the identity when the file has
+// no usable matrix.
+const cameraToSrgb = (raw: IFD, ifd0: IFD): number[] => {
+  const colorMatrix = tagValues(raw, TAG.colorMatrix1).length === 9
+    ? tagValues(raw, TAG.colorMatrix1)
+    : tagValues(ifd0, TAG.colorMatrix1);
+  if (colorMatrix.length !== 9) return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+  const cameraFromSrgb = multiply3x3(colorMatrix, SRGB_TO_XYZ);
+  for (let row = 0; row < 3; row++) {
+    const sum = cameraFromSrgb[row * 3] + cameraFromSrgb[row * 3 + 1] + cameraFromSrgb[row * 3 + 2];
+    if (sum <= 0) return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+    for (let column = 0; column < 3; column++) cameraFromSrgb[row * 3 + column] /= sum;
+  }
+  return invert3x3(cameraFromSrgb) ?? [1, 0, 0, 0, 1, 0, 0, 0, 1];
+};
+
+// Develop the decoded raw image (UTIF's data for the full-size raw IFD). DNG
+// colour tags may sit in the raw IFD or in IFD0, so both are passed.
+export const developDng = (raw: IFD, ifd0: IFD, littleEndian: boolean): LinearImage => {
+  const photometric = tagValues(raw, TAG.photometric)[0];
+  const channels = photometric === PHOTOMETRIC_LINEAR_RAW ? tagValues(raw, TAG.samplesPerPixel)[0] ?? 3 : 1;
+  if (photometric !== PHOTOMETRIC_CFA && !(photometric === PHOTOMETRIC_LINEAR_RAW && channels === 3)) {
+    throw new Error('Only Bayer and linear RGB DNG files are supported');
+  }
+
+  const bits = tagValues(raw, TAG.bitsPerSample)[0] ?? 16;
+  const samples = readSamples(raw, channels, bits, littleEndian);
+  const linearization = tagValues(raw, TAG.linearizationTable);
+
+  // Black level may repeat per cell of a small pattern; white level per channel
+  const [blackRows, blackColumns] = tagValues(raw, TAG.blackLevelRepeatDim).length === 2
+    ? tagValues(raw, TAG.blackLevelRepeatDim)
+    : [1, 1];
+  const blackLevels = tagValues(raw, TAG.blackLevel);
+  const whiteLevels = tagValues(raw, TAG.whiteLevel);
+
+  // Pixels outside the active area are masked or border pixels
+  const [top, left, bottom, right] = tagValues(raw, TAG.activeArea).length === 4
+    ? tagValues(raw, TAG.activeArea)
+    : [0, 0, raw.height, raw.width];
+  const width = right - left;
+  const height = bottom - top;
+
+  // Linear sensor values in [0, 1], cropped to the active area
+  const baseline = Math.pow(2, tagValues(raw, TAG.baselineExposure)[0] ?? tagValues(ifd0, TAG.baselineExposure)[0] ?? 0);
+  const plane = new Float32Array(width * height * channels);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        let value = samples[((top + y) * raw.width + left + x) * channels + c];
+        if (linearization.length > 0) value = linearization[Math.min(value, linearization.length - 1)];
+        const cell = ((y % blackRows) * blackColumns + (x % blackColumns)) * channels + c;
+        const black = blackLevels[cell % Math.max(1, blackLevels.length)] ?? 0;
+        const white = whiteLevels[c] ?? whiteLevels[0] ?? (1 << bits) - 1;
+        plane[(y * width + x) * channels + c] = Math.max(0, (value - black) / (white - black)) * baseline;
+      }
+    }
+  }
+
+  // Multipliers that make the as-shot neutral grey, with green as the reference
+  const neutral = tagValues(raw, TAG.asShotNeutral).length === 3
+    ? tagValues(raw, TAG.asShotNeutral)
+    : tagValues(ifd0, TAG.asShotNeutral);
+  const balance = neutral.length === 3 && neutral.every(value => value > 0)
+    ? neutral.map(value => neutral[1] / value)
+    : [1, 1, 1];
+  const matrix = cameraToSrgb(raw, ifd0);
+
+  // CFA colour of each position in the repeating pattern: 0 red, 1 green, 2 blue
+  const [patternRows, patternColumns] = tagValues(raw, TAG.cfaRepeatPatternDim).length === 2
+    ? tagValues(raw, TAG.cfaRepeatPatternDim)
+    : [2, 2];
+  const pattern = tagValues(raw, TAG.cfaPattern);
+  const colorAt = (x: number, y: number) => pattern[(y % patternRows) * patternColumns + (x % patternColumns)] ?? 1;
+
+  const output = createLinearImage(width, height);
+  const camera = [0, 0, 0];
+  const sums = [0, 0, 0];
+  const counts = [0, 0, 0];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+
+      if (channels === 3) {
+        camera[0] = plane[pixel * 3];
+        camera[1] = plane[pixel * 3 + 1];
+        camera[2] = plane[pixel * 3 + 2];
+      } else {
+        // Bilinear: each missing colour is the mean of its neighbours in the 3x3 window
+        sums.fill(0);
+        counts.fill(0);
+        for (let dy = -1; dy <= 1; dy++) {
+          const sy = y + dy;
+          if (sy < 0 || sy >= height) continue;
+          for (let dx = -1; dx <= 1; dx++) {
+            const sx = x + dx;
+            if (sx < 0 || sx >= width) continue;
+            const color = colorAt(sx, sy);
+            sums[color] += plane[sy * width + sx];
+            counts[color]++;
+          }
+        }
+        const own = colorAt(x, y);
+        for (let c = 0; c < 3; c++) {
+          camera[c] = c === own ? plane[pixel] : counts[c] > 0 ? sums[c] / counts[c] : 0;
+        }
+      }
+
+      // Clip before the matrix so blown highlights stay neutral instead of
+      // turning magenta; colours outside sRGB are left to the export's gamut fit
+      const r = Math.min(1, camera[0] * balance[0]);
+      const g = Math.min(1, camera[1] * balance[1]);
+      const b = Math.min(1, camera[2] * balance[2]);
+
+      const i = pixel * 4;
+      for (let c = 0; c < 3; c++) {
+        output.data[i + c] = matrix[c * 3] * r + matrix[c * 3 + 1] * g + matrix[c * 3 + 2] * b;
+      }
+      output.data[i + 3] = 1;
+    }
+  }
+
+  return output;
+};
@@ -0,0 +1,176 @@
+import { analyzeImage, ImageAnalysisReport } from './analysis';
+import { backendLabels } from './backend';
+import { mergeExposures } from './bracketing';
+import { assessBudget, BudgetAssessment, DeviceLimits, tilingForPlan } from './budget';
+import { getEnhancement, resolveParams } from './enhancements';
+import { hasAlpha } from './export';
+import { encodeLinearImage, isLinearImage, LinearImage, linearFromImageData, PixelBuffer } from './linear';
+import { createLatticeImage, Lut3D, lutFromLattice } from './lut';
+import { getActiveBackend } from './models';
+import {
+  adaptPipeline,
+  describePipeline,
+  EnhancementPipeline,
+  FALLBACK_RESAMPLER,
+  resolvePipeline,
+  withAvailableResampler,
+} from './pipeline';
+import { cropImage, lanczosResize } from './resample';
+import { planResize, ResizePlan, ResizeTarget } from './resizeTarget';
+import { processTiled, TileOptions } from './tiling';
+
+export type ProgressCallback = (message: string) => void;
+
+export type EnhancementRun = {
+  // Still in linear light and unclamped; the worker encodes it for export
+  image: LinearImage;
+  // The pipeline that actually ran, including any adaptive corrections
+  pipeline: EnhancementPipeline;
+  report: ImageAnalysisReport;
+  // The source (the merged one, for brackets) has transparency to keep
+  transparent: boolean;
+};
+
+// Bring the uniformly resampled image to the exact target size
+const finishResize = (image: LinearImage, plan: ResizePlan): LinearImage => {
+  if (image.width === plan.width && image.height === plan.height) return image;
+
+  // The resampled image covers the box, so a fill target only needs its overflow cut
+  if (plan.finish === 'crop') {
+    return cropImage(
+      image,
+      Math.floor((image.width - plan.width) / 2),
+      Math.floor((image.height - plan.height) / 2),
+      plan.width,
+      plan.height
+    );
+  }
+  return lanczosResize(image, plan.width, plan.height);
+};
+
+const budgetError = (budget: BudgetAssessment) =>
+  new Error(`${budget.refusal}. The largest output this device can produce is ${budget.maxScale}x.`);
+
+// Run an enhancement pipeline on decoded pixels: 8-bit, already the working
+// buffer (developed camera raws), or bracketed exposures to merge first.
+// This is what the worker executes.
+export const runEnhancement = async (
+  input: PixelBuffer | ImageData[],
+  selectedPipeline: EnhancementPipeline,
+  target: ResizeTarget,
+  tiling: Partial<TileOptions> | undefined,
+  limits: DeviceLimits,
+  adaptive: boolean,
+  onProgress: ProgressCallback,
+  reference?: ImageData
+): Promise<EnhancementRun> => {
+  // Without a model backend the AI upscale of the default pipeline and the
+  // presets runs as the classic one
+  const requestedPipeline = withAvailableResampler(selectedPipeline, getActiveBackend() !== 'none');
+  if (requestedPipeline.some((step, index) => step.id !== selectedPipeline[index].id)) {
+    onProgress(`No AI backend available, upscaling with ${getEnhancement(FALLBACK_RESAMPLER)?.name}...`);
+  }
+
+  // Merging holds every exposure at once, so the frames are checked against
+  // the device's limits before it starts
+  const frameCount = Array.isArray(input) ? input.length : 1;
+  if (Array.isArray(input)) {
+    const { width, height } = input[0];
+    const definitions = resolvePipeline(requestedPipeline);
+    const budget = assessBudget(width, height, planResize(target, width, height), definitions, tiling, limits, frameCount);
+    if (budget.refusal) throw budgetError(budget);
+  }
+  const source = Array.isArray(input) ? mergeExposures(input, onProgress) : input;
+
+  onProgress(`Analyzing image characteristics...`);
+  const imageData = isLinearImage(source) ? encodeLinearImage(source) : source;
+  const report = analyzeImage(imageData);
+
+  const pipeline = adaptive ? adaptPipeline(requestedPipeline, report) : requestedPipeline;
+  const definitions = resolvePipeline(pipeline);
+
+  const modelStep = definitions.find(definition => definition.requiresModel);
+  if (modelStep && getActiveBackend() === 'none') {
+    throw new Error(`${modelStep.name} needs ${backendLabels.webgpu} or ${backendLabels.wasm}, and neither could be started in this browser`);
+  }
+
+  const referenceStep = definitions.find(definition => definition.reference);
+  if (referenceStep?.reference && !reference) {
+    throw new Error(`${referenceStep.name} needs a ${referenceStep.reference.label.toLowerCase()}`);
+  }
+
+  const plan = planResize(target, imageData.width, imageData.height);
+  const scaleFactor = plan.scale;
+
+  // Process in overlapping tiles so large inputs don't exhaust GPU/CPU memory
+  const tileOptions = tilingForPlan(plan, tiling);
+
+  // Refuse jobs past the browser's canvas or memory limits before doing any
+  // work, and shrink tiles when only the model's working set doesn't fit
+  const budget = assessBudget(imageData.width, imageData.height, plan, definitions, tiling, limits, frameCount);
+  if (budget.refusal) {
+    throw budgetError(budget);
+  }
+  if (budget.tileSize) {
+    tileOptions.tileSize = budget.tileSize;
+    onProgress(`Using ${budget.tileSize}px tiles to stay within device memory...`);
+  }
+  const context = { scaleFactor, report, reference, tiling: tileOptions };
+  // Decoded once into the linear working buffer, which only export encodes again
+  let current = isLinearImage(source) ? source : linearFromImageData(source);
+
+  for (let index = 0; index < definitions.length; index++) {
+    const definition = definitions[index];
+    const step = pipeline[index];
+    const label = definition.resamples ? `${definition.name} (${plan.width}x${plan.height})` : definition.name;
+    onProgress(`Processing step ${index + 1}/${definitions.length}: Applying ${label}...`);
+
+    const applyEnhancement = await definition.load();
+    const params = resolveParams(definition, step.params);
+
+    current = definition.wholeImage
+      ? await applyEnhancement(current, params, context)
+      : await processTiled(
+        current,
+        definition.resamples ? scaleFactor : 1,
+        (tile, placement) => applyEnhancement(tile, params, { ...context, placement }),
+        tileOptions
+      );
+
+    if (definition.resamples) {
+      current = finishResize(current, plan);
+    }
+  }
+
+  return { image: current, pipeline, report, transparent: hasAlpha(source) };
+};
+
+export type BakedColorTransform = {
+  lut: Lut3D;
+  // Names of steps that aren't per-pixel colour mappings and were left out
+  skipped: string[];
+};
+
+// Bake the colour steps of a pipeline into a 3D LUT by running them on the
+// lattice itself. Spatial operations can't be expressed as a LUT and are skipped.
+export const bakeColorTransform = async (pipeline: EnhancementPipeline, size: number): Promise<BakedColorTransform> => {
+  let lattice = createLatticeImage(size);
+  const skipped: string[] = [];
+
+  for (const step of pipeline) {
+    const definition = getEnhancement(step.id);
+    if (!definition) {
+      throw new Error(`Unknown enhancement "${step.id}"`);
+    }
+    if (definition.resamples) continue;
+    if (!definition.colorTransform) {
+      skipped.push(definition.name);
+      continue;
+    }
+
+    const applyEnhancement = await definition.load();
+    lattice = await applyEnhancement(lattice, resolveParams(definition, step.params), { scaleFactor: 1 });
+  }
+
+  return { lut: lutFromLattice(lattice, size, describePipeline(pipeline)), skipped };
+};
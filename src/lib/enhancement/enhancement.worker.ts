@@ -0,0 +1,117 @@
+import { analyzeImage } from './analysis';
+import { imageDataFromBitmap } from './canvas';
+import { decodeSourceImage } from './decoders';
+import { bakeColorTransform, runEnhancement } from './engine';
+import { encodeImage, exportFormats, resolveExportOptions } from './export';
+import { createIccProfile } from './icc';
+import { convertLinearColorSpace } from './linear';
+import { registerCustomLook } from './looks';
+import { serializeCubeLut } from './lut';
+import { embedIccProfile, embedResolution } from './metadata';
+import { configureModels, initializeModels } from './models';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+const respond = (response: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+// Camera raws develop to linear sRGB, converted to the working space without
+// going through 8 bits
+const developRaw = async (bytes: ArrayBuffer, workingSpace: PredefinedColorSpace) => {
+  const { linear } = await decodeSourceImage(new Uint8Array(bytes));
+  if (!linear) throw new Error('This file is not a camera raw');
+  return convertLinearColorSpace(linear, 'srgb', workingSpace);
+};
+
+const handleRequest = async (request: WorkerRequest) => {
+  switch (request.type) {
+    case 'configure':
+      configureModels(request.config);
+      respond({ id: request.id, type: 'configured' });
+      break;
+    case 'initialize':
+      respond({ id: request.id, type: 'initialized', ...(await initializeModels()) });
+      break;
+    case 'analyze': {
+      const imageData = imageDataFromBitmap(request.bitmap);
+      request.bitmap.close();
+      respond({ id: request.id, type: 'analyzed', report: analyzeImage(imageData) });
+      break;
+    }
+    case 'decode': {
+      const { imageData, format, pageCount } = await decodeSourceImage(new Uint8Array(request.bytes));
+      const bitmap = await createImageBitmap(imageData);
+      respond({ id: request.id, type: 'decoded', bitmap, format, pageCount }, [bitmap]);
+      break;
+    }
+    case 'registerLook':
+      registerCustomLook(request.look);
+      respond({ id: request.id, type: 'lookRegistered' });
+      break;
+    case 'bakeLut': {
+      const { lut, skipped } = await bakeColorTransform(request.pipeline, request.size);
+      respond({ id: request.id, type: 'lutBaked', cube: serializeCubeLut(lut), skipped });
+      break;
+    }
+    case 'enhance': {
+      const onProgress = (message: string) => respond({ id: request.id, type: 'progress', message });
+      const { workingSpace } = request;
+      const input = request.raw
+        ? await developRaw(request.raw, workingSpace)
+        : request.bitmaps.map(bitmap => imageDataFromBitmap(bitmap, workingSpace));
+      request.bitmaps.forEach(bitmap => bitmap.close());
+      const reference = request.reference && imageDataFromBitmap(request.reference, workingSpace);
+      request.reference?.close();
+
+      const run = await runEnhancement(
+        Array.isArray(input) && input.length === 1 ? input[0] : input,
+        request.pipeline,
+        request.target,
+        request.tiling,
+        request.limits,
+        request.adaptive,
+        onProgress,
+        reference
+      );
+
+      // Encode here so the main thread never touches the full-size pixels
+      const output = resolveExportOptions(request.output, run.transparent);
+      onProgress(`Encoding ${exportFormats[output.format].label}...`);
+      const { width, height } = run.image;
+      const encoded = await encodeImage(convertLinearColorSpace(run.image, workingSpace, output.colorSpace), output);
+      // Tag the file with its space, so viewers don't have to assume sRGB
+      const tagged = await embedIccProfile(
+        new Uint8Array(await encoded.arrayBuffer()),
+        createIccProfile(output.colorSpace),
+        { width, height }
+      );
+      // A print size opens at that size, not the encoder's 72 or 96 dpi
+      const bytes = request.target.mode === 'print'
+        ? embedResolution(tagged, request.target.dpi, { width, height })
+        : tagged;
+      respond({
+        id: request.id,
+        type: 'enhanced',
+        blob: new Blob([bytes], { type: encoded.type }),
+        format: output.format,
+        colorSpace: output.colorSpace,
+        width,
+        height,
+        pipeline: run.pipeline,
+        report: run.report
+      });
+      break;
+    }
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  handleRequest(event.data).catch(error => {
+    console.error('Enhancement worker request failed:', error);
+    respond({
+      id: event.data.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  });
+});
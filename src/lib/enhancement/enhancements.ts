@@ -0,0 +1,229 @@
+import {
+  Sun,
+  Moon,
+  CameraIcon,
+  ImageIcon,
+  Layers,
+  Palette,
+  ZoomIn,
+  Maximize2,
+  Focus,
+  Brush,
+  Pipette,
+} from 'lucide-react';
+import { EnhancementParamSpec, registerEnhancement } from './registry';
+import { DEFAULT_LOOK, listLooks } from './looks';
+
+// Built-in enhancements. Importing this module is what populates the registry,
+// on the main thread for the UI and inside the worker for the engine.
+
+// Resampling steps - a pipeline uses exactly one of these
+
+registerEnhancement({
+  id: 'upscale',
+  name: 'AI Upscale',
+  icon: ZoomIn,
+  description: 'Super-resolution with the Real-ESRGAN model',
+  requiresModel: true,
+  resamples: true,
+  load: async () => (await import('./filters')).applyModelUpscale,
+});
+
+registerEnhancement({
+  id: 'upscale-standard',
+  name: 'Standard Upscale',
+  icon: Maximize2,
+  description: 'Lanczos resampling to any size, no model required',
+  resamples: true,
+  load: async () => (await import('./filters')).applyStandardUpscale,
+});
+
+// Operations
+
+// Shared by the color operations so any effect can be dialed down
+const strengthParam: EnhancementParamSpec = {
+  type: 'number',
+  id: 'strength',
+  label: 'Strength',
+  min: 0,
+  max: 1.5,
+  step: 0.05,
+  default: 1,
+};
+
+registerEnhancement({
+  id: 'hdr',
+  name: 'HDR Effect',
+  icon: Sun,
+  description: 'Single-image HDR: Reinhard or Drago tone mapping with CLAHE local contrast and shadow/highlight recovery',
+  params: [
+    strengthParam,
+    {
+      type: 'select',
+      id: 'operator',
+      label: 'Tone mapping',
+      options: [
+        { value: 'reinhard', label: 'Reinhard' },
+        { value: 'drago', label: 'Drago (logarithmic)' },
+      ],
+      default: 'reinhard',
+    },
+    { type: 'number', id: 'exposure', label: 'Exposure (EV)', min: -2, max: 2, step: 0.1, default: 0 },
+    { type: 'number', id: 'shadows', label: 'Shadow recovery', min: 0, max: 1, step: 0.05, default: 0.4 },
+    { type: 'number', id: 'highlights', label: 'Highlight recovery', min: 0, max: 1, step: 0.05, default: 0.4 },
+    { type: 'number', id: 'localContrast', label: 'Local contrast', min: 0, max: 1, step: 0.05, default: 0.5 },
+    { type: 'number', id: 'clipLimit', label: 'Local contrast limit', min: 1, max: 4, step: 0.1, default: 2 },
+    { type: 'number', id: 'saturation', label: 'Saturation', min: 0.5, max: 1.5, step: 0.05, default: 1.1 },
+  ],
+  // Tone mapping statistics and CLAHE's tile grid are image-wide; in tiles
+  // each would adapt to its own tile and the seams would show
+  wholeImage: true,
+  load: async () => (await import('./filters')).applyHDREffect,
+});
+
+registerEnhancement({
+  id: 'night',
+  name: 'Night Mode',
+  icon: Moon,
+  description: 'Low-light brightening with edge-preserving noise reduction before and after the lift',
+  params: [
+    strengthParam,
+    { type: 'number', id: 'maxBoost', label: 'Shadow brightening', min: 1, max: 3, step: 0.05, default: 2 },
+    { type: 'number', id: 'highlightFalloff', label: 'Highlight protection', min: 0, max: 1.5, step: 0.05, default: 0.8 },
+    { type: 'number', id: 'denoise', label: 'Noise reduction', min: 0, max: 2, step: 0.1, default: 1 },
+    { type: 'boolean', id: 'blueTint', label: 'Cool night tint', default: true },
+  ],
+  load: async () => (await import('./filters')).applyNightMode,
+});
+
+registerEnhancement({
+  id: 'portrait',
+  name: 'Portrait',
+  icon: CameraIcon,
+  description: 'Face-aware skin retouching with frequency separation and blemish healing, sharpening everything else',
+  wholeImage: true,
+  params: [
+    strengthParam,
+    { type: 'number', id: 'skinSmoothing', label: 'Skin smoothing', min: 0, max: 2, step: 0.1, default: 0.3 },
+    { type: 'number', id: 'toneEvening', label: 'Skin tone evening', min: 0, max: 1, step: 0.05, default: 0.5 },
+    { type: 'number', id: 'textureKeep', label: 'Pore texture', min: 0, max: 1.5, step: 0.05, default: 1 },
+    { type: 'boolean', id: 'spotHealing', label: 'Heal small blemishes', default: false },
+    { type: 'number', id: 'skinWarmth', label: 'Skin warmth', min: 0, max: 2, step: 0.1, default: 1 },
+    { type: 'number', id: 'backgroundSharpening', label: 'Background sharpening', min: 0, max: 2, step: 0.1, default: 1 },
+    { type: 'number', id: 'feather', label: 'Mask feathering', min: 0, max: 0.05, step: 0.005, default: 0.01 },
+    { type: 'boolean', id: 'showMask', label: 'Show mask overlay (debug)', default: false },
+  ],
+  load: async () => (await import('./filters')).applyPortraitMode,
+});
+
+registerEnhancement({
+  id: 'color',
+  name: 'Color Pop',
+  icon: Palette,
+  description: 'Adaptive saturation boost that brings vibrant colors while maintaining balance',
+  params: [
+    strengthParam,
+    { type: 'number', id: 'saturation', label: 'Saturation boost', min: 0, max: 3, step: 0.05, default: 1.5 },
+    { type: 'number', id: 'saturationFalloff', label: 'Protect vivid colors', min: 0, max: 1, step: 0.05, default: 0.5 },
+  ],
+  colorTransform: true,
+  load: async () => (await import('./filters')).applyColorPop,
+});
+
+registerEnhancement({
+  id: 'color-match',
+  name: 'Color Match',
+  icon: Pipette,
+  description: 'Makes the colors and tones look like a reference photo by matching Lab color statistics',
+  params: [
+    strengthParam,
+    { type: 'boolean', id: 'histogramMatching', label: 'Match full histograms', default: false },
+  ],
+  // Statistics are measured over the whole image so every tile gets the same mapping
+  wholeImage: true,
+  reference: { label: 'Reference image' },
+  load: async () => (await import('./filters')).applyColorMatch,
+});
+
+registerEnhancement({
+  id: 'detail',
+  name: 'Detail Boost',
+  icon: Layers,
+  description: 'Unsharp mask with noise threshold and halo control, applied after upscaling',
+  params: [
+    { type: 'number', id: 'radius', label: 'Radius (px)', min: 0.3, max: 5, step: 0.1, default: 1 },
+    { type: 'number', id: 'amount', label: 'Amount', min: 0, max: 3, step: 0.05, default: 0.8 },
+    { type: 'number', id: 'threshold', label: 'Threshold', min: 0, max: 20, step: 1, default: 3 },
+    { type: 'boolean', id: 'limitHalos', label: 'Limit halos', default: true },
+    { type: 'boolean', id: 'luminanceOnly', label: 'Sharpen luminance only', default: true },
+  ],
+  // Output sharpening: at the final resolution, so resampling can't soften or
+  // magnify it (a sharpened halo upscaled 4x is a 4x wider halo)
+  afterResample: true,
+  load: async () => (await import('./filters')).applyDetailBoost,
+});
+
+registerEnhancement({
+  id: 'deblur',
+  name: 'Deblur',
+  icon: Focus,
+  description: 'Estimates the blur from focus or camera shake and reverses it with Richardson–Lucy deconvolution',
+  params: [
+    strengthParam,
+    { type: 'number', id: 'iterations', label: 'Iterations', min: 1, max: 50, step: 1, default: 10 },
+    { type: 'number', id: 'ringingSuppression', label: 'Ringing suppression', min: 0, max: 0.02, step: 0.001, default: 0.004 },
+    { type: 'boolean', id: 'detectMotion', label: 'Correct camera shake', default: true },
+  ],
+  load: async () => (await import('./filters')).applyDeblur,
+});
+
+registerEnhancement({
+  id: 'style',
+  name: 'Color Grade',
+  icon: ImageIcon,
+  description: 'Cinematic color grades from 3D LUTs, including your own .cube looks',
+  params: [
+    strengthParam,
+    {
+      type: 'select',
+      id: 'look',
+      label: 'Look',
+      options: () => listLooks().map(look => ({ value: look.id, label: look.name })),
+      default: DEFAULT_LOOK
+    },
+    {
+      type: 'select',
+      id: 'interpolation',
+      label: 'Interpolation',
+      options: [
+        { value: 'tetrahedral', label: 'Tetrahedral' },
+        { value: 'trilinear', label: 'Trilinear' },
+      ],
+      default: 'tetrahedral'
+    },
+  ],
+  colorTransform: true,
+  load: async () => (await import('./filters')).applyStyleTransfer,
+});
+
+registerEnhancement({
+  id: 'neural-style',
+  name: 'Style Transfer',
+  icon: Brush,
+  description: 'Paints your photo in the artistic style of a reference image using an AdaIN neural model',
+  params: [
+    { type: 'number', id: 'styleWeight', label: 'Content ↔ style', min: 0, max: 1, step: 0.05, default: 0.8 },
+    { type: 'boolean', id: 'preserveColors', label: 'Keep original colors', default: false },
+  ],
+  requiresModel: true,
+  wholeImage: true,
+  reference: { label: 'Style image' },
+  load: async () => (await import('./filters')).applyNeuralStyle,
+});
+
+// Additional enhancements register themselves from src/lib/enhancement/plugins/*.ts
+// (call registerEnhancement at module level; see plugins/blackAndWhite.ts);
+// they're picked up without touching the engine
+import.meta.glob('./plugins/*.ts', { eager: true });
+
+export * from './registry';
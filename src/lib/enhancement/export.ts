@@ -0,0 +1,220 @@
+import { encodeImageData } from './canvas';
+import { encodeLinearImage, encodeLinearImage16, isLinearImage, LinearImage, PixelBuffer } from './linear';
+import { deflate, pngChunk } from './metadata';
+
+// Output encoding, where the linear working buffer is finally gamma encoded
+// and quantized. PNG goes through the canvas, or is written here at 16 bits
+// per channel, which canvas can't produce; JPEG, WebP and AVIF use WASM
+// encoders (MozJPEG, libwebp, libavif) because canvas encoders expose only a
+// quality number, and most browsers can't encode AVIF at all. The encoders
+// are imported lazily so only the chosen one is downloaded.
+
+export type ExportFormat = 'png' | 'webp' | 'avif' | 'jpeg';
+
+// Chroma resolution: halved in both directions (smaller) or full (sharper colour edges)
+export type ChromaSubsampling = '420' | '444';
+
+export type ExportOptions = {
+  format: ExportFormat;
+  // 1-100, for lossy encodes
+  quality: number;
+  // JPEG and AVIF only; lossy WebP is always 4:2:0
+  chroma: ChromaSubsampling;
+  // WebP and AVIF only; PNG is always lossless
+  lossless: boolean;
+  // Gamut of the written pixels, tagged with a matching ICC profile. AVIF is
+  // always sRGB: its colour is signalled in the bitstream, which the encoder
+  // doesn't expose.
+  colorSpace: PredefinedColorSpace;
+  // Bits per channel. 16 (PNG only) keeps smooth gradients free of banding
+  // after heavy edits, at about twice the file size.
+  bitDepth: 8 | 16;
+};
+
+export type ExportFormatInfo = {
+  label: string;
+  mimeType: string;
+  extension: string;
+  supportsAlpha: boolean;
+  supportsLossless: boolean;
+  supportsChroma: boolean;
+  supportsWideGamut: boolean;
+  supportsHighBitDepth: boolean;
+};
+
+export const exportFormats: Record<ExportFormat, ExportFormatInfo> = {
+  png: {
+    label: 'PNG',
+    mimeType: 'image/png',
+    extension: 'png',
+    supportsAlpha: true,
+    supportsLossless: true,
+    supportsChroma: false,
+    supportsWideGamut: true,
+    supportsHighBitDepth: true,
+  },
+  webp: {
+    label: 'WebP',
+    mimeType: 'image/webp',
+    extension: 'webp',
+    supportsAlpha: true,
+    supportsLossless: true,
+    supportsChroma: false,
+    supportsWideGamut: true,
+    supportsHighBitDepth: false,
+  },
+  avif: {
+    label: 'AVIF',
+    mimeType: 'image/avif',
+    extension: 'avif',
+    supportsAlpha: true,
+    supportsLossless: true,
+    supportsChroma: true,
+    supportsWideGamut: false,
+    supportsHighBitDepth: false,
+  },
+  jpeg: {
+    label: 'JPEG',
+    mimeType: 'image/jpeg',
+    extension: 'jpg',
+    supportsAlpha: false,
+    supportsLossless: false,
+    supportsChroma: true,
+    supportsWideGamut: true,
+    supportsHighBitDepth: false,
+  },
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'jpeg',
+  quality: 90,
+  chroma: '420',
+  lossless: false,
+  colorSpace: 'srgb',
+  bitDepth: 8,
+};
+
+export const hasAlpha = (image: PixelBuffer): boolean => {
+  const { data } = image;
+  const opaque = isLinearImage(image) ? 1 : 255;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < opaque) return true;
+  }
+  return false;
+};
+
+// The options an image is actually encoded with. Transparent inputs are
+// kept lossless: JPEG can't store alpha at all, and lossy WebP and AVIF
+// smear colour into the transparent edges. Formats without wide-gamut
+// support fall back to sRGB, and those without 16-bit support to 8 bits.
+export const resolveExportOptions = (options: ExportOptions, transparent: boolean): ExportOptions => {
+  let resolved = options;
+  if (transparent) {
+    resolved = exportFormats[options.format].supportsAlpha
+      ? { ...options, lossless: true }
+      : { ...options, format: 'png', lossless: true };
+  }
+  if (!exportFormats[resolved.format].supportsWideGamut) {
+    resolved = { ...resolved, colorSpace: 'srgb' };
+  }
+  if (!exportFormats[resolved.format].supportsHighBitDepth) {
+    resolved = { ...resolved, bitDepth: 8 };
+  }
+  return resolved;
+};
+
+const isLossless = (options: ExportOptions) => options.format === 'png' || options.lossless;
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// 16-bit PNG, RGB when every pixel is opaque. Each row uses the Sub filter
+// (difference from the pixel to the left), which suits smooth gradients.
+const encodePng16 = async (image: LinearImage): Promise<Blob> => {
+  const { width, height } = image;
+  const samples = encodeLinearImage16(image);
+  let opaque = true;
+  for (let i = 3; i < samples.length && opaque; i += 4) opaque = samples[i] === 65535;
+
+  const channels = opaque ? 3 : 4;
+  const pixelBytes = channels * 2;
+  const rowBytes = 1 + width * pixelBytes;
+  const scanlines = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    scanlines[row] = 1;
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        const value = samples[(y * width + x) * 4 + c];
+        const at = row + 1 + x * pixelBytes + c * 2;
+        scanlines[at] = value >> 8;
+        scanlines[at + 1] = value & 0xff;
+      }
+    }
+    // Backwards, so every byte is differenced against the unfiltered one on its left
+    for (let at = row + rowBytes - 1; at > row + pixelBytes; at--) {
+      scanlines[at] -= scanlines[at - pixelBytes];
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 16;
+  // Colour type 6 is RGBA, 2 is RGB; compression, filter and interlace methods stay 0
+  header[9] = opaque ? 2 : 6;
+
+  return new Blob([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', await deflate(scanlines)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ], { type: 'image/png' });
+};
+
+// Encode the working buffer, whose pixels must already be in options.colorSpace
+export const encodeImage = async (image: LinearImage, options: ExportOptions): Promise<Blob> => {
+  const { mimeType } = exportFormats[options.format];
+  const quality = Math.min(100, Math.max(1, Math.round(options.quality)));
+  if (options.format === 'png' && options.bitDepth === 16) {
+    return encodePng16(image);
+  }
+  const imageData = encodeLinearImage(image, options.colorSpace);
+
+  switch (options.format) {
+    case 'png':
+      return encodeImageData(imageData, mimeType);
+    case 'jpeg': {
+      const { default: encode } = await import('@jsquash/jpeg/encode');
+      const buffer = await encode(imageData, {
+        quality,
+        progressive: true,
+        // MozJPEG's factor: 2 halves chroma in both directions, 1 keeps it
+        auto_subsample: false,
+        chroma_subsample: options.chroma === '444' ? 1 : 2,
+      });
+      return new Blob([buffer], { type: mimeType });
+    }
+    case 'webp': {
+      const { default: encode } = await import('@jsquash/webp/encode');
+      const lossless = isLossless(options);
+      const buffer = await encode(imageData, {
+        quality: lossless ? 100 : quality,
+        lossless: lossless ? 1 : 0,
+        // Keep the colour of fully transparent pixels instead of zeroing it
+        exact: lossless ? 1 : 0,
+      });
+      return new Blob([buffer], { type: mimeType });
+    }
+    case 'avif': {
+      const { default: encode } = await import('@jsquash/avif/encode');
+      // Lossless AVIF is always full quality 4:4:4; the encoder warns if told otherwise
+      const buffer = await encode(imageData, isLossless(options) ? { lossless: true } : {
+        quality,
+        // libavif's pixel formats: 1 is YUV 4:2:0, 3 is YUV 4:4:4
+        subsample: options.chroma === '444' ? 3 : 1,
+      });
+      return new Blob([buffer], { type: mimeType });
+    }
+  }
+};
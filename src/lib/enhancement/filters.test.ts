@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeImage } from './analysis';
+import { applyNightMode } from './filters';
+import { encodeLinearImage, LinearImage, linearFromImageData } from './linear';
+import { processTiled } from './tiling';
+
+const WIDTH = 96;
+const HEIGHT = 64;
+
+// Seeded so every run sees the same noise (mulberry32)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// A dark scene whose noise grows from left to right, so tiles measured on
+// their own would each see a different level
+const createNightScene = (): ImageData => {
+  const random = createRandom(7);
+  const image = new ImageData(WIDTH, HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const sigma = 2 + (x / WIDTH) * 14;
+      for (let c = 0; c < 3; c++) {
+        const gaussian = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+        image.data[(y * WIDTH + x) * 4 + c] = 30 + y / 4 + sigma * gaussian;
+      }
+      image.data[(y * WIDTH + x) * 4 + 3] = 255;
+    }
+  }
+  return image;
+};
+
+describe('applyNightMode', () => {
+  const params = { maxBoost: 2, highlightFalloff: 0.8, denoise: 1, blueTint: true, strength: 1 };
+
+  it('denoises tiles alike, so the tiled result has no seams', async () => {
+    const scene = createNightScene();
+    const context = { scaleFactor: 1, report: analyzeImage(scene) };
+    const night = (image: LinearImage) => applyNightMode(image, params, context);
+
+    const whole = encodeLinearImage(await night(linearFromImageData(scene)));
+    const tiled = encodeLinearImage(
+      await processTiled(linearFromImageData(scene), 1, night, { tileSize: 32, overlap: 16 })
+    );
+
+    let maxDifference = 0;
+    for (let i = 0; i < whole.data.length; i++) {
+      maxDifference = Math.max(maxDifference, Math.abs(whole.data[i] - tiled.data[i]));
+    }
+    expect(maxDifference).toBeLessThanOrEqual(1);
+  });
+});
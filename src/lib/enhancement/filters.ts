@@ -0,0 +1,453 @@
+import { runUpscalerPass } from './models';
+import { computeLuminance, estimateNoise } from './analysis';
+import { bilateralDenoise } from './denoise';
+import { buildPortraitMask, renderMaskOverlay } from './portrait';
+import { frequencySeparation, healSpots } from './retouch';
+import { getLook } from './looks';
+import { applyLut, LutInterpolation } from './lut';
+import { transferStyle } from './styleTransfer';
+import { matchColors } from './colorMatch';
+import { unsharpMask } from './sharpen';
+import { tileOptionsForScale, TilePlacement } from './tiling';
+import { lanczosResize } from './resample';
+import { decodeSrgb, encodeSrgb, linearLuminance } from './color';
+import {
+  createLinearImage,
+  encodeLinearImage,
+  fromPerceptual,
+  LinearImage,
+  perceptualLuminance,
+  processAsImageData,
+  toPerceptual,
+} from './linear';
+import {
+  clahe,
+  recoverShadowsAndHighlights,
+  sceneStatistics,
+  ToneMappingOperator,
+  toneMapLuminance,
+} from './toneMapping';
+import { createPointSpreadFunction, estimateBlur, richardsonLucy } from './deblur';
+import type { EnhancementContext, EnhancementParams } from './registry';
+
+// Resampling steps
+
+// Output size and sampling grid: the tile's place in the full output when
+// running in tiles, otherwise the whole image scaled by the pipeline's factor
+const resamplingPlacement = (image: LinearImage, { scaleFactor, placement }: EnhancementContext): TilePlacement => {
+  if (placement) return placement;
+
+  const width = Math.max(1, Math.round(image.width * scaleFactor));
+  const height = Math.max(1, Math.round(image.height * scaleFactor));
+  return { width, height, scaleX: width / image.width, scaleY: height / image.height, offsetX: 0, offsetY: 0 };
+};
+
+export const applyModelUpscale = async (
+  image: LinearImage,
+  params: EnhancementParams,
+  context: EnhancementContext
+): Promise<LinearImage> => {
+  const placement = resamplingPlacement(image, context);
+  const { width: targetWidth, height: targetHeight } = placement;
+  
+  // The model only enlarges; reductions go straight to the resampler
+  if (context.scaleFactor <= 1) {
+    return lanczosResize(image, targetWidth, targetHeight, placement);
+  }
+  
+  try {
+    // Always run at least one model pass, then keep going while another
+    // pass would not overshoot the requested factor. The model reads and
+    // writes 8-bit pixels, so highlights above white don't survive it.
+    let upscaled = await processAsImageData(image, async imageData => {
+      let result = await runUpscalerPass(imageData);
+      let reachedFactor = result.width / imageData.width;
+      const modelScale = reachedFactor;
+      
+      while (modelScale > 1 && reachedFactor * modelScale <= context.scaleFactor) {
+        result = await runUpscalerPass(result);
+        reachedFactor = result.width / imageData.width;
+      }
+      return result;
+    });
+    
+    // Resample whatever is left over (e.g. 4x model output to 3x or 6x), on
+    // the same grid as resampling the input directly
+    upscaled = lanczosResize(upscaled, targetWidth, targetHeight, {
+      ...placement,
+      scaleX: placement.scaleX * image.width / upscaled.width,
+      scaleY: placement.scaleY * image.height / upscaled.height,
+    });
+    
+    // The model only sees RGB, so carry the original alpha channel across
+    const alpha = lanczosResize(image, targetWidth, targetHeight, placement);
+    for (let i = 3; i < upscaled.data.length; i += 4) {
+      upscaled.data[i] = alpha.data[i];
+    }
+    
+    return upscaled;
+  } catch (error) {
+    console.error('Model upscaling failed:', error);
+    throw new Error('Model upscaling failed');
+  }
+};
+
+// Resampling in linear light keeps bright detail from darkening as it's averaged
+export const applyStandardUpscale = async (
+  image: LinearImage,
+  params: EnhancementParams,
+  context: EnhancementContext
+): Promise<LinearImage> => {
+  const placement = resamplingPlacement(image, context);
+  return lanczosResize(image, placement.width, placement.height, placement);
+};
+
+// Mix processed pixels back towards the original; strength 1 is the full effect
+const blendWithOriginal = (original: LinearImage, processed: LinearImage, strength: number): LinearImage => {
+  if (strength !== 1) {
+    const { data } = processed;
+    for (let i = 0; i < data.length; i++) {
+      if (i % 4 === 3) continue; // Alpha is never blended
+      data[i] = original.data[i] + (data[i] - original.data[i]) * strength;
+    }
+  }
+  return processed;
+};
+
+// Enhancement algorithms - these keep the image size, the pipeline's resampling step handles scaling.
+// Parameters arrive with defaults already filled in from the registered schema.
+// Pixels are linear light and may exceed 1; filters tuned on 8-bit values do
+// their arithmetic on the perceptual scale (see linear.ts). Only the ONNX
+// models (the upscaler, style transfer) read and write 8-bit pixels, so only
+// their calls go through processAsImageData.
+
+export const applyHDREffect = async (image: LinearImage, params: EnhancementParams): Promise<LinearImage> => {
+  const { data, width, height } = image;
+  const pixelCount = width * height;
+  const exposure = Math.pow(2, params.exposure as number);
+  const saturation = params.saturation as number;
+  const localContrast = params.localContrast as number;
+  
+  // Linear light, so the operators see physical ratios. Highlights earlier
+  // steps pushed past 1 are scene values like any other and get compressed.
+  const linear = new Float32Array(pixelCount * 3);
+  const sceneLuminance = new Float32Array(pixelCount);
+  for (let pixel = 0, i = 0; pixel < pixelCount; pixel++, i += 4) {
+    const r = Math.max(0, data[i]);
+    const g = Math.max(0, data[i + 1]);
+    const b = Math.max(0, data[i + 2]);
+    linear[pixel * 3] = r;
+    linear[pixel * 3 + 1] = g;
+    linear[pixel * 3 + 2] = b;
+    sceneLuminance[pixel] = linearLuminance(r, g, b);
+  }
+  
+  // Measured on the image as earlier steps left it, not on the upload
+  const mapped = toneMapLuminance(
+    sceneLuminance.map(value => value * exposure),
+    params.operator as ToneMappingOperator,
+    sceneStatistics(sceneLuminance)
+  );
+  
+  // Recovery and local contrast work on perceptual (gamma-encoded) luminance
+  let display = recoverShadowsAndHighlights(
+    mapped.map(encodeSrgb),
+    params.shadows as number,
+    params.highlights as number
+  );
+  if (localContrast > 0) {
+    const equalized = clahe(display, width, height, params.clipLimit as number);
+    display = display.map((value, pixel) => value + (equalized[pixel] - value) * localContrast);
+  }
+  
+  const enhanced = createLinearImage(width, height);
+  for (let pixel = 0, i = 0; pixel < pixelCount; pixel++, i += 4) {
+    const target = decodeSrgb(display[pixel]);
+    const source = Math.max(sceneLuminance[pixel], 1e-6);
+    
+    // Re-apply colour as a ratio to luminance; saturation bends the ratios
+    let r = target * Math.pow(linear[pixel * 3] / source, saturation);
+    let g = target * Math.pow(linear[pixel * 3 + 1] / source, saturation);
+    let b = target * Math.pow(linear[pixel * 3 + 2] / source, saturation);
+    
+    // Out of gamut: desaturate towards the target grey instead of clipping
+    // channels, which would shift the hue
+    const peak = Math.max(r, g, b);
+    if (peak > 1) {
+      const t = (1 - target) / Math.max(peak - target, 1e-6);
+      r = target + (r - target) * t;
+      g = target + (g - target) * t;
+      b = target + (b - target) * t;
+    }
+    
+    enhanced.data[i] = r;
+    enhanced.data[i + 1] = g;
+    enhanced.data[i + 2] = b;
+    enhanced.data[i + 3] = data[i + 3];
+  }
+  
+  return blendWithOriginal(image, enhanced, params.strength as number);
+};
+
+const measureNoise = (imageData: ImageData): number => {
+  return estimateNoise(computeLuminance(imageData), imageData.width, imageData.height);
+};
+
+export const applyNightMode = async (
+  image: LinearImage,
+  params: EnhancementParams,
+  { report }: EnhancementContext
+): Promise<LinearImage> => {
+  // Significantly improved night mode enhancement
+  const maxBoost = params.maxBoost as number;
+  const highlightFalloff = params.highlightFalloff as number;
+  const blueLift = params.blueTint ? 1.2 : 1;
+  const denoise = params.denoise as number;
+  
+  // Clean up sensor noise first so the lift doesn't amplify it. The level is
+  // the whole image's (from the analysis), so every tile is denoised alike.
+  const noiseLevel = report?.noiseLevel ?? measureNoise(encodeLinearImage(image));
+  const source = bilateralDenoise(image, { noiseLevel, strength: denoise });
+  
+  const lifted = createLinearImage(image.width, image.height);
+  
+  // Advanced night mode processing
+  for (let i = 0; i < source.data.length; i += 4) {
+    // Get pixel values
+    const r = toPerceptual(source.data[i]);
+    const g = toPerceptual(source.data[i + 1]);
+    const b = toPerceptual(source.data[i + 2]);
+    
+    // Calculate luminance to identify dark areas
+    const luminance = (0.299 * r + 0.587 * g + 0.114 * b);
+    
+    // Boost dark areas more than bright areas (specialized night mode)
+    const brightnessFactor = maxBoost - (luminance / 255) * highlightFalloff;
+    
+    // Lifted lights may go past white; they're fitted at export instead of clipped here
+    lifted.data[i] = fromPerceptual(r * brightnessFactor); // R
+    lifted.data[i + 1] = fromPerceptual(g * brightnessFactor); // G
+    lifted.data[i + 2] = fromPerceptual(Math.max(b * brightnessFactor, b * blueLift)); // B - boost blues slightly for night look
+    lifted.data[i + 3] = source.data[i + 3]; // Alpha
+  }
+  
+  // A second, gentler pass for whatever noise the lift brought back up: the
+  // shadows, where it shows, were lifted by up to maxBoost. Measuring it
+  // again here would give each tile its own level, and seams between them.
+  const cleaned = bilateralDenoise(lifted, {
+    noiseLevel: noiseLevel * maxBoost,
+    strength: denoise * 0.5
+  });
+  
+  return blendWithOriginal(image, cleaned, params.strength as number);
+};
+
+// 4-neighbour unsharp mask used for background sharpening
+const sharpenPixel = (data: Float32Array, width: number, height: number, x: number, y: number, c: number, amount: number) => {
+  const idx = (y * width + x) * 4 + c;
+  const left = data[idx - (x > 0 ? 4 : 0)];
+  const right = data[idx + (x < width - 1 ? 4 : 0)];
+  const top = data[idx - (y > 0 ? width * 4 : 0)];
+  const bottom = data[idx + (y < height - 1 ? width * 4 : 0)];
+  return data[idx] + (data[idx] * 4 - left - right - top - bottom) * amount;
+};
+
+export const applyPortraitMode = async (image: LinearImage, params: EnhancementParams): Promise<LinearImage> => {
+  // Portrait enhancement: smooth and warm skin inside a face-aware mask, sharpen everything else
+  const { data, width, height } = image;
+  const skinWarmth = params.skinWarmth as number;
+  const backgroundSharpening = params.backgroundSharpening as number;
+  
+  const portraitMask = await buildPortraitMask(encodeLinearImage(image), params.feather as number);
+  if (params.showMask) {
+    return renderMaskOverlay(image, portraitMask);
+  }
+  
+  // Retouching scales with the face size; without faces assume a head-and-shoulders shot
+  const faceHeights = portraitMask.faces.map(face => face.height).sort((a, b) => a - b);
+  const faceScale = faceHeights.length > 0
+    ? faceHeights[Math.floor(faceHeights.length / 2)]
+    : Math.min(width, height) / 4;
+  
+  let retouched = image;
+  if (params.spotHealing) {
+    retouched = healSpots(retouched, portraitMask.mask, Math.max(1.5, faceScale * 0.015)).image;
+  }
+  
+  const toneEvening = params.toneEvening as number;
+  const textureKeep = params.textureKeep as number;
+  if (toneEvening > 0 || textureKeep !== 1) {
+    retouched = frequencySeparation(retouched, portraitMask.mask, {
+      sigma: Math.max(1, faceScale * 0.02),
+      evening: toneEvening,
+      texture: textureKeep
+    });
+  }
+  
+  // Edge-preserving smoothing keeps features while evening out skin texture
+  const smoothed = bilateralDenoise(retouched, {
+    noiseLevel: 10 * (params.skinSmoothing as number),
+    strength: 1
+  }).data;
+  
+  // Warmth and sharpening were tuned on 8-bit values, so both work on the perceptual scale
+  const perceptual = data.map(toPerceptual);
+  const enhanced = createLinearImage(width, height);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const i = pixel * 4;
+      const skin = portraitMask.mask[pixel];
+      
+      // Skin: warm up reds slightly, preserve natural green, reduce blue for a warmer look
+      const skinR = toPerceptual(smoothed[i]) * (1 + 0.1 * skinWarmth);
+      const skinG = toPerceptual(smoothed[i + 1]) * (1 + 0.05 * skinWarmth);
+      const skinB = toPerceptual(smoothed[i + 2]) * (1 - 0.05 * skinWarmth);
+      
+      // Background: sharpen for crisper detail
+      const amount = 0.25 * backgroundSharpening;
+      const backgroundR = sharpenPixel(perceptual, width, height, x, y, 0, amount);
+      const backgroundG = sharpenPixel(perceptual, width, height, x, y, 1, amount);
+      const backgroundB = sharpenPixel(perceptual, width, height, x, y, 2, amount);
+      
+      enhanced.data[i] = fromPerceptual(skinR * skin + backgroundR * (1 - skin));
+      enhanced.data[i + 1] = fromPerceptual(skinG * skin + backgroundG * (1 - skin));
+      enhanced.data[i + 2] = fromPerceptual(skinB * skin + backgroundB * (1 - skin));
+      enhanced.data[i + 3] = data[i + 3]; // Alpha
+    }
+  }
+  
+  return blendWithOriginal(image, enhanced, params.strength as number);
+};
+
+export const applyColorPop = async (image: LinearImage, params: EnhancementParams): Promise<LinearImage> => {
+  // Vibrant color enhancement with balanced tones
+  const { data } = image;
+  const saturation = params.saturation as number;
+  const saturationFalloff = params.saturationFalloff as number;
+  
+  const enhanced = createLinearImage(image.width, image.height);
+  
+  for (let i = 0; i < data.length; i += 4) {
+    // Get pixel values, on the scale the boost was tuned on
+    const r = toPerceptual(data[i]);
+    const g = toPerceptual(data[i + 1]);
+    const b = toPerceptual(data[i + 2]);
+    
+    // Calculate saturation
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = (max - min) / 255;
+    
+    // Apply adaptive saturation boost - more for muted colors, less for already saturated
+    const satBoost = saturation - (delta * saturationFalloff); // Higher boost for less saturated colors
+    
+    // Apply the color pop effect
+    if (max > 0) {
+      const rRatio = r / max;
+      const gRatio = g / max;
+      const bRatio = b / max;
+      
+      // Boost colors while maintaining balance. Bright colours may overshoot
+      // white; they keep their hue and are fitted at export, not clipped here.
+      enhanced.data[i] = fromPerceptual(r + (r - r * rRatio) * satBoost);
+      enhanced.data[i + 1] = fromPerceptual(g + (g - g * gRatio) * satBoost);
+      enhanced.data[i + 2] = fromPerceptual(b + (b - b * bRatio) * satBoost);
+    } else {
+      enhanced.data[i] = data[i];
+      enhanced.data[i + 1] = data[i + 1];
+      enhanced.data[i + 2] = data[i + 2];
+    }
+    enhanced.data[i + 3] = data[i + 3]; // Alpha
+  }
+  
+  return blendWithOriginal(image, enhanced, params.strength as number);
+};
+
+export const applyDetailBoost = async (image: LinearImage, params: EnhancementParams): Promise<LinearImage> => {
+  return unsharpMask(image, {
+    radius: params.radius as number,
+    amount: params.amount as number,
+    threshold: params.threshold as number,
+    limitHalos: params.limitHalos as boolean,
+    luminanceOnly: params.luminanceOnly as boolean
+  });
+};
+
+export const applyStyleTransfer = async (image: LinearImage, params: EnhancementParams): Promise<LinearImage> => {
+  const lookId = params.look as string;
+  const look = getLook(lookId);
+  if (!look) {
+    throw new Error(`Look "${lookId}" is not loaded; import its .cube file again`);
+  }
+  
+  const graded = applyLut(image, look.getLut(), params.interpolation as LutInterpolation);
+  return blendWithOriginal(image, graded, params.strength as number);
+};
+
+export const applyDeblur = async (
+  image: LinearImage,
+  params: EnhancementParams,
+  { report }: EnhancementContext
+): Promise<LinearImage> => {
+  const { data, width, height } = image;
+  const luminance = perceptualLuminance(image);
+
+  // Prefer the whole-image estimate; a single tile may not contain enough edges
+  const estimate = report?.blur ?? estimateBlur(luminance, width, height);
+  const psf = createPointSpreadFunction(estimate, params.detectMotion as boolean);
+  if (!psf) return image;
+
+  // Deconvolve luminance only and add the change to every channel, which keeps
+  // colours stable and is a third of the work
+  const restored = richardsonLucy(
+    luminance,
+    width,
+    height,
+    psf,
+    params.iterations as number,
+    params.ringingSuppression as number
+  );
+
+  const enhanced = createLinearImage(width, height);
+  for (let pixel = 0, i = 0; pixel < luminance.length; pixel++, i += 4) {
+    const delta = restored[pixel] - luminance[pixel];
+    enhanced.data[i] = fromPerceptual(toPerceptual(data[i]) + delta);
+    enhanced.data[i + 1] = fromPerceptual(toPerceptual(data[i + 1]) + delta);
+    enhanced.data[i + 2] = fromPerceptual(toPerceptual(data[i + 2]) + delta);
+    enhanced.data[i + 3] = data[i + 3];
+  }
+
+  return blendWithOriginal(image, enhanced, params.strength as number);
+};
+
+export const applyNeuralStyle = async (
+  image: LinearImage,
+  params: EnhancementParams,
+  { reference, tiling }: EnhancementContext
+): Promise<LinearImage> => {
+  if (!reference) {
+    throw new Error('Style transfer needs a style image');
+  }
+  
+  return processAsImageData(image, imageData => transferStyle(imageData, reference, {
+    styleWeight: params.styleWeight as number,
+    preserveColors: params.preserveColors as boolean
+  }, tiling ?? tileOptionsForScale(1)));
+};
+
+export const applyColorMatch = async (
+  image: LinearImage,
+  params: EnhancementParams,
+  { reference }: EnhancementContext
+): Promise<LinearImage> => {
+  if (!reference) {
+    throw new Error('Color match needs a reference image');
+  }
+  
+  const matched = matchColors(image, reference, {
+    histogram: params.histogramMatching as boolean
+  });
+  return blendWithOriginal(image, matched, params.strength as number);
+};
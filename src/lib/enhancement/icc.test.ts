@@ -0,0 +1,93 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { convertFromIccProfile, createIccProfile, parseIccProfile } from './icc';
+
+// Minimal matrix/TRC profiles (header, desc, cprt, wtpt, primaries, gamma curves),
+// written independently of icc.ts so they can't share its mistakes
+const fixture = (name: string) => new Uint8Array(readFileSync(new URL(`../../test/fixtures/${name}`, import.meta.url)));
+
+describe('parseIccProfile', () => {
+  it('reads a v2 sRGB profile as standard gamut', () => {
+    expect(parseIccProfile(fixture('srgb-v2.icc'))).toEqual({ description: 'sRGB IEC61966-2.1', wideGamut: false });
+  });
+
+  it('reads a v4 Display P3 profile as wide gamut', () => {
+    expect(parseIccProfile(fixture('display-p3-v4.icc'))).toEqual({ description: 'Display P3', wideGamut: true });
+  });
+
+  it('reads a v2 Adobe RGB profile as wide gamut', () => {
+    expect(parseIccProfile(fixture('adobe-rgb-1998-v2.icc'))).toEqual({ description: 'Adobe RGB (1998)', wideGamut: true });
+  });
+
+  it('rejects data that is not a profile', () => {
+    expect(parseIccProfile(new Uint8Array(200))).toBeNull();
+    expect(parseIccProfile(fixture('srgb-v2.icc').subarray(0, 100))).toBeNull();
+  });
+});
+
+describe('createIccProfile', () => {
+  it('writes profiles that parse back as the space they describe', () => {
+    expect(parseIccProfile(createIccProfile('srgb'))).toEqual({ description: 'sRGB', wideGamut: false });
+    expect(parseIccProfile(createIccProfile('display-p3'))).toEqual({ description: 'Display P3', wideGamut: true });
+  });
+
+  it('stores the size in the header and primaries that match the fixtures', () => {
+    for (const [colorSpace, name] of [['srgb', 'srgb-v2.icc'], ['display-p3', 'display-p3-v4.icc']] as const) {
+      const profile = createIccProfile(colorSpace);
+      const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength);
+      expect(view.getUint32(0)).toBe(profile.length);
+
+      // rXYZ in both, compared to within the fixtures' four decimals
+      const red = (bytes: Uint8Array) => {
+        const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        for (let index = 0; index < data.getUint32(128); index++) {
+          const at = 132 + index * 12;
+          if (String.fromCharCode(...bytes.subarray(at, at + 4)) === 'rXYZ') {
+            const offset = data.getUint32(at + 4);
+            return [0, 1, 2].map(channel => data.getInt32(offset + 8 + channel * 4) / 65536);
+          }
+        }
+        return [];
+      };
+      const expected = red(fixture(name));
+      red(profile).forEach((value, channel) => expect(value).toBeCloseTo(expected[channel], 3));
+    }
+  });
+});
+
+describe('convertFromIccProfile', () => {
+  const pixels = (...colors: number[][]) =>
+    new ImageData(new Uint8ClampedArray(colors.flatMap(color => [...color, 255])), colors.length, 1);
+  const colorAt = (image: ImageData, index: number) => Array.from(image.data.subarray(index * 4, index * 4 + 3));
+
+  it('only tags pixels already in sRGB or Display P3', () => {
+    const image = pixels([200, 100, 50], [10, 20, 30]);
+    for (const colorSpace of ['srgb', 'display-p3'] as const) {
+      const converted = convertFromIccProfile(image, createIccProfile(colorSpace));
+      expect(converted.colorSpace).toBe(colorSpace);
+      expect(Array.from(converted.data)).toEqual(Array.from(image.data));
+    }
+  });
+
+  it('re-encodes sRGB primaries with a gamma 2.2 curve', () => {
+    // The fixtures' curves are gamma 2.2, darker than the sRGB curve in the shadows
+    const converted = convertFromIccProfile(pixels([50, 50, 50]), fixture('srgb-v2.icc'));
+    expect(converted.colorSpace).toBe('srgb');
+    expect(colorAt(converted, 0)).toEqual([46, 46, 46]);
+  });
+
+  it('converts Adobe RGB into Display P3', () => {
+    const converted = convertFromIccProfile(pixels([255, 0, 0], [255, 255, 255]), fixture('adobe-rgb-1998-v2.icc'));
+    expect(converted.colorSpace).toBe('display-p3');
+
+    // Adobe RGB red is sRGB red (linear P3 0.8225, 0.0332, 0.0171) at 1.4 times
+    // the luminance, clipped in red
+    colorAt(converted, 0).forEach((value, channel) => expect(Math.abs(value - [255, 61, 43][channel])).toBeLessThanOrEqual(1));
+    expect(colorAt(converted, 1)).toEqual([255, 255, 255]);
+  });
+
+  it('leaves pixels alone when the profile is not matrix RGB', () => {
+    const image = pixels([1, 2, 3]);
+    expect(convertFromIccProfile(image, new Uint8Array(200))).toBe(image);
+  });
+});
@@ -0,0 +1,365 @@
+// ICC profiles: enough parsing to tell what an embedded profile describes,
+// and matrix/TRC profiles for the two spaces the engine writes (sRGB and
+// Display P3). Formats the browser decodes are converted by its colour
+// management, through canvas colorSpace; pixels from our own decoders (HEIC,
+// TIFF) are converted here, for matrix/TRC RGB profiles.
+
+import { encodeSrgb, srgbToLinear } from './color';
+
+export type IccProfileInfo = {
+  description: string;
+  // RGB primaries enclosing noticeably more than sRGB (Display P3, Adobe RGB, ...)
+  wideGamut: boolean;
+};
+
+type Xyz = [number, number, number];
+
+type RgbPrimaries = { red: Xyz; green: Xyz; blue: Xyz };
+
+// Primaries adapted to the D50 profile connection space, as profiles store them
+const PRIMARIES: Record<PredefinedColorSpace, RgbPrimaries> = {
+  srgb: {
+    red: [0.436065674, 0.222488403, 0.013916016],
+    green: [0.385147095, 0.716873169, 0.097076416],
+    blue: [0.143066406, 0.06060791, 0.714096069],
+  },
+  'display-p3': {
+    red: [0.515136719, 0.241195679, -0.001052856],
+    green: [0.291976929, 0.692245483, 0.041885376],
+    blue: [0.157211304, 0.066574097, 0.784194946],
+  },
+};
+
+const PROFILE_NAMES: Record<PredefinedColorSpace, string> = {
+  srgb: 'sRGB',
+  'display-p3': 'Display P3',
+};
+
+const D50: Xyz = [0.964202881, 1, 0.824905396];
+
+// Bradford adaptation from D65, required in v4 display profiles
+const CHROMATIC_ADAPTATION = [
+  1.04788208, 0.022918701, -0.050201416,
+  0.029586792, 0.990478516, -0.017059326,
+  -0.009231567, 0.015075684, 0.751678467,
+];
+
+// Both spaces share the sRGB transfer curve: parametric type 3 with these (g, a, b, c, d)
+const SRGB_CURVE = [2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045];
+
+// Gamut area ratio over sRGB above which a profile counts as wide
+const WIDE_GAMUT_RATIO = 1.1;
+
+const HEADER_SIZE = 128;
+
+const signature = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const gamutArea = ({ red, green, blue }: RgbPrimaries) => {
+  const chromaticity = ([x, y, z]: Xyz) => {
+    const sum = x + y + z || 1;
+    return [x / sum, y / sum];
+  };
+  const [rx, ry] = chromaticity(red);
+  const [gx, gy] = chromaticity(green);
+  const [bx, by] = chromaticity(blue);
+  return Math.abs((gx - rx) * (by - ry) - (bx - rx) * (gy - ry)) / 2;
+};
+
+// --- Parsing ---
+
+type TagTable = Map<string, { offset: number; size: number }>;
+
+const readTagTable = (view: DataView): TagTable => {
+  const tags: TagTable = new Map();
+  const count = view.getUint32(HEADER_SIZE);
+  for (let index = 0; index < count; index++) {
+    const at = HEADER_SIZE + 4 + index * 12;
+    if (at + 12 > view.byteLength) break;
+    const offset = view.getUint32(at + 4);
+    const size = view.getUint32(at + 8);
+    if (offset + size <= view.byteLength) {
+      tags.set(signature(new Uint8Array(view.buffer, view.byteOffset, view.byteLength), at), { offset, size });
+    }
+  }
+  return tags;
+};
+
+const readXyzTag = (view: DataView, tags: TagTable, name: string): Xyz | null => {
+  const tag = tags.get(name);
+  if (!tag || tag.size < 20) return null;
+  const value = (index: number) => view.getInt32(tag.offset + 8 + index * 4) / 65536;
+  return [value(0), value(1), value(2)];
+};
+
+// v2 textDescriptionType or v4 multiLocalizedUnicodeType (first record)
+const readDescription = (bytes: Uint8Array, view: DataView, tags: TagTable): string | null => {
+  const tag = tags.get('desc');
+  if (!tag || tag.size < 12) return null;
+
+  const type = signature(bytes, tag.offset);
+  if (type === 'desc') {
+    const length = view.getUint32(tag.offset + 8);
+    return new TextDecoder().decode(bytes.subarray(tag.offset + 12, tag.offset + 12 + length)).replace(/\0+$/, '');
+  }
+  if (type === 'mluc' && tag.size >= 28) {
+    const length = view.getUint32(tag.offset + 20);
+    const offset = tag.offset + view.getUint32(tag.offset + 24);
+    return new TextDecoder('utf-16be').decode(bytes.subarray(offset, offset + length));
+  }
+  return null;
+};
+
+export const parseIccProfile = (bytes: Uint8Array): IccProfileInfo | null => {
+  if (bytes.length < HEADER_SIZE + 4 || signature(bytes, 36) !== 'acsp') return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tags = readTagTable(view);
+  const description = readDescription(bytes, view, tags) ?? 'Unnamed profile';
+
+  // Only matrix RGB profiles are classified; anything else (LUT based, grey,
+  // CMYK) is left to the browser and processed as sRGB
+  const red = readXyzTag(view, tags, 'rXYZ');
+  const green = readXyzTag(view, tags, 'gXYZ');
+  const blue = readXyzTag(view, tags, 'bXYZ');
+  if (signature(bytes, 16) !== 'RGB ' || !red || !green || !blue) {
+    return { description, wideGamut: false };
+  }
+
+  const ratio = gamutArea({ red, green, blue }) / gamutArea(PRIMARIES.srgb);
+  return { description, wideGamut: ratio > WIDE_GAMUT_RATIO };
+};
+
+// --- Converting ---
+
+// Row-major 3x3
+type Matrix = number[];
+
+type MatrixProfile = {
+  // RGB to D50 XYZ
+  toXyz: Matrix;
+  // 8-bit code to linear light, per channel
+  curves: [Float32Array, Float32Array, Float32Array];
+};
+
+const primariesMatrix = ({ red, green, blue }: RgbPrimaries): Matrix => [
+  red[0], green[0], blue[0],
+  red[1], green[1], blue[1],
+  red[2], green[2], blue[2],
+];
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map((_, index) => {
+    const row = Math.floor(index / 3);
+    const column = index % 3;
+    return a[row * 3] * b[column] + a[row * 3 + 1] * b[3 + column] + a[row * 3 + 2] * b[6 + column];
+  });
+
+const invert = ([a, b, c, d, e, f, g, h, i]: Matrix): Matrix => {
+  const determinant = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    e * i - f * h, c * h - b * i, b * f - c * e,
+    f * g - d * i, a * i - c * g, c * d - a * f,
+    d * h - e * g, b * g - a * h, a * e - b * d,
+  ].map(value => value / determinant);
+};
+
+// Parameter counts of the parametric curve types 0-4
+const PARAMETRIC_COUNTS = [1, 3, 4, 5, 7];
+
+// 'curv' (identity, gamma or sampled table) or 'para' as a 256-entry table
+const readCurve = (bytes: Uint8Array, view: DataView, tags: TagTable, name: string): Float32Array | null => {
+  const tag = tags.get(name);
+  if (!tag || tag.size < 12) return null;
+  const type = signature(bytes, tag.offset);
+  const table = new Float32Array(256);
+
+  if (type === 'curv') {
+    const count = view.getUint32(tag.offset + 8);
+    if (tag.size < 12 + count * 2) return null;
+    const entry = (index: number) => view.getUint16(tag.offset + 12 + index * 2);
+    for (let code = 0; code < 256; code++) {
+      const x = code / 255;
+      if (count === 0) {
+        table[code] = x;
+      } else if (count === 1) {
+        table[code] = x ** (entry(0) / 256);
+      } else {
+        const position = x * (count - 1);
+        const index = Math.min(count - 2, Math.floor(position));
+        table[code] = (entry(index) + (entry(index + 1) - entry(index)) * (position - index)) / 65535;
+      }
+    }
+    return table;
+  }
+
+  if (type === 'para') {
+    const functionType = view.getUint16(tag.offset + 8);
+    const count = PARAMETRIC_COUNTS[functionType];
+    if (count === undefined || tag.size < 12 + count * 4) return null;
+    const params = Array.from({ length: count }, (_, index) => view.getInt32(tag.offset + 12 + index * 4) / 65536);
+
+    // Every type as the general one: (a x + b)^g + e above d, c x + f below
+    const [g, a = 1, b = 0] = params;
+    const [c, d, e, f] = functionType === 2
+      ? [0, -b / a, params[3], params[3]]
+      : functionType >= 3
+        ? [params[3], params[4], params[5] ?? 0, params[6] ?? 0]
+        : [0, -b / a, 0, 0];
+    for (let code = 0; code < 256; code++) {
+      const x = code / 255;
+      table[code] = Math.max(0, x >= d ? (a * x + b) ** g + e : c * x + f);
+    }
+    return table;
+  }
+  return null;
+};
+
+const readMatrixProfile = (bytes: Uint8Array): MatrixProfile | null => {
+  if (bytes.length < HEADER_SIZE + 4 || signature(bytes, 36) !== 'acsp' || signature(bytes, 16) !== 'RGB ') return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tags = readTagTable(view);
+  const red = readXyzTag(view, tags, 'rXYZ');
+  const green = readXyzTag(view, tags, 'gXYZ');
+  const blue = readXyzTag(view, tags, 'bXYZ');
+  const curves = ['rTRC', 'gTRC', 'bTRC'].map(name => readCurve(bytes, view, tags, name));
+  if (!red || !green || !blue || curves.some(curve => !curve)) return null;
+
+  return {
+    toXyz: primariesMatrix({ red, green, blue }),
+    curves: curves as MatrixProfile['curves'],
+  };
+};
+
+// Differences below these are rounding between writers of the same profile
+const MATRIX_TOLERANCE = 0.01;
+const CURVE_TOLERANCE = 0.002;
+
+// Convert decoded 8-bit pixels from their embedded profile to sRGB, or
+// Display P3 for wide gamut profiles, tagged with that space. Pixels whose
+// profile can't be converted (LUT based, grey, CMYK) are returned as they
+// are, and treated as sRGB like the browser would.
+export const convertFromIccProfile = (imageData: ImageData, profile: Uint8Array): ImageData => {
+  const info = parseIccProfile(profile);
+  const source = info && readMatrixProfile(profile);
+  if (!source) return imageData;
+
+  const colorSpace: PredefinedColorSpace = info.wideGamut ? 'display-p3' : 'srgb';
+  const matrix = multiply(invert(primariesMatrix(PRIMARIES[colorSpace])), source.toXyz);
+  const { data, width, height } = imageData;
+
+  // Already the target space (sRGB or Display P3 profiles): only the tag changes
+  const sameMatrix = matrix.every((value, index) => Math.abs(value - (index % 4 === 0 ? 1 : 0)) < MATRIX_TOLERANCE);
+  const sameCurves = source.curves.every(curve =>
+    curve.every((value, code) => Math.abs(value - srgbToLinear(code)) < CURVE_TOLERANCE)
+  );
+  if (sameMatrix && sameCurves) return new ImageData(data, width, height, { colorSpace });
+
+  const [red, green, blue] = source.curves;
+  const output = new ImageData(width, height, { colorSpace });
+  for (let i = 0; i < data.length; i += 4) {
+    const r = red[data[i]];
+    const g = green[data[i + 1]];
+    const b = blue[data[i + 2]];
+    output.data[i] = Math.round(255 * encodeSrgb(matrix[0] * r + matrix[1] * g + matrix[2] * b));
+    output.data[i + 1] = Math.round(255 * encodeSrgb(matrix[3] * r + matrix[4] * g + matrix[5] * b));
+    output.data[i + 2] = Math.round(255 * encodeSrgb(matrix[6] * r + matrix[7] * g + matrix[8] * b));
+    output.data[i + 3] = data[i + 3];
+  }
+  return output;
+};
+
+// --- Writing ---
+
+const s15Fixed16 = (values: number[]) => {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => view.setInt32(index * 4, Math.round(value * 65536)));
+  return bytes;
+};
+
+const typed = (type: string, body: Uint8Array) => {
+  const bytes = new Uint8Array(8 + body.length);
+  bytes.set(new TextEncoder().encode(type));
+  bytes.set(body, 8);
+  return bytes;
+};
+
+const xyzTag = (xyz: Xyz) => typed('XYZ ', s15Fixed16(xyz));
+
+const textTag = (text: string) => {
+  const body = new Uint8Array(20 + text.length * 2);
+  const view = new DataView(body.buffer);
+  // One en-US record, its UTF-16BE text right after the record table
+  view.setUint32(0, 1);
+  view.setUint32(4, 12);
+  body.set(new TextEncoder().encode('enUS'), 8);
+  view.setUint32(12, text.length * 2);
+  view.setUint32(16, 28);
+  for (let index = 0; index < text.length; index++) {
+    view.setUint16(20 + index * 2, text.charCodeAt(index));
+  }
+  return typed('mluc', body);
+};
+
+const curveTag = () => {
+  const body = new Uint8Array(4 + SRGB_CURVE.length * 4);
+  new DataView(body.buffer).setUint16(0, 3);
+  body.set(s15Fixed16(SRGB_CURVE), 4);
+  return typed('para', body);
+};
+
+const profileCache = new Map<PredefinedColorSpace, Uint8Array>();
+
+// ICC v4 display profile for one of the canvas colour spaces
+export const createIccProfile = (colorSpace: PredefinedColorSpace): Uint8Array => {
+  const cached = profileCache.get(colorSpace);
+  if (cached) return cached;
+
+  const primaries = PRIMARIES[colorSpace];
+  const curve = curveTag();
+  const tags: [string, Uint8Array][] = [
+    ['desc', textTag(PROFILE_NAMES[colorSpace])],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(D50)],
+    ['chad', typed('sf32', s15Fixed16(CHROMATIC_ADAPTATION))],
+    ['rXYZ', xyzTag(primaries.red)],
+    ['gXYZ', xyzTag(primaries.green)],
+    ['bXYZ', xyzTag(primaries.blue)],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve],
+  ];
+
+  // Tag data follows the table, each element 4-byte aligned; the three TRCs share one
+  const tableEnd = HEADER_SIZE + 4 + tags.length * 12;
+  const offsets = new Map<Uint8Array, number>();
+  let size = tableEnd;
+  for (const [, data] of tags) {
+    if (offsets.has(data)) continue;
+    offsets.set(data, size);
+    size += Math.ceil(data.length / 4) * 4;
+  }
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  const encoder = new TextEncoder();
+  view.setUint32(0, size);
+  view.setUint32(8, 0x04300000);
+  bytes.set(encoder.encode('mntrRGB XYZ '), 12);
+  bytes.set(encoder.encode('acsp'), 36);
+  bytes.set(s15Fixed16(D50), 68);
+
+  view.setUint32(HEADER_SIZE, tags.length);
+  tags.forEach(([name, data], index) => {
+    const at = HEADER_SIZE + 4 + index * 12;
+    const offset = offsets.get(data) ?? 0;
+    bytes.set(encoder.encode(name), at);
+    view.setUint32(at + 4, offset);
+    view.setUint32(at + 8, data.length);
+    bytes.set(data, offset);
+  });
+
+  profileCache.set(colorSpace, bytes);
+  return bytes;
+};
@@ -0,0 +1,205 @@
+import { decodeSrgb, encodeSrgb, encodeSrgbUnclamped, linearLuminance, srgbToLinear } from './color';
+
+// The working buffer every pipeline step runs on: RGBA as 32-bit floats in
+// linear light. Colour channels aren't clamped, so a highlight pushed past 1
+// keeps its gradient through the steps after it instead of flattening to
+// 255; alpha is straight, in [0, 1]. Pixels are gamma encoded and quantized
+// only at export.
+
+export type LinearImage = {
+  data: Float32Array;
+  width: number;
+  height: number;
+};
+
+export const createLinearImage = (width: number, height: number): LinearImage => {
+  return { data: new Float32Array(width * height * 4), width, height };
+};
+
+// 8-bit image data or the working buffer, for code that handles both (tiling,
+// resampling) because 8-bit operations tile and resize their inputs too
+export type PixelBuffer = ImageData | LinearImage;
+
+export const isLinearImage = (image: PixelBuffer): image is LinearImage => image.data instanceof Float32Array;
+
+// A blank buffer of the same kind
+export const createPixelBuffer = <T extends PixelBuffer>(like: T, width: number, height: number): T => {
+  return (isLinearImage(like) ? createLinearImage(width, height) : new ImageData(width, height)) as T;
+};
+
+export const linearFromImageData = (imageData: ImageData): LinearImage => {
+  const { data, width, height } = imageData;
+  const image = createLinearImage(width, height);
+  for (let i = 0; i < data.length; i += 4) {
+    image.data[i] = srgbToLinear(data[i]);
+    image.data[i + 1] = srgbToLinear(data[i + 1]);
+    image.data[i + 2] = srgbToLinear(data[i + 2]);
+    image.data[i + 3] = data[i + 3] / 255;
+  }
+  return image;
+};
+
+// Filters tuned on 8-bit pixels (thresholds, noise levels, luminance
+// weights) keep working on the 0-255 sRGB-encoded scale through these,
+// without the rounding or the clamping at 255. Values still can't go below
+// black: there is no light to take away.
+export const toPerceptual = (value: number): number => 255 * encodeSrgbUnclamped(value);
+
+export const fromPerceptual = (value: number): number => decodeSrgb(Math.max(0, value) / 255);
+
+// Rec. 601 luminance on the perceptual scale, as analysis.ts computes it for 8-bit images
+export const perceptualLuminance = ({ data, width, height }: LinearImage): Float32Array => {
+  const luminance = new Float32Array(width * height);
+  for (let pixel = 0, i = 0; pixel < luminance.length; pixel++, i += 4) {
+    luminance[pixel] = 0.299 * toPerceptual(data[i]) + 0.587 * toPerceptual(data[i + 1]) + 0.114 * toPerceptual(data[i + 2]);
+  }
+  return luminance;
+};
+
+const quantize = (value: number) => Math.round(255 * encodeSrgb(value));
+
+// Run an operation that only understands 8-bit image data on the working
+// buffer. That's the model boundary (upscaler and style transfer inference,
+// whose tensors are built from 8-bit pixels); pixel filters work on the
+// buffer itself. When it keeps the size, whatever the 8-bit copy lost (headroom
+// above 1, detail below one code value) is added back to its result, so
+// pixels it leaves alone come back exactly as they went in.
+export const processAsImageData = async (
+  image: LinearImage,
+  process: (imageData: ImageData) => ImageData | Promise<ImageData>
+): Promise<LinearImage> => {
+  const { data, width, height } = image;
+  const input = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    input[i] = quantize(data[i]);
+    input[i + 1] = quantize(data[i + 1]);
+    input[i + 2] = quantize(data[i + 2]);
+    input[i + 3] = Math.round(data[i + 3] * 255);
+  }
+
+  const processed = await process(new ImageData(input, width, height));
+  const output = linearFromImageData(processed);
+  if (processed.width !== width || processed.height !== height) return output;
+
+  // The input copy may have been modified in place, so the loss is recomputed from the source
+  for (let i = 0; i < data.length; i += 4) {
+    output.data[i] += data[i] - srgbToLinear(quantize(data[i]));
+    output.data[i + 1] += data[i + 1] - srgbToLinear(quantize(data[i + 1]));
+    output.data[i + 2] += data[i + 2] - srgbToLinear(quantize(data[i + 2]));
+    output.data[i + 3] += data[i + 3] - Math.round(data[i + 3] * 255) / 255;
+  }
+  return output;
+};
+
+// Linear-light RGB conversions between the working spaces (both D65)
+const COLOR_SPACE_MATRICES: Record<string, number[]> = {
+  'srgb>display-p3': [
+    0.8224621, 0.177538, 0,
+    0.0331941, 0.9668058, 0,
+    0.0170827, 0.0723974, 0.9105199,
+  ],
+  'display-p3>srgb': [
+    1.2249401, -0.2249404, 0,
+    -0.0420569, 1.0420571, 0,
+    -0.0196376, -0.0786361, 1.0982735,
+  ],
+};
+
+// Reinterpret the pixels as being in one space and convert them to another.
+// Colours outside the target gamut come out negative or above 1 and are
+// fitted when encoding.
+export const convertLinearColorSpace = (
+  image: LinearImage,
+  from: PredefinedColorSpace,
+  to: PredefinedColorSpace
+): LinearImage => {
+  if (from === to) return image;
+
+  const m = COLOR_SPACE_MATRICES[`${from}>${to}`];
+  const output = createLinearImage(image.width, image.height);
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    output.data[i] = m[0] * r + m[1] * g + m[2] * b;
+    output.data[i + 1] = m[3] * r + m[4] * g + m[5] * b;
+    output.data[i + 2] = m[6] * r + m[7] * g + m[8] * b;
+    output.data[i + 3] = data[i + 3];
+  }
+  return output;
+};
+
+// Share of the way from grey to a channel value that still fits in [0, 1]
+const fitFactor = (value: number, grey: number): number => {
+  if (value > 1) return (1 - grey) / (value - grey);
+  if (value < 0) return grey / (grey - value);
+  return 1;
+};
+
+// Luminance where the highlight shoulder starts
+const SHOULDER_KNEE = 0.75;
+
+// Maps the working buffer's colours into [0, 1] for encoding. When steps
+// pushed highlights past white, luminance above the knee is rolled off so the
+// brightest pixel lands exactly on white (extended Reinhard), keeping the
+// gradient in a bright sky instead of flattening it; images that stay in range
+// are left alone. Channels still out of range then pull the whole colour
+// towards its grey rather than being clipped one by one, which would shift
+// hues: a saturated sky turns pale blue, not cyan-white.
+const createDisplayFit = ({ data }: LinearImage) => {
+  let peak = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    peak = Math.max(peak, linearLuminance(data[i], data[i + 1], data[i + 2]));
+  }
+  const white = (peak - SHOULDER_KNEE) / (1 - SHOULDER_KNEE);
+
+  return (r: number, g: number, b: number, out: Float32Array) => {
+    const luminance = linearLuminance(r, g, b);
+    if (peak > 1 && luminance > SHOULDER_KNEE) {
+      const x = (luminance - SHOULDER_KNEE) / (1 - SHOULDER_KNEE);
+      const scale = (SHOULDER_KNEE + (1 - SHOULDER_KNEE) * x * (1 + x / (white * white)) / (1 + x)) / luminance;
+      r *= scale;
+      g *= scale;
+      b *= scale;
+    }
+
+    const grey = Math.min(1, Math.max(0, linearLuminance(r, g, b)));
+    const t = Math.min(fitFactor(r, grey), fitFactor(g, grey), fitFactor(b, grey));
+    out[0] = grey + (r - grey) * t;
+    out[1] = grey + (g - grey) * t;
+    out[2] = grey + (b - grey) * t;
+  };
+};
+
+// Gamma encode the working buffer to 8-bit image data, tagged with the space its pixels are in
+export const encodeLinearImage = (image: LinearImage, colorSpace: PredefinedColorSpace = 'srgb'): ImageData => {
+  const { data, width, height } = image;
+  const output = new Uint8ClampedArray(data.length);
+  const fitToDisplay = createDisplayFit(image);
+  const fitted = new Float32Array(3);
+  for (let i = 0; i < data.length; i += 4) {
+    fitToDisplay(data[i], data[i + 1], data[i + 2], fitted);
+    output[i] = quantize(fitted[0]);
+    output[i + 1] = quantize(fitted[1]);
+    output[i + 2] = quantize(fitted[2]);
+    output[i + 3] = Math.round(data[i + 3] * 255);
+  }
+  return new ImageData(output, width, height, { colorSpace });
+};
+
+// The same at 16 bits per channel, for PNG
+export const encodeLinearImage16 = (image: LinearImage): Uint16Array => {
+  const { data } = image;
+  const output = new Uint16Array(data.length);
+  const fitToDisplay = createDisplayFit(image);
+  const fitted = new Float32Array(3);
+  for (let i = 0; i < data.length; i += 4) {
+    fitToDisplay(data[i], data[i + 1], data[i + 2], fitted);
+    output[i] = Math.round(65535 * encodeSrgb(fitted[0]));
+    output[i + 1] = Math.round(65535 * encodeSrgb(fitted[1]));
+    output[i + 2] = Math.round(65535 * encodeSrgb(fitted[2]));
+    output[i + 3] = Math.round(Math.min(1, Math.max(0, data[i + 3])) * 65535);
+  }
+  return output;
+};
@@ -0,0 +1,125 @@
+import { ColorFunction, createLut, DEFAULT_LUT_SIZE, Lut3D } from './lut';
+
+// Colour grades for the Style Transfer step. Bundled looks are generated on
+// first use; looks the user imports from .cube files are registered at runtime
+// (in the worker too, see the 'registerLook' request).
+
+export type Look = {
+  id: string;
+  name: string;
+  // Imported by the user rather than bundled
+  custom: boolean;
+  getLut: () => Lut3D;
+};
+
+// What gets sent to the worker for an imported look
+export type CustomLook = {
+  id: string;
+  name: string;
+  lut: Lut3D;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = clamp01((value - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+};
+
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// Gentle S-curve around mid grey; amount 0 is the identity
+const contrastCurve = (value: number, amount: number) => {
+  const curved = value < 0.5 ? 2 * value * value : 1 - 2 * (1 - value) * (1 - value);
+  return value + (curved - value) * amount;
+};
+
+const saturate = (r: number, g: number, b: number, amount: number): [number, number, number] => {
+  const y = luma(r, g, b);
+  return [y + (r - y) * amount, y + (g - y) * amount, y + (b - y) * amount];
+};
+
+// Teal shadows and warm highlights. The bands blend smoothly into each other,
+// unlike hard luminance thresholds which leave visible steps.
+const tealOrange: ColorFunction = (r, g, b) => {
+  const y = luma(r, g, b);
+  const shadows = 1 - smoothstep(0.1, 0.55, y);
+  const highlights = smoothstep(0.45, 0.9, y);
+  const gain = (shadow: number, highlight: number) => 1 + (shadow - 1) * shadows + (highlight - 1) * highlights;
+
+  return [
+    contrastCurve(r * gain(0.9, 1.12), 0.2),
+    contrastCurve(g * gain(1.05, 1.03), 0.2),
+    contrastCurve(b * gain(1.18, 0.88), 0.2),
+  ];
+};
+
+const warmFilm: ColorFunction = (r, g, b) => {
+  const [sr, sg, sb] = saturate(r, g, b, 0.9);
+  // Lifted blacks and a soft shoulder like print film
+  const tone = (value: number) => 0.04 + 0.92 * (1 - Math.exp(-2.2 * value)) / (1 - Math.exp(-2.2));
+  return [tone(sr) + 0.025, tone(sg) + 0.005, tone(sb) - 0.03];
+};
+
+const coolMatte: ColorFunction = (r, g, b) => {
+  const [sr, sg, sb] = saturate(r, g, b, 0.8);
+  const tone = (value: number) => 0.08 + 0.86 * value;
+  return [tone(sr) - 0.02, tone(sg), tone(sb) + 0.035];
+};
+
+const bleachBypass: ColorFunction = (r, g, b) => {
+  const [sr, sg, sb] = saturate(r, g, b, 0.45);
+  return [contrastCurve(sr, 0.6), contrastCurve(sg, 0.6), contrastCurve(sb, 0.6)];
+};
+
+const mono: ColorFunction = (r, g, b) => {
+  const y = contrastCurve(luma(r, g, b), 0.35);
+  return [y, y, y];
+};
+
+const bundledLook = (id: string, name: string, transform: ColorFunction): Look => {
+  let lut: Lut3D | null = null;
+  return {
+    id,
+    name,
+    custom: false,
+    getLut: () => {
+      lut ??= createLut(name, DEFAULT_LUT_SIZE, (r, g, b) =>
+        transform(r, g, b).map(clamp01) as [number, number, number]
+      );
+      return lut;
+    },
+  };
+};
+
+const looks = new Map<string, Look>(
+  [
+    bundledLook('teal-orange', 'Teal & Orange', tealOrange),
+    bundledLook('warm-film', 'Warm Film', warmFilm),
+    bundledLook('cool-matte', 'Cool Matte', coolMatte),
+    bundledLook('bleach-bypass', 'Bleach Bypass', bleachBypass),
+    bundledLook('mono', 'Mono', mono),
+  ].map(look => [look.id, look])
+);
+
+export const DEFAULT_LOOK = 'teal-orange';
+
+export const registerCustomLook = ({ id, name, lut }: CustomLook) => {
+  // Re-importing a look replaces it
+  looks.set(id, { id, name, custom: true, getLut: () => lut });
+};
+
+export const getLook = (id: string): Look | undefined => {
+  return looks.get(id);
+};
+
+// Bundled looks first, then imported ones in import order
+export const listLooks = (): Look[] => {
+  return Array.from(looks.values());
+};
+
+export const listCustomLooks = (): CustomLook[] => {
+  return listLooks()
+    .filter(look => look.custom)
+    .map(look => ({ id: look.id, name: look.name, lut: look.getLut() }));
+};
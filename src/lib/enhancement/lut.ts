@@ -0,0 +1,251 @@
+import { decodeSrgb, encodeSrgb, encodeSrgbUnclamped } from './color';
+import { createLinearImage, LinearImage } from './linear';
+
+// 3D colour lookup tables in the Adobe/Resolve .cube format. Entries are RGB
+// triples in unit range, stored red-fastest: index = r + g * size + b * size².
+// Both sides of a table are sRGB encoded, the way grading tools write them.
+
+export type Lut3D = {
+  title: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array;
+};
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+export type ColorFunction = (r: number, g: number, b: number) => [number, number, number];
+
+export const MIN_LUT_SIZE = 2;
+export const MAX_LUT_SIZE = 256;
+export const DEFAULT_LUT_SIZE = 33;
+
+const parseTriple = (parts: string[], lineNumber: number): [number, number, number] => {
+  const values = parts.map(Number);
+  if (values.length !== 3 || values.some(value => !Number.isFinite(value))) {
+    throw new Error(`Line ${lineNumber}: expected three numbers`);
+  }
+  return values as [number, number, number];
+};
+
+export const parseCubeLut = (text: string, fallbackTitle = 'Imported look'): Lut3D => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const entries: number[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const lineNumber = index + 1;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1') || title;
+        break;
+      case 'LUT_3D_SIZE':
+        size = Number(rest[0]);
+        if (!Number.isInteger(size) || size < MIN_LUT_SIZE || size > MAX_LUT_SIZE) {
+          throw new Error(`Line ${lineNumber}: LUT_3D_SIZE must be between ${MIN_LUT_SIZE} and ${MAX_LUT_SIZE}`);
+        }
+        break;
+      case 'LUT_1D_SIZE':
+        throw new Error('1D LUTs are not supported; export a 3D LUT (LUT_3D_SIZE) instead');
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(rest, lineNumber);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(rest, lineNumber);
+        break;
+      case 'LUT_3D_INPUT_RANGE': {
+        // Resolve's shorthand for a domain shared by all channels
+        const [min, max] = rest.map(Number);
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        break;
+      }
+      default:
+        if (!/^[-+.\d]/.test(keyword)) {
+          // Unknown keywords are skipped, as other readers do
+          continue;
+        }
+        entries.push(...parseTriple([keyword, ...rest], lineNumber));
+    }
+  }
+
+  if (size === 0) {
+    throw new Error('Missing LUT_3D_SIZE');
+  }
+  if (entries.length !== size ** 3 * 3) {
+    throw new Error(`Expected ${size ** 3} entries for a ${size}³ LUT, found ${entries.length / 3}`);
+  }
+  if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+    throw new Error('DOMAIN_MIN must be below DOMAIN_MAX');
+  }
+
+  return { title, size, domainMin, domainMax, table: Float32Array.from(entries) };
+};
+
+export const serializeCubeLut = (lut: Lut3D): string => {
+  const lines = [
+    `TITLE "${lut.title.replace(/"/g, "'")}"`,
+    `LUT_3D_SIZE ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(' ')}`,
+    `DOMAIN_MAX ${lut.domainMax.join(' ')}`,
+  ];
+  for (let i = 0; i < lut.table.length; i += 3) {
+    lines.push(`${lut.table[i].toFixed(6)} ${lut.table[i + 1].toFixed(6)} ${lut.table[i + 2].toFixed(6)}`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Sample a colour function on the LUT lattice
+export const createLut = (title: string, size: number, transform: ColorFunction): Lut3D => {
+  const table = new Float32Array(size ** 3 * 3);
+  let offset = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const [outR, outG, outB] = transform(r / (size - 1), g / (size - 1), b / (size - 1));
+        table[offset++] = outR;
+        table[offset++] = outG;
+        table[offset++] = outB;
+      }
+    }
+  }
+  return { title, size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table };
+};
+
+// The lattice as an image (size² × size pixels in table order), so any
+// per-pixel operation can be run on it and read back with lutFromLattice
+export const createLatticeImage = (size: number): LinearImage => {
+  const image = createLinearImage(size * size, size);
+  let offset = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        image.data[offset++] = decodeSrgb(r / (size - 1));
+        image.data[offset++] = decodeSrgb(g / (size - 1));
+        image.data[offset++] = decodeSrgb(b / (size - 1));
+        image.data[offset++] = 1;
+      }
+    }
+  }
+  return image;
+};
+
+export const lutFromLattice = (lattice: LinearImage, size: number, title: string): Lut3D => {
+  const table = new Float32Array(size ** 3 * 3);
+  for (let entry = 0; entry < size ** 3; entry++) {
+    table[entry * 3] = encodeSrgb(lattice.data[entry * 4]);
+    table[entry * 3 + 1] = encodeSrgb(lattice.data[entry * 4 + 1]);
+    table[entry * 3 + 2] = encodeSrgb(lattice.data[entry * 4 + 2]);
+  }
+  return { title, size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table };
+};
+
+// Look up one colour (unit range) and write the result into out
+export const sampleLut = (
+  lut: Lut3D,
+  r: number,
+  g: number,
+  b: number,
+  interpolation: LutInterpolation,
+  out: Float32Array
+) => {
+  const { size, table, domainMin, domainMax } = lut;
+  const last = size - 1;
+
+  const position = (value: number, channel: number) => {
+    const normalized = (value - domainMin[channel]) / (domainMax[channel] - domainMin[channel]);
+    return Math.min(last, Math.max(0, normalized * last));
+  };
+  const pr = position(r, 0);
+  const pg = position(g, 1);
+  const pb = position(b, 2);
+
+  const r0 = Math.min(last - 1, Math.floor(pr));
+  const g0 = Math.min(last - 1, Math.floor(pg));
+  const b0 = Math.min(last - 1, Math.floor(pb));
+  const fr = pr - r0;
+  const fg = pg - g0;
+  const fb = pb - b0;
+
+  const stepR = 3;
+  const stepG = size * 3;
+  const stepB = size * size * 3;
+  const c000 = r0 * stepR + g0 * stepG + b0 * stepB;
+  const c100 = c000 + stepR;
+  const c010 = c000 + stepG;
+  const c001 = c000 + stepB;
+  const c110 = c100 + stepG;
+  const c101 = c100 + stepB;
+  const c011 = c010 + stepB;
+  const c111 = c110 + stepB;
+
+  for (let channel = 0; channel < 3; channel++) {
+    const v000 = table[c000 + channel];
+    const v111 = table[c111 + channel];
+
+    if (interpolation === 'tetrahedral') {
+      // Split the cube into six tetrahedra along its main diagonal and
+      // interpolate inside the one containing the point
+      let value: number;
+      if (fr >= fg) {
+        if (fg >= fb) {
+          value = v000 + fr * (table[c100 + channel] - v000) +
+            fg * (table[c110 + channel] - table[c100 + channel]) + fb * (v111 - table[c110 + channel]);
+        } else if (fr >= fb) {
+          value = v000 + fr * (table[c100 + channel] - v000) +
+            fb * (table[c101 + channel] - table[c100 + channel]) + fg * (v111 - table[c101 + channel]);
+        } else {
+          value = v000 + fb * (table[c001 + channel] - v000) +
+            fr * (table[c101 + channel] - table[c001 + channel]) + fg * (v111 - table[c101 + channel]);
+        }
+      } else if (fb >= fg) {
+        value = v000 + fb * (table[c001 + channel] - v000) +
+          fg * (table[c011 + channel] - table[c001 + channel]) + fr * (v111 - table[c011 + channel]);
+      } else if (fb >= fr) {
+        value = v000 + fg * (table[c010 + channel] - v000) +
+          fb * (table[c011 + channel] - table[c010 + channel]) + fr * (v111 - table[c011 + channel]);
+      } else {
+        value = v000 + fg * (table[c010 + channel] - v000) +
+          fr * (table[c110 + channel] - table[c010 + channel]) + fb * (v111 - table[c110 + channel]);
+      }
+      out[channel] = value;
+    } else {
+      const x00 = v000 + (table[c100 + channel] - v000) * fr;
+      const x10 = table[c010 + channel] + (table[c110 + channel] - table[c010 + channel]) * fr;
+      const x01 = table[c001 + channel] + (table[c101 + channel] - table[c001 + channel]) * fr;
+      const x11 = table[c011 + channel] + (v111 - table[c011 + channel]) * fr;
+      const y0 = x00 + (x10 - x00) * fg;
+      const y1 = x01 + (x11 - x01) * fg;
+      out[channel] = y0 + (y1 - y0) * fb;
+    }
+  }
+};
+
+// Colours outside the table's domain take the value at its edge
+export const applyLut = (image: LinearImage, lut: Lut3D, interpolation: LutInterpolation): LinearImage => {
+  const { data, width, height } = image;
+  const output = createLinearImage(width, height);
+  const sample = new Float32Array(3);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = encodeSrgbUnclamped(data[i]);
+    const g = encodeSrgbUnclamped(data[i + 1]);
+    const b = encodeSrgbUnclamped(data[i + 2]);
+    sampleLut(lut, r, g, b, interpolation, sample);
+    output.data[i] = decodeSrgb(sample[0]);
+    output.data[i + 1] = decodeSrgb(sample[1]);
+    output.data[i + 2] = decodeSrgb(sample[2]);
+    output.data[i + 3] = data[i + 3];
+  }
+
+  return output;
+};
@@ -0,0 +1,228 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_METADATA_POLICY,
+  embedIccProfile,
+  embedResolution,
+  ExifData,
+  ImageMetadata,
+  pngChunk,
+  readImageMetadata,
+  writeImageMetadata,
+} from './metadata';
+
+const fixture = (name: string) => new Uint8Array(readFileSync(new URL(`../../test/fixtures/${name}`, import.meta.url)));
+
+const SIZE = { width: 4, height: 3 };
+
+const concat = (...parts: (Uint8Array | number[])[]) => new Uint8Array(parts.flatMap(part => Array.from(part)));
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const uint32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+// Smallest files the container readers and writers accept: headers, no real pixels
+const containers: Record<string, () => Uint8Array> = {
+  jpeg: () => concat(
+    [0xff, 0xd8],
+    [0xff, 0xe0, 0x00, 0x10], ascii('JFIF\0'), [1, 1, 0, 0, 1, 0, 1, 0, 0],
+    [0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]
+  ),
+  png: () => {
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, SIZE.width);
+    view.setUint32(4, SIZE.height);
+    header.set([8, 6], 8);
+    return concat(
+      [0x89], ascii('PNG\r\n\x1a\n'),
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', new Uint8Array(0)),
+      pngChunk('IEND', new Uint8Array(0))
+    );
+  },
+  webp: () => {
+    const body = concat(ascii('WEBP'), ascii('VP8L'), [6, 0, 0, 0], [0x2f, 0, 0, 0, 0, 0]);
+    return concat(ascii('RIFF'), [body.length, 0, 0, 0], body);
+  },
+};
+
+// ISO base media box, and a full box with version and flags
+const box = (type: string, ...parts: (Uint8Array | number[])[]) => {
+  const body = concat(...parts);
+  return concat(uint32(body.length + 8), ascii(type), body);
+};
+const fullBox = (type: string, version: number, ...parts: (Uint8Array | number[])[]) => box(type, [version, 0, 0, 0], ...parts);
+
+// HEIF with an hvc1 primary image (item 1), an EXIF item (2) and an XMP item
+// (3) located in the file, and a colour property of the primary image
+const createHeif = (exif: Uint8Array, xmp: string, colr: Uint8Array) => {
+  const xmpBytes = new Uint8Array(ascii(xmp));
+  const exifItem = concat([0, 0, 0, 0], exif);
+  const meta = (mdatOffset: number) => fullBox('meta', 0,
+    fullBox('hdlr', 0, [0, 0, 0, 0], ascii('pict'), new Uint8Array(13)),
+    fullBox('pitm', 0, [0, 1]),
+    fullBox('iinf', 0, [0, 3],
+      fullBox('infe', 2, [0, 1, 0, 0], ascii('hvc1'), [0]),
+      fullBox('infe', 2, [0, 2, 0, 0], ascii('Exif'), [0]),
+      fullBox('infe', 2, [0, 3, 0, 0], ascii('mime'), [0], ascii('application/rdf+xml'), [0])),
+    // 4-byte offsets and lengths, no base offset
+    fullBox('iloc', 0, [0x44, 0x00, 0, 2],
+      [0, 2, 0, 0, 0, 1], uint32(mdatOffset), uint32(exifItem.length),
+      [0, 3, 0, 0, 0, 1], uint32(mdatOffset + exifItem.length), uint32(xmpBytes.length)),
+    box('iprp',
+      box('ipco', box('ispe', new Uint8Array(12)), box('colr', colr)),
+      fullBox('ipma', 0, [0, 0, 0, 1], [0, 1, 2, 1, 0x82]))
+  );
+
+  const ftyp = box('ftyp', ascii('heic'), [0, 0, 0, 0], ascii('mif1heic'));
+  const headerLength = ftyp.length + meta(0).length + 8;
+  return concat(ftyp, meta(headerLength), box('mdat', exifItem, xmpBytes));
+};
+
+describe('HEIF metadata', () => {
+  const exif = () => {
+    const bytes = new Uint8Array(26);
+    const view = new DataView(bytes.buffer);
+    bytes.set(ascii('MM'));
+    view.setUint16(2, 42);
+    view.setUint32(4, 8);
+    // One entry: Orientation 6
+    view.setUint16(8, 1);
+    view.setUint16(10, 0x0112);
+    view.setUint16(12, 3);
+    view.setUint32(14, 1);
+    view.setUint16(18, 6);
+    return bytes;
+  };
+  const xmp = '<x:xmpmeta xmlns:x="adobe:ns:meta/"/>';
+
+  it('reads EXIF, XMP and an embedded ICC profile', async () => {
+    const profile = fixture('display-p3-v4.icc');
+    const metadata = await readImageMetadata(createHeif(exif(), xmp, concat(ascii('prof'), profile)));
+
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.xmp).toBe(xmp);
+    expect(metadata.icc?.data).toEqual(profile);
+    expect(metadata.icc?.info).toEqual({ description: 'Display P3', wideGamut: true });
+  });
+
+  it('stands in a Display P3 profile for nclx P3 primaries', async () => {
+    // Primaries 12 (P3), transfer 13 (sRGB), matrix 6, full range
+    const nclx = concat(ascii('nclx'), [0, 12, 0, 13, 0, 6, 0x80]);
+    const metadata = await readImageMetadata(createHeif(exif(), xmp, nclx));
+
+    expect(metadata.icc?.info).toEqual({ description: 'Display P3', wideGamut: true });
+    expect(metadata.summary.colorProfile).toBe('Display P3');
+  });
+});
+
+const profiles = ['srgb-v2.icc', 'display-p3-v4.icc', 'adobe-rgb-1998-v2.icc'];
+
+describe('ICC profile round trip', () => {
+  for (const [format, createContainer] of Object.entries(containers)) {
+    for (const name of profiles) {
+      it(`embeds ${name} in ${format} and reads it back unchanged`, async () => {
+        const profile = fixture(name);
+        const bytes = await embedIccProfile(createContainer(), profile, SIZE);
+        const metadata = await readImageMetadata(bytes);
+
+        expect(metadata.icc?.data).toEqual(profile);
+        expect(metadata.summary.colorProfile).toBe(metadata.icc?.info.description);
+      });
+    }
+
+    it(`replaces the profile already in a ${format} file`, async () => {
+      const withSrgb = await embedIccProfile(createContainer(), fixture('srgb-v2.icc'), SIZE);
+      const withP3 = await embedIccProfile(withSrgb, fixture('display-p3-v4.icc'), SIZE);
+
+      expect((await readImageMetadata(withP3)).icc?.info).toEqual({ description: 'Display P3', wideGamut: true });
+    });
+  }
+
+  it('splits profiles over 64 KB across JPEG segments and joins them again', async () => {
+    const profile = new Uint8Array(150_000);
+    profile.set(fixture('adobe-rgb-1998-v2.icc'));
+    const bytes = await embedIccProfile(containers.jpeg(), profile, SIZE);
+    const metadata = await readImageMetadata(bytes);
+
+    expect(metadata.icc?.data).toEqual(profile);
+    expect(metadata.icc?.info.description).toBe('Adobe RGB (1998)');
+  });
+});
+
+describe('EXIF colour space', () => {
+  // Little-endian EXIF whose sub-IFD claims sRGB, as most cameras write it
+  const exif: ExifData = {
+    littleEndian: true,
+    ifd0: [{ tag: 0x0110, type: 2, count: 6, value: new Uint8Array(ascii('Model\0')) }],
+    exif: [{ tag: 0xa001, type: 3, count: 1, value: new Uint8Array([1, 0]) }],
+    gps: [],
+  };
+  const metadata: ImageMetadata = {
+    exif,
+    xmp: null,
+    icc: null,
+    orientation: 1,
+    summary: { hasLocation: false },
+  };
+
+  const writtenColorSpace = async (colorSpace: PredefinedColorSpace) => {
+    const bytes = await writeImageMetadata(containers.jpeg(), metadata, DEFAULT_METADATA_POLICY, SIZE, colorSpace);
+    const entry = (await readImageMetadata(bytes)).exif?.exif.find(candidate => candidate.tag === 0xa001);
+    return entry && new DataView(entry.value.buffer, entry.value.byteOffset).getUint16(0, true);
+  };
+
+  it('marks Display P3 output as uncalibrated', async () => {
+    expect(await writtenColorSpace('display-p3')).toBe(0xffff);
+  });
+
+  it('keeps sRGB output tagged as sRGB', async () => {
+    expect(await writtenColorSpace('srgb')).toBe(1);
+  });
+});
+
+describe('Print resolution', () => {
+  const rational = (exif: ExifData | null | undefined, tag: number) => {
+    const entry = exif?.ifd0.find(candidate => candidate.tag === tag);
+    if (!entry) return undefined;
+    const view = new DataView(entry.value.buffer, entry.value.byteOffset);
+    return view.getUint32(0, exif?.littleEndian) / view.getUint32(4, exif?.littleEndian);
+  };
+
+  it('sets the JFIF density of a JPEG in dots per inch', () => {
+    const bytes = embedResolution(containers.jpeg(), 300, SIZE);
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    // Only one APP0, with units 1 (inches) and 300 x 300
+    expect(bytes.filter((byte, index) => byte === 0xff && bytes[index + 1] === 0xe0)).toHaveLength(1);
+    expect(bytes[13]).toBe(1);
+    expect([view.getUint16(14), view.getUint16(16)]).toEqual([300, 300]);
+  });
+
+  it('adds a pHYs chunk to a PNG in pixels per metre', () => {
+    const bytes = embedResolution(embedResolution(containers.png(), 150, SIZE), 300, SIZE);
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    // Right after the signature and IHDR, replacing the first one
+    expect(String.fromCharCode(...bytes.subarray(37, 41))).toBe('pHYs');
+    expect([view.getUint32(41), view.getUint32(45), bytes[49]]).toEqual([11811, 11811, 1]);
+    expect(bytes.length).toBe(containers.png().length + 21);
+  });
+
+  it('writes EXIF resolution tags into a WebP', async () => {
+    const { exif } = await readImageMetadata(embedResolution(containers.webp(), 300, SIZE));
+    expect(rational(exif, 0x011a)).toBe(300);
+    expect(rational(exif, 0x011b)).toBe(300);
+  });
+
+  it("overrides the source's EXIF resolution with the print resolution", async () => {
+    const metadata: ImageMetadata = {
+      exif: { littleEndian: false, ifd0: [], exif: [], gps: [] },
+      xmp: null,
+      icc: null,
+      orientation: 1,
+      summary: { hasLocation: false },
+    };
+    const bytes = await writeImageMetadata(containers.jpeg(), metadata, DEFAULT_METADATA_POLICY, SIZE, 'srgb', 600);
+    const { exif } = await readImageMetadata(bytes);
+    expect(rational(exif, 0x011a)).toBe(600);
+    expect(rational(exif, 0x011b)).toBe(600);
+  });
+});
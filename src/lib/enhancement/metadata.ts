@@ -0,0 +1,988 @@
+// EXIF, XMP and ICC metadata: read from the uploaded JPEG, PNG, WebP, TIFF/DNG or HEIC, and
+// written back into the encoded result (EXIF and XMP according to a
+// MetadataPolicy, the ICC profile of whatever space the output is in).
+//
+// The pixels are decoded upright (see decodeImage in imageEnhancement.ts),
+// so the written Orientation is always 1, and tags describing the old pixels
+// (thumbnail, strip offsets, maker notes with internal offsets) are dropped.
+
+import { createIccProfile, IccProfileInfo, parseIccProfile } from './icc';
+
+export type IfdEntry = {
+  tag: number;
+  type: number;
+  count: number;
+  // Raw value bytes, in the byte order of the EXIF block they came from
+  value: Uint8Array;
+};
+
+export type ExifData = {
+  littleEndian: boolean;
+  ifd0: IfdEntry[];
+  exif: IfdEntry[];
+  gps: IfdEntry[];
+};
+
+export type MetadataSummary = {
+  camera?: string;
+  takenAt?: string;
+  copyright?: string;
+  colorProfile?: string;
+  hasLocation: boolean;
+};
+
+export type ImageMetadata = {
+  exif: ExifData | null;
+  xmp: string | null;
+  // Embedded colour profile, when it could be parsed
+  icc: { info: IccProfileInfo; data: Uint8Array } | null;
+  // EXIF orientation of the source (1-8, 1 is upright)
+  orientation: number;
+  summary: MetadataSummary;
+};
+
+export type MetadataPolicy = {
+  // Copy the source's EXIF and XMP into the output
+  preserve: boolean;
+  // Leave out GPS coordinates and place names
+  stripLocation: boolean;
+};
+
+export const DEFAULT_METADATA_POLICY: MetadataPolicy = {
+  preserve: true,
+  stripLocation: true,
+};
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  xResolution: 0x011a,
+  yResolution: 0x011b,
+  resolutionUnit: 0x0128,
+  software: 0x0131,
+  dateTime: 0x0132,
+  copyright: 0x8298,
+  exifPointer: 0x8769,
+  gpsPointer: 0x8825,
+  dateTimeOriginal: 0x9003,
+  colorSpace: 0xa001,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  interopPointer: 0xa005,
+} as const;
+
+// Tags that point at other data in the source file, or describe its pixel
+// layout, and would be wrong once copied
+const DROPPED_TAGS = new Set([
+  0x0100, 0x0101, 0x0102, 0x0103, 0x0106, 0x0115, 0x0116, 0x011c, 0x013d, 0x0152, // TIFF image structure
+  0x0111, 0x0117, // strip offsets and byte counts
+  0x0144, 0x0145, // tile offsets and byte counts
+  0x014a, // sub-IFDs
+  0x0201, 0x0202, // JPEG thumbnail
+  0x02bc, // XMP packet, written separately
+  0x8773, // ICC profile of a TIFF source; the output gets its own
+  0x927c, // maker note, full of vendor offsets
+  0xc612, 0xc613, // DNG version, which would make readers expect raw data
+  0xc634, // DNG private data, another offset-laden maker note
+  TAG.exifPointer,
+  TAG.gpsPointer,
+  TAG.interopPointer,
+]);
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_ASCII = 2;
+const TYPE_RATIONAL = 5;
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const SOFTWARE = 'Pixelfinity';
+// EXIF ColorSpace values; anything but sRGB is "uncalibrated", left to the ICC profile
+const EXIF_SRGB = 1;
+const EXIF_UNCALIBRATED = 0xffff;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const startsWith = (bytes: Uint8Array, text: string, offset = 0) => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const readAscii = (entry: IfdEntry | undefined) =>
+  entry && entry.type === TYPE_ASCII ? textDecoder.decode(entry.value).replace(/\0+$/, '').trim() : undefined;
+
+// --- TIFF structure ---
+
+const readIfd = (view: DataView, offset: number, littleEndian: boolean): { entries: IfdEntry[]; next: number } => {
+  const entries: IfdEntry[] = [];
+  if (offset < 8 || offset + 2 > view.byteLength) return { entries, next: 0 };
+
+  const count = view.getUint16(offset, littleEndian);
+  for (let index = 0; index < count; index++) {
+    const at = offset + 2 + index * 12;
+    if (at + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(at, littleEndian);
+    const type = view.getUint16(at + 2, littleEndian);
+    const valueCount = view.getUint32(at + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (size === 0) continue;
+
+    const valueOffset = size <= 4 ? at + 8 : view.getUint32(at + 8, littleEndian);
+    if (valueOffset + size > view.byteLength) continue;
+    entries.push({
+      tag,
+      type,
+      count: valueCount,
+      value: new Uint8Array(view.buffer, view.byteOffset + valueOffset, size).slice(),
+    });
+  }
+
+  const nextAt = offset + 2 + count * 12;
+  return { entries, next: nextAt + 4 <= view.byteLength ? view.getUint32(nextAt, littleEndian) : 0 };
+};
+
+const pointerValue = (entries: IfdEntry[], tag: number, littleEndian: boolean) => {
+  const entry = entries.find(candidate => candidate.tag === tag);
+  if (!entry || entry.value.length < 4) return 0;
+  return new DataView(entry.value.buffer, entry.value.byteOffset).getUint32(0, littleEndian);
+};
+
+export const parseExif = (tiff: Uint8Array): ExifData | null => {
+  if (tiff.length < 8) return null;
+  const littleEndian = startsWith(tiff, 'II');
+  if (!littleEndian && !startsWith(tiff, 'MM')) return null;
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian).entries;
+  const exifOffset = pointerValue(ifd0, TAG.exifPointer, littleEndian);
+  const gpsOffset = pointerValue(ifd0, TAG.gpsPointer, littleEndian);
+
+  return {
+    littleEndian,
+    ifd0,
+    exif: exifOffset ? readIfd(view, exifOffset, littleEndian).entries : [],
+    gps: gpsOffset ? readIfd(view, gpsOffset, littleEndian).entries : [],
+  };
+};
+
+const numberEntry = (tag: number, type: number, value: number, littleEndian: boolean): IfdEntry => {
+  const bytes = new Uint8Array(4);
+  const view = new DataView(bytes.buffer);
+  if (type === TYPE_SHORT) view.setUint16(0, value, littleEndian);
+  else view.setUint32(0, value, littleEndian);
+  return { tag, type, count: 1, value: type === TYPE_SHORT ? bytes.subarray(0, 2) : bytes };
+};
+
+const rationalEntry = (tag: number, value: number, littleEndian: boolean): IfdEntry => {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, Math.round(value), littleEndian);
+  view.setUint32(4, 1, littleEndian);
+  return { tag, type: TYPE_RATIONAL, count: 1, value: bytes };
+};
+
+// XResolution, YResolution and ResolutionUnit 2 (inches)
+const resolutionEntries = (dpi: number, littleEndian: boolean): IfdEntry[] => [
+  rationalEntry(TAG.xResolution, dpi, littleEndian),
+  rationalEntry(TAG.yResolution, dpi, littleEndian),
+  numberEntry(TAG.resolutionUnit, TYPE_SHORT, 2, littleEndian),
+];
+
+const asciiEntry = (tag: number, text: string): IfdEntry => {
+  const value = textEncoder.encode(`${text}\0`);
+  return { tag, type: TYPE_ASCII, count: value.length, value };
+};
+
+// Replace or add entries by tag
+const withEntries = (entries: IfdEntry[], replacements: IfdEntry[]) => [
+  ...entries.filter(entry => !replacements.some(replacement => replacement.tag === entry.tag)),
+  ...replacements,
+];
+
+const ifdSize = (entries: IfdEntry[]) =>
+  2 + entries.length * 12 + 4 + entries.reduce((total, entry) =>
+    total + (entry.value.length > 4 ? entry.value.length + (entry.value.length & 1) : 0), 0);
+
+const writeIfd = (bytes: Uint8Array, offset: number, entries: IfdEntry[], littleEndian: boolean) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  view.setUint16(offset, sorted.length, littleEndian);
+  sorted.forEach((entry, index) => {
+    const at = offset + 2 + index * 12;
+    view.setUint16(at, entry.tag, littleEndian);
+    view.setUint16(at + 2, entry.type, littleEndian);
+    view.setUint32(at + 4, entry.count, littleEndian);
+    if (entry.value.length <= 4) {
+      bytes.set(entry.value, at + 8);
+    } else {
+      view.setUint32(at + 8, dataOffset, littleEndian);
+      bytes.set(entry.value, dataOffset);
+      dataOffset += entry.value.length + (entry.value.length & 1);
+    }
+  });
+  // No IFD1: the source thumbnail shows the old pixels
+  view.setUint32(offset + 2 + sorted.length * 12, 0, littleEndian);
+};
+
+export const serializeExif = ({ littleEndian, ifd0, exif, gps }: ExifData): Uint8Array => {
+  // Pointers are inline LONGs, so their values don't change the layout
+  const pointers = [
+    ...(exif.length > 0 ? [numberEntry(TAG.exifPointer, TYPE_LONG, 0, littleEndian)] : []),
+    ...(gps.length > 0 ? [numberEntry(TAG.gpsPointer, TYPE_LONG, 0, littleEndian)] : []),
+  ];
+  const exifOffset = 8 + ifdSize([...ifd0, ...pointers]);
+  const gpsOffset = exifOffset + (exif.length > 0 ? ifdSize(exif) : 0);
+  const resolvedPointers = pointers.map(pointer =>
+    numberEntry(pointer.tag, TYPE_LONG, pointer.tag === TAG.exifPointer ? exifOffset : gpsOffset, littleEndian));
+
+  const bytes = new Uint8Array(gpsOffset + (gps.length > 0 ? ifdSize(gps) : 0));
+  const view = new DataView(bytes.buffer);
+  bytes.set(textEncoder.encode(littleEndian ? 'II' : 'MM'));
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, 8, littleEndian);
+
+  writeIfd(bytes, 8, [...ifd0, ...resolvedPointers], littleEndian);
+  if (exif.length > 0) writeIfd(bytes, exifOffset, exif, littleEndian);
+  if (gps.length > 0) writeIfd(bytes, gpsOffset, gps, littleEndian);
+  return bytes;
+};
+
+// --- XMP ---
+
+// Properties that name or pin down where a photo was taken
+const XMP_LOCATION_PROPERTIES = [
+  'exif:GPS[A-Za-z]*',
+  'photoshop:(?:City|State|Country)',
+  'Iptc4xmpCore:(?:Location|CountryCode)',
+  'Iptc4xmpExt:Location(?:Shown|Created)',
+];
+
+const stripXmpLocation = (xmp: string): string => {
+  let result = xmp;
+  for (const property of XMP_LOCATION_PROPERTIES) {
+    result = result
+      .replace(new RegExp(`\\s(${property})="[^"]*"`, 'g'), '')
+      .replace(new RegExp(`<(${property})\\b[^>]*/>`, 'g'), '')
+      .replace(new RegExp(`<(${property})\\b[^>]*>[\\s\\S]*?</\\1>`, 'g'), '');
+  }
+  return result;
+};
+
+const normalizeXmpOrientation = (xmp: string): string =>
+  xmp
+    .replace(/tiff:Orientation="\d"/g, 'tiff:Orientation="1"')
+    .replace(/<tiff:Orientation>\d<\/tiff:Orientation>/g, '<tiff:Orientation>1</tiff:Orientation>');
+
+// --- Reading containers ---
+
+// Metadata blocks as stored in a file. Writers replace the kinds that are set
+// and leave the others alone.
+type RawMetadata = { tiff: Uint8Array | null; xmp: string | null; icc: Uint8Array | null };
+
+const ICC_HEADER = 'ICC_PROFILE\0';
+const ICC_KEYWORD = 'ICC Profile';
+
+const deflateStream = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const response = new Response(new Blob([data]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+// zlib streams, as PNG stores compressed chunks (export.ts writes PNG image data too)
+const inflate = (data: Uint8Array) => deflateStream(data, new DecompressionStream('deflate'));
+export const deflate = (data: Uint8Array) => deflateStream(data, new CompressionStream('deflate'));
+
+type JpegSegment = { marker: number; data: Uint8Array; start: number; end: number };
+
+// Segments before the first scan, and where the scan starts
+const readJpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; scanStart: number } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Fill bytes, then standalone markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    // Start of scan: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = Math.min(bytes.length, offset + 2 + length);
+    segments.push({ marker, data: bytes.subarray(offset + 4, end), start: offset, end });
+    offset = end;
+  }
+  return { segments, scanStart: offset };
+};
+
+const isExifSegment = ({ marker, data }: JpegSegment) => marker === 0xe1 && startsWith(data, EXIF_HEADER);
+const isXmpSegment = ({ marker, data }: JpegSegment) => marker === 0xe1 && startsWith(data, XMP_HEADER);
+const isIccSegment = ({ marker, data }: JpegSegment) => marker === 0xe2 && startsWith(data, ICC_HEADER);
+
+const readJpegMetadata = (bytes: Uint8Array): RawMetadata => {
+  const { segments } = readJpegSegments(bytes);
+  const exif = segments.find(isExifSegment);
+  const xmp = segments.find(isXmpSegment);
+  // Profiles over 64 KB are split across segments, each tagged with its sequence number
+  const iccParts = segments
+    .filter(isIccSegment)
+    .sort((a, b) => a.data[ICC_HEADER.length] - b.data[ICC_HEADER.length])
+    .map(segment => segment.data.subarray(ICC_HEADER.length + 2));
+
+  return {
+    tiff: exif ? exif.data.subarray(EXIF_HEADER.length) : null,
+    xmp: xmp ? textDecoder.decode(xmp.data.subarray(XMP_HEADER.length)) : null,
+    icc: iccParts.length > 0 ? concat(iccParts) : null,
+  };
+};
+
+type PngChunk = { type: string; data: Uint8Array; start: number; end: number };
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length), start: offset, end });
+    if (type === 'IEND') break;
+    offset = end;
+  }
+  return chunks;
+};
+
+const isXmpChunk = ({ type, data }: PngChunk) => type === 'iTXt' && startsWith(data, `${XMP_KEYWORD}\0`);
+
+const readPngMetadata = async (bytes: Uint8Array): Promise<RawMetadata> => {
+  const raw: RawMetadata = { tiff: null, xmp: null, icc: null };
+  for (const chunk of readPngChunks(bytes)) {
+    const { type, data } = chunk;
+    if (type === 'eXIf') {
+      raw.tiff ??= data;
+    } else if (isXmpChunk(chunk)) {
+      // keyword\0, compression flag, method, language\0, translated keyword\0, text
+      let offset = XMP_KEYWORD.length + 1;
+      const compressed = data[offset] === 1;
+      offset += 2;
+      offset = data.indexOf(0, offset) + 1;
+      offset = data.indexOf(0, offset) + 1;
+      if (!compressed && offset > 0) raw.xmp ??= textDecoder.decode(data.subarray(offset));
+    } else if (type === 'iCCP' && !raw.icc) {
+      // keyword\0, compression method, zlib data
+      const offset = data.indexOf(0) + 2;
+      if (offset > 1) raw.icc = await inflate(data.subarray(offset));
+    }
+  }
+  return raw;
+};
+
+type RiffChunk = { type: string; data: Uint8Array };
+
+const readRiffChunks = (bytes: Uint8Array): RiffChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    if (offset + 8 + size > bytes.length) break;
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const readWebpMetadata = (bytes: Uint8Array): RawMetadata => {
+  const raw: RawMetadata = { tiff: null, xmp: null, icc: null };
+  for (const { type, data } of readRiffChunks(bytes)) {
+    if (type === 'EXIF') {
+      // Some writers keep the JPEG APP1 prefix
+      raw.tiff ??= startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data;
+    } else if (type === 'XMP ') {
+      raw.xmp ??= textDecoder.decode(data);
+    } else if (type === 'ICCP') {
+      raw.icc ??= data;
+    }
+  }
+  return raw;
+};
+
+// TIFF and DNG files are an EXIF block themselves, with XMP and ICC as IFD0 tags
+const TAG_XMP = 0x02bc;
+const TAG_ICC = 0x8773;
+
+const readTiffMetadata = (bytes: Uint8Array): RawMetadata => {
+  const ifd0 = parseExif(bytes)?.ifd0 ?? [];
+  const xmp = ifd0.find(entry => entry.tag === TAG_XMP);
+  const icc = ifd0.find(entry => entry.tag === TAG_ICC);
+  return {
+    tiff: bytes,
+    xmp: xmp ? textDecoder.decode(xmp.value) : null,
+    icc: icc ? icc.value : null,
+  };
+};
+
+// HEIF (HEIC, AVIF): ISO base media boxes. Metadata are items in the 'meta'
+// box, like the image itself: EXIF as an 'Exif' item, XMP as a 'mime' item,
+// and the colour profile as a 'colr' property of the primary image.
+type IsoBox = { type: string; data: Uint8Array };
+
+const readIsoBoxes = (bytes: Uint8Array): IsoBox[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: IsoBox[] = [];
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= bytes.length) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset;
+    }
+    if (size < header || offset + size > bytes.length) break;
+    boxes.push({
+      type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)),
+      data: bytes.subarray(offset + header, offset + size),
+    });
+    offset += size;
+  }
+  return boxes;
+};
+
+const childBox = (boxes: IsoBox[], type: string) => boxes.find(box => box.type === type)?.data;
+
+const boxView = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+// Null-terminated string starting at offset, and the offset after it
+const readCString = (data: Uint8Array, offset: number): [string, number] => {
+  const end = data.indexOf(0, offset);
+  const stop = end === -1 ? data.length : end;
+  return [textDecoder.decode(data.subarray(offset, stop)), stop + 1];
+};
+
+type HeifItem = { type: string; contentType?: string };
+
+// iinf: item types, from version 2+ 'infe' entries
+const readItemInfo = (iinf: Uint8Array): Map<number, HeifItem> => {
+  const items = new Map<number, HeifItem>();
+  const entries = readIsoBoxes(iinf.subarray(iinf[0] === 0 ? 6 : 8));
+  for (const { type, data } of entries) {
+    if (type !== 'infe' || data[0] < 2) continue;
+    const view = boxView(data);
+    const wideId = data[0] >= 3;
+    const id = wideId ? view.getUint32(4) : view.getUint16(4);
+    const typeAt = wideId ? 10 : 8;
+    const itemType = String.fromCharCode(...data.subarray(typeAt, typeAt + 4));
+    const [, contentAt] = readCString(data, typeAt + 4);
+    items.set(id, {
+      type: itemType,
+      contentType: itemType === 'mime' ? readCString(data, contentAt)[0] : undefined,
+    });
+  }
+  return items;
+};
+
+type HeifExtent = { offset: number; length: number };
+type HeifLocation = { inIdat: boolean; extents: HeifExtent[] };
+
+// iloc: where each item's bytes are, in the file or in the meta box's 'idat'
+const readItemLocations = (iloc: Uint8Array): Map<number, HeifLocation> => {
+  const locations = new Map<number, HeifLocation>();
+  const view = boxView(iloc);
+  const version = iloc[0];
+  const offsetSize = iloc[4] >> 4;
+  const lengthSize = iloc[4] & 0xf;
+  const baseOffsetSize = iloc[5] >> 4;
+  const indexSize = version >= 1 ? iloc[5] & 0xf : 0;
+
+  let at = 6;
+  const read = (size: number) => {
+    const value = size === 8 ? Number(view.getBigUint64(at)) : size === 4 ? view.getUint32(at) : size === 2 ? view.getUint16(at) : 0;
+    at += size;
+    return value;
+  };
+
+  const count = read(version < 2 ? 2 : 4);
+  for (let index = 0; index < count && at < iloc.length; index++) {
+    const id = read(version < 2 ? 2 : 4);
+    const constructionMethod = version >= 1 ? read(2) & 0xf : 0;
+    read(2); // data reference index
+    const baseOffset = read(baseOffsetSize);
+    const extentCount = read(2);
+    const extents: HeifExtent[] = [];
+    for (let extent = 0; extent < extentCount; extent++) {
+      read(indexSize);
+      extents.push({ offset: baseOffset + read(offsetSize), length: read(lengthSize) });
+    }
+    locations.set(id, { inIdat: constructionMethod === 1, extents });
+  }
+  return locations;
+};
+
+// ipma: the 1-based ipco property indices of each item
+const readPropertyAssociations = (ipma: Uint8Array): Map<number, number[]> => {
+  const associations = new Map<number, number[]>();
+  const view = boxView(ipma);
+  const wideId = ipma[0] >= 1;
+  const wideIndex = (ipma[3] & 1) === 1;
+  let at = 8;
+  const count = view.getUint32(4);
+  for (let index = 0; index < count && at < ipma.length; index++) {
+    const id = wideId ? view.getUint32(at) : view.getUint16(at);
+    at += wideId ? 4 : 2;
+    const properties: number[] = [];
+    for (let property = ipma[at++]; property > 0; property--) {
+      properties.push(wideIndex ? view.getUint16(at) & 0x7fff : ipma[at] & 0x7f);
+      at += wideIndex ? 2 : 1;
+    }
+    associations.set(id, properties);
+  }
+  return associations;
+};
+
+// nclx colour primaries (ITU-T H.273) for the two spaces there's a profile for
+const NCLX_PRIMARIES: Record<number, PredefinedColorSpace> = { 1: 'srgb', 12: 'display-p3' };
+
+// colr: an embedded ICC profile, or an nclx code point, stood in for by our own profile
+const readColourProperty = (colr: Uint8Array): Uint8Array | null => {
+  const type = String.fromCharCode(...colr.subarray(0, 4));
+  if (type === 'prof' || type === 'rICC') return colr.subarray(4);
+  if (type === 'nclx' && colr.length >= 6) {
+    const colorSpace = NCLX_PRIMARIES[boxView(colr).getUint16(4)];
+    return colorSpace ? createIccProfile(colorSpace) : null;
+  }
+  return null;
+};
+
+const readHeifMetadata = (bytes: Uint8Array): RawMetadata => {
+  const raw: RawMetadata = { tiff: null, xmp: null, icc: null };
+  const meta = childBox(readIsoBoxes(bytes), 'meta');
+  if (!meta) return raw;
+
+  const boxes = readIsoBoxes(meta.subarray(4));
+  const pitm = childBox(boxes, 'pitm');
+  const iinf = childBox(boxes, 'iinf');
+  const iloc = childBox(boxes, 'iloc');
+  const idat = childBox(boxes, 'idat');
+  const iprp = childBox(boxes, 'iprp');
+
+  const itemData = (id: number) => {
+    const location = iloc && readItemLocations(iloc).get(id);
+    const source = location?.inIdat ? idat : bytes;
+    if (!location || !source) return null;
+    const parts = location.extents.map(({ offset, length }) =>
+      source.subarray(offset, length ? offset + length : source.length)
+    );
+    return parts.length === 1 ? parts[0] : new Uint8Array(parts.flatMap(part => Array.from(part)));
+  };
+
+  for (const [id, item] of iinf ? readItemInfo(iinf) : []) {
+    const data = item.type === 'Exif' || item.contentType === 'application/rdf+xml' ? itemData(id) : null;
+    if (!data) continue;
+    if (item.type === 'Exif' && data.length >= 4) {
+      // Preceded by the offset of the TIFF header
+      raw.tiff ??= data.subarray(4 + boxView(data).getUint32(0));
+    } else if (item.type === 'mime') {
+      raw.xmp ??= textDecoder.decode(data);
+    }
+  }
+
+  // The primary image's colour property; grid images of some cameras only
+  // have it on their tiles, so fall back to the first one in the file
+  const ipcoBox = iprp && childBox(readIsoBoxes(iprp), 'ipco');
+  const ipmaBox = iprp && childBox(readIsoBoxes(iprp), 'ipma');
+  const properties = ipcoBox ? readIsoBoxes(ipcoBox) : [];
+  const primary = pitm && (pitm[0] === 0 ? boxView(pitm).getUint16(4) : boxView(pitm).getUint32(4));
+  const associated = primary && ipmaBox ? readPropertyAssociations(ipmaBox).get(primary) ?? [] : [];
+  const colour = associated.map(index => properties[index - 1]).find(box => box?.type === 'colr')
+    ?? properties.find(box => box.type === 'colr');
+  raw.icc = colour ? readColourProperty(colour.data) : null;
+
+  return raw;
+};
+
+type ContainerFormat = 'jpeg' | 'png' | 'webp' | 'tiff' | 'heif';
+
+const detectContainer = (bytes: Uint8Array): ContainerFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (startsWith(bytes, '\x89PNG\r\n\x1a\n')) return 'png';
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8)) return 'webp';
+  if (startsWith(bytes, 'II*\0') || startsWith(bytes, 'MM\0*')) return 'tiff';
+  if (startsWith(bytes, 'ftyp', 4)) return 'heif';
+  return null;
+};
+
+const summarize = (exif: ExifData | null, xmp: string | null, icc: IccProfileInfo | null): MetadataSummary => {
+  const ifd0Tag = (tag: number) => readAscii(exif?.ifd0.find(entry => entry.tag === tag));
+  const exifTag = (tag: number) => readAscii(exif?.exif.find(entry => entry.tag === tag));
+
+  const make = ifd0Tag(TAG.make);
+  const model = ifd0Tag(TAG.model);
+  // Models usually repeat the make ("Canon" + "Canon EOS R5")
+  const camera = model && make && !model.startsWith(make) ? `${make} ${model}` : model ?? make;
+  const xmpLocation = xmp !== null && stripXmpLocation(xmp) !== xmp;
+
+  return {
+    camera,
+    takenAt: exifTag(TAG.dateTimeOriginal) ?? ifd0Tag(TAG.dateTime),
+    copyright: ifd0Tag(TAG.copyright),
+    colorProfile: icc?.description,
+    hasLocation: (exif?.gps.length ?? 0) > 0 || xmpLocation,
+  };
+};
+
+export const readImageMetadata = async (bytes: Uint8Array): Promise<ImageMetadata> => {
+  const container = detectContainer(bytes);
+  const raw = container === 'jpeg'
+    ? readJpegMetadata(bytes)
+    : container === 'png'
+      ? await readPngMetadata(bytes)
+      : container === 'webp'
+        ? readWebpMetadata(bytes)
+        : container === 'tiff'
+          ? readTiffMetadata(bytes)
+          : container === 'heif'
+            ? readHeifMetadata(bytes)
+            : { tiff: null, xmp: null, icc: null };
+
+  const exif = raw.tiff ? parseExif(raw.tiff) : null;
+  const orientationEntry = exif?.ifd0.find(entry => entry.tag === TAG.orientation);
+  const orientation = orientationEntry && orientationEntry.value.length >= 2
+    ? new DataView(orientationEntry.value.buffer, orientationEntry.value.byteOffset).getUint16(0, exif.littleEndian)
+    : 1;
+  const icc = raw.icc && parseIccProfile(raw.icc);
+
+  return {
+    exif,
+    xmp: raw.xmp,
+    icc: icc ? { info: icc, data: raw.icc as Uint8Array } : null,
+    orientation,
+    summary: summarize(exif, raw.xmp, icc),
+  };
+};
+
+// --- Writing containers ---
+
+// What the policy lets through, adjusted to the output pixels
+const prepareMetadata = (
+  metadata: ImageMetadata,
+  policy: MetadataPolicy,
+  size: { width: number; height: number },
+  colorSpace: PredefinedColorSpace,
+  dpi: number | null
+): RawMetadata => {
+  if (!policy.preserve) return { tiff: null, xmp: null, icc: null };
+
+  let tiff: Uint8Array | null = null;
+  if (metadata.exif) {
+    const { littleEndian } = metadata.exif;
+    const keep = (entries: IfdEntry[]) => entries.filter(entry => !DROPPED_TAGS.has(entry.tag));
+    tiff = serializeExif({
+      littleEndian,
+      ifd0: withEntries(keep(metadata.exif.ifd0), [
+        numberEntry(TAG.orientation, TYPE_SHORT, 1, littleEndian),
+        asciiEntry(TAG.software, SOFTWARE),
+        // The print size's resolution, not the camera's nominal 72 dpi
+        ...(dpi ? resolutionEntries(dpi, littleEndian) : []),
+      ]),
+      exif: metadata.exif.exif.length > 0
+        ? withEntries(keep(metadata.exif.exif), [
+          numberEntry(TAG.pixelXDimension, TYPE_LONG, size.width, littleEndian),
+          numberEntry(TAG.pixelYDimension, TYPE_LONG, size.height, littleEndian),
+          // A source's sRGB tag would make readers ignore a P3 output's profile
+          numberEntry(TAG.colorSpace, TYPE_SHORT, colorSpace === 'srgb' ? EXIF_SRGB : EXIF_UNCALIBRATED, littleEndian),
+        ])
+        : [],
+      gps: policy.stripLocation ? [] : metadata.exif.gps,
+    });
+  }
+
+  let xmp = metadata.xmp && normalizeXmpOrientation(metadata.xmp);
+  if (xmp && policy.stripLocation) xmp = stripXmpLocation(xmp);
+
+  // The colour profile is the output's own (see embedIccProfile), not the source's
+  return { tiff, xmp, icc: null };
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+const jpegSegment = (marker: number, header: string | Uint8Array, payload: Uint8Array): Uint8Array | null => {
+  const data = concat([typeof header === 'string' ? textEncoder.encode(header) : header, payload]);
+  if (data.length > MAX_JPEG_SEGMENT) return null;
+  const length = data.length + 2;
+  return concat([new Uint8Array([0xff, marker, length >> 8, length & 0xff]), data]);
+};
+
+// APP2 segments, each prefixed with its 1-based sequence number and the total
+const jpegIccSegments = (icc: Uint8Array): Uint8Array[] => {
+  const partSize = MAX_JPEG_SEGMENT - ICC_HEADER.length - 2;
+  const count = Math.ceil(icc.length / partSize);
+  return Array.from({ length: count }, (_, index) => jpegSegment(
+    0xe2,
+    concat([textEncoder.encode(ICC_HEADER), new Uint8Array([index + 1, count])]),
+    icc.subarray(index * partSize, (index + 1) * partSize)
+  ) as Uint8Array);
+};
+
+const writeJpegMetadata = (bytes: Uint8Array, { tiff, xmp, icc }: RawMetadata): Uint8Array => {
+  const { segments, scanStart } = readJpegSegments(bytes);
+  const kept = segments.filter(segment =>
+    !(tiff && isExifSegment(segment)) && !(xmp && isXmpSegment(segment)) && !(icc && isIccSegment(segment)));
+  // New segments go after SOI and a JFIF APP0, if there is one
+  const leading = kept[0]?.marker === 0xe0 ? kept.splice(0, 1) : [];
+  const added = [
+    tiff && jpegSegment(0xe1, EXIF_HEADER, tiff),
+    xmp && jpegSegment(0xe1, XMP_HEADER, textEncoder.encode(xmp)),
+    ...(icc ? jpegIccSegments(icc) : []),
+  ].filter((segment): segment is Uint8Array => Boolean(segment));
+
+  return concat([
+    bytes.subarray(0, 2),
+    ...leading.map(segment => bytes.subarray(segment.start, segment.end)),
+    ...added,
+    ...kept.map(segment => bytes.subarray(segment.start, segment.end)),
+    bytes.subarray(scanStart),
+  ]);
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(textEncoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// Chunks that describe the colour space and would contradict a new profile
+const PNG_COLOR_CHUNKS = new Set(['iCCP', 'sRGB', 'gAMA', 'cHRM']);
+
+const writePngMetadata = async (bytes: Uint8Array, { tiff, xmp, icc }: RawMetadata): Promise<Uint8Array> => {
+  const chunks = readPngChunks(bytes);
+  const header = chunks.find(chunk => chunk.type === 'IHDR');
+  if (!header) return bytes;
+
+  const kept = chunks.filter(chunk => chunk !== header
+    && !(tiff && chunk.type === 'eXIf')
+    && !(xmp && isXmpChunk(chunk))
+    && !(icc && PNG_COLOR_CHUNKS.has(chunk.type)));
+  const added = [
+    // Compression method 0 is zlib
+    ...(icc ? [pngChunk('iCCP', concat([textEncoder.encode(`${ICC_KEYWORD}\0\0`), await deflate(icc)]))] : []),
+    ...(tiff ? [pngChunk('eXIf', tiff)] : []),
+    // Uncompressed iTXt with empty language and translated keyword
+    ...(xmp ? [pngChunk('iTXt', concat([textEncoder.encode(`${XMP_KEYWORD}\0\0\0\0\0`), textEncoder.encode(xmp)]))] : []),
+  ];
+  return concat([
+    bytes.subarray(0, header.end),
+    ...added,
+    ...kept.map(chunk => bytes.subarray(chunk.start, chunk.end)),
+  ]);
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(textEncoder.encode(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const VP8X_ICC = 0x20;
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+const writeWebpMetadata = (
+  bytes: Uint8Array,
+  { tiff, xmp, icc }: RawMetadata,
+  size: { width: number; height: number }
+): Uint8Array => {
+  const chunks = readRiffChunks(bytes);
+  const find = (type: string) => chunks.find(chunk => chunk.type === type)?.data;
+  const exifData = tiff ?? find('EXIF');
+  const xmpData = xmp !== null ? textEncoder.encode(xmp) : find('XMP ');
+  const iccData = icc ?? find('ICCP');
+
+  // Metadata needs the extended format, which starts with a VP8X chunk
+  let vp8x = find('VP8X')?.slice();
+  if (!vp8x) {
+    vp8x = new Uint8Array(10);
+    const lossless = find('VP8L');
+    // VP8L header: signature byte, then 14 + 14 bits of size and the alpha bit
+    if (lossless && lossless.length >= 5 && (lossless[4] & 0x10)) vp8x[0] |= VP8X_ALPHA;
+    const width = size.width - 1;
+    const height = size.height - 1;
+    vp8x.set([width & 0xff, (width >> 8) & 0xff, (width >> 16) & 0xff], 4);
+    vp8x.set([height & 0xff, (height >> 8) & 0xff, (height >> 16) & 0xff], 7);
+  }
+  vp8x[0] |= (iccData ? VP8X_ICC : 0) | (exifData ? VP8X_EXIF : 0) | (xmpData ? VP8X_XMP : 0);
+
+  // Order required by the container: VP8X, ICCP, image data, EXIF, XMP
+  const imageChunks = chunks.filter(chunk => !['VP8X', 'ICCP', 'EXIF', 'XMP '].includes(chunk.type));
+  const body = concat([
+    textEncoder.encode('WEBP'),
+    riffChunk('VP8X', vp8x),
+    ...(iccData ? [riffChunk('ICCP', iccData)] : []),
+    ...imageChunks.map(chunk => riffChunk(chunk.type, chunk.data)),
+    ...(exifData ? [riffChunk('EXIF', exifData)] : []),
+    ...(xmpData ? [riffChunk('XMP ', xmpData)] : []),
+  ]);
+  const header = new Uint8Array(8);
+  header.set(textEncoder.encode('RIFF'));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat([header, body]);
+};
+
+// Formats without a writer here (AVIF) come back unchanged
+const writeContainerMetadata = async (
+  bytes: Uint8Array,
+  raw: RawMetadata,
+  size: { width: number; height: number }
+): Promise<Uint8Array> => {
+  if (!raw.tiff && !raw.xmp && !raw.icc) return bytes;
+
+  switch (detectContainer(bytes)) {
+    case 'jpeg':
+      return writeJpegMetadata(bytes, raw);
+    case 'png':
+      return writePngMetadata(bytes, raw);
+    case 'webp':
+      return writeWebpMetadata(bytes, raw, size);
+    default:
+      return bytes;
+  }
+};
+
+// Write the source's EXIF and XMP into an encoded image as the policy allows,
+// with the EXIF colour space set to the one the output is in, and the
+// resolution to the print size's, if there is one
+export const writeImageMetadata = (
+  bytes: Uint8Array,
+  metadata: ImageMetadata,
+  policy: MetadataPolicy,
+  size: { width: number; height: number },
+  colorSpace: PredefinedColorSpace,
+  dpi: number | null = null
+): Promise<Uint8Array> => {
+  return writeContainerMetadata(bytes, prepareMetadata(metadata, policy, size, colorSpace, dpi), size);
+};
+
+// Tag an encoded image with the colour profile its pixels are in, replacing any the encoder wrote
+export const embedIccProfile = (
+  bytes: Uint8Array,
+  icc: Uint8Array,
+  size: { width: number; height: number }
+): Promise<Uint8Array> => {
+  return writeContainerMetadata(bytes, { tiff: null, xmp: null, icc }, size);
+};
+
+// --- Print resolution ---
+
+const METERS_PER_INCH = 0.0254;
+
+// JFIF APP0 with the density in dots per inch, replacing the encoder's
+// (which only gives the pixel aspect ratio)
+const writeJpegResolution = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const { segments, scanStart } = readJpegSegments(bytes);
+  const kept = segments.filter(segment => !(segment.marker === 0xe0 && startsWith(segment.data, 'JFIF\0')));
+  const density = [dpi >> 8, dpi & 0xff];
+  const jfif = jpegSegment(0xe0, 'JFIF\0', new Uint8Array([1, 2, 1, ...density, ...density, 0, 0])) as Uint8Array;
+  return concat([
+    bytes.subarray(0, 2),
+    jfif,
+    ...kept.map(segment => bytes.subarray(segment.start, segment.end)),
+    bytes.subarray(scanStart),
+  ]);
+};
+
+// pHYs in pixels per metre, right after IHDR
+const writePngResolution = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  const header = chunks.find(chunk => chunk.type === 'IHDR');
+  if (!header) return bytes;
+
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, Math.round(dpi / METERS_PER_INCH));
+  view.setUint32(4, Math.round(dpi / METERS_PER_INCH));
+  data[8] = 1;
+  const kept = chunks.filter(chunk => chunk !== header && chunk.type !== 'pHYs');
+  return concat([
+    bytes.subarray(0, header.end),
+    pngChunk('pHYs', data),
+    ...kept.map(chunk => bytes.subarray(chunk.start, chunk.end)),
+  ]);
+};
+
+// Record the resolution a print-size output was made for, so it opens at
+// its print size. JPEG and PNG have a density field for it; WebP only has
+// EXIF, which gets the resolution tags unless the file already has EXIF.
+// Formats without either (AVIF) come back unchanged.
+export const embedResolution = (
+  bytes: Uint8Array,
+  dpi: number,
+  size: { width: number; height: number }
+): Uint8Array => {
+  switch (detectContainer(bytes)) {
+    case 'jpeg':
+      return writeJpegResolution(bytes, dpi);
+    case 'png':
+      return writePngResolution(bytes, dpi);
+    case 'webp': {
+      if (readWebpMetadata(bytes).tiff) return bytes;
+      const tiff = serializeExif({ littleEndian: true, ifd0: resolutionEntries(dpi, true), exif: [], gps: [] });
+      return writeWebpMetadata(bytes, { tiff, xmp: null, icc: null }, size);
+    }
+    default:
+      return bytes;
+  }
+};
@@ -0,0 +1,48 @@
+import { pipeline } from '@huggingface/transformers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initializeModels } from './models';
+
+vi.mock('@huggingface/transformers', () => ({
+  pipeline: vi.fn(),
+  env: { backends: { onnx: { wasm: {} } } },
+  AutoModel: {},
+  RawImage: class {},
+  Tensor: class {},
+}));
+
+describe('initializeModels', () => {
+  const loadPipeline = vi.mocked(pipeline);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // A browser with a GPU adapter, so both backends are worth trying
+    vi.stubGlobal('navigator', { gpu: { requestAdapter: async () => ({}) } });
+  });
+
+  afterEach(() => {
+    loadPipeline.mockReset();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const devices = () => loadPipeline.mock.calls.map(([, , options]) => options?.device);
+
+  it('loads the upscaler on WebGPU first', async () => {
+    loadPipeline.mockResolvedValue(vi.fn() as never);
+    expect((await initializeModels()).backend).toBe('webgpu');
+    expect(devices()).toEqual(['webgpu']);
+  });
+
+  it('falls back to WebAssembly when WebGPU fails', async () => {
+    loadPipeline.mockRejectedValueOnce(new Error('no WebGPU device')).mockResolvedValue(vi.fn() as never);
+    expect((await initializeModels()).backend).toBe('wasm');
+    expect(devices()).toEqual(['webgpu', 'wasm']);
+  });
+
+  it('ends without a backend when every one fails', async () => {
+    loadPipeline.mockRejectedValue(new Error('model failed to load'));
+    expect((await initializeModels()).backend).toBe('none');
+    expect(devices()).toEqual(['webgpu', 'wasm']);
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  pipeline,
+  env,
+  AutoModel,
+  PretrainedConfig,
+  PreTrainedModel,
+  RawImage,
+  ImageToImagePipeline,
+  ObjectDetectionPipeline,
+  ObjectDetectionPipelineOutput,
+  Tensor,
+} from '@huggingface/transformers';
+import { BackendCapabilities, candidateBackends, ExecutionBackend, probeCapabilities } from './backend';
+
+let enhancementPipeline: ImageToImagePipeline | null = null;
+let activeBackend: ExecutionBackend = 'none';
+
+// Model configuration - the upscaler can be pointed at any image-to-image ONNX
+// model, either through VITE_UPSCALER_MODEL or configureModels (e.g. a small
+// local fixture served from localModelPath)
+export type ModelConfig = {
+  upscalerModel: string;
+  // AdaIN style transfer model: onnx/encoder.onnx (VGG up to relu4_1) and
+  // onnx/decoder.onnx, loaded on first use through VITE_STYLE_MODEL or configureModels
+  styleModel: string;
+  // Object detection model with a "face" class (or only faces), loaded on
+  // first use through VITE_FACE_MODEL or configureModels
+  faceModel: string;
+  localModelPath?: string;
+  allowRemoteModels?: boolean;
+};
+
+const modelConfig: ModelConfig = {
+  upscalerModel: import.meta.env.VITE_UPSCALER_MODEL || 'onnx-community/real-esrgan-x4plus',
+  styleModel: import.meta.env.VITE_STYLE_MODEL || 'adain-style-transfer',
+  faceModel: import.meta.env.VITE_FACE_MODEL || 'face-detection',
+};
+
+type StyleModels = {
+  encoder: PreTrainedModel;
+  decoder: PreTrainedModel;
+};
+
+let styleModels: Promise<StyleModels> | null = null;
+let faceDetector: Promise<ObjectDetectionPipeline> | null = null;
+
+export const configureModels = (config: Partial<ModelConfig>) => {
+  Object.assign(modelConfig, config);
+
+  // Drop the loaded models so the next initialize picks up the new ones
+  enhancementPipeline = null;
+  styleModels = null;
+  faceDetector = null;
+  activeBackend = 'none';
+};
+
+export type ModelInitResult = {
+  backend: ExecutionBackend;
+  capabilities: BackendCapabilities;
+};
+
+// Load the upscaler on the fastest backend that works: WebGPU, then WASM. If
+// neither does the backend stays 'none' and only the classic filters are offered.
+export const initializeModels = async (): Promise<ModelInitResult> => {
+  const capabilities = await probeCapabilities();
+  console.log('Execution backend capabilities:', capabilities);
+
+  if (modelConfig.localModelPath) {
+    env.localModelPath = modelConfig.localModelPath;
+    env.allowLocalModels = true;
+  }
+  if (modelConfig.allowRemoteModels !== undefined) {
+    env.allowRemoteModels = modelConfig.allowRemoteModels;
+  }
+
+  const wasmEnv = env.backends.onnx.wasm;
+  if (wasmEnv) {
+    wasmEnv.numThreads = capabilities.wasmThreads ? Math.min(4, navigator.hardwareConcurrency || 1) : 1;
+  }
+
+  enhancementPipeline = null;
+  activeBackend = 'none';
+
+  for (const backend of candidateBackends(capabilities)) {
+    try {
+      console.log(`Initializing upscaler model ${modelConfig.upscalerModel} on ${backend}...`);
+
+      // Initialize super-resolution pipeline with Real-ESRGAN
+      enhancementPipeline = await pipeline(
+        "image-to-image",
+        modelConfig.upscalerModel,
+        { device: backend }
+      );
+      activeBackend = backend;
+
+      console.log(`Real-ESRGAN model loaded successfully on ${backend}`);
+      break;
+    } catch (error) {
+      console.error(`Failed to initialize enhancement models on ${backend}:`, error);
+    }
+  }
+
+  return { backend: activeBackend, capabilities };
+};
+
+export const getActiveBackend = (): ExecutionBackend => {
+  return activeBackend;
+};
+
+// Run a single super-resolution pass through the loaded pipeline
+export const runUpscalerPass = async (imageData: ImageData): Promise<ImageData> => {
+  if (!enhancementPipeline) {
+    throw new Error('Upscaler model is not loaded');
+  }
+
+  const input = new RawImage(imageData.data, imageData.width, imageData.height, 4).rgb();
+  const output = await enhancementPipeline(input) as RawImage;
+  const rgba = output.rgba();
+
+  return new ImageData(new Uint8ClampedArray(rgba.data), rgba.width, rgba.height);
+};
+
+const loadStyleModels = (): Promise<StyleModels> => {
+  if (!styleModels) {
+    const options = { device: activeBackend === 'none' ? undefined : activeBackend };
+    console.log(`Loading style transfer model ${modelConfig.styleModel}...`);
+
+    styleModels = Promise.all([
+      AutoModel.from_pretrained(modelConfig.styleModel, { ...options, model_file_name: 'encoder' }),
+      AutoModel.from_pretrained(modelConfig.styleModel, { ...options, model_file_name: 'decoder' }),
+    ]).then(([encoder, decoder]) => ({ encoder, decoder }));
+
+    // Let a later call retry instead of caching the failure
+    styleModels.catch(error => {
+      console.error(`Failed to load style transfer model ${modelConfig.styleModel}:`, error);
+      styleModels = null;
+    });
+  }
+  return styleModels;
+};
+
+// The models are plain ONNX graphs without a known architecture, so feed the
+// first declared input and take the first output, whatever they're called
+const runSingleTensor = async (model: PreTrainedModel, input: Tensor): Promise<Tensor> => {
+  const session = model.sessions.model;
+  const outputs = await model({ [session.inputNames[0]]: input });
+  return Object.values(outputs)[0] as Tensor;
+};
+
+// Encode an image ([1, 3, H, W] in 0-1, sides divisible by 8) to VGG features
+export const runStyleEncoder = async (pixels: Tensor): Promise<Tensor> => {
+  const { encoder } = await loadStyleModels();
+  return runSingleTensor(encoder, pixels);
+};
+
+// Decode (restyled) features back to an image tensor in 0-1
+export const runStyleDecoder = async (features: Tensor): Promise<Tensor> => {
+  const { decoder } = await loadStyleModels();
+  return runSingleTensor(decoder, features);
+};
+
+export type DetectedFace = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+};
+
+// Below this a detection is more likely a face-like texture than a face
+const FACE_SCORE_THRESHOLD = 0.5;
+
+const loadFaceDetector = (): Promise<ObjectDetectionPipeline> => {
+  if (!faceDetector) {
+    console.log(`Loading face detection model ${modelConfig.faceModel}...`);
+    faceDetector = pipeline('object-detection', modelConfig.faceModel, {
+      device: activeBackend === 'none' ? undefined : activeBackend,
+    }) as Promise<ObjectDetectionPipeline>;
+
+    // Let a later call retry instead of caching the failure
+    faceDetector.catch(error => {
+      console.error(`Failed to load face detection model ${modelConfig.faceModel}:`, error);
+      faceDetector = null;
+    });
+  }
+  return faceDetector;
+};
+
+// Faces found by the detection model, in pixels; null when there's no model
+// backend or the model can't be loaded, so callers can tell "no faces" from
+// "couldn't look"
+export const runFaceDetector = async (imageData: ImageData): Promise<DetectedFace[] | null> => {
+  if (activeBackend === 'none') return null;
+
+  let detector: ObjectDetectionPipeline;
+  try {
+    detector = await loadFaceDetector();
+  } catch {
+    return null;
+  }
+
+  const input = new RawImage(imageData.data, imageData.width, imageData.height, 4).rgb();
+  const detections = await detector(input, { threshold: FACE_SCORE_THRESHOLD, percentage: false }) as ObjectDetectionPipelineOutput;
+  // Face-only models may name their one class anything; others have to call it face
+  const { id2label } = detector.model.config as PretrainedConfig & { id2label?: Record<string, string> };
+  const classes = Object.keys(id2label ?? {}).length;
+  return detections
+    .filter(detection => classes === 1 || detection.label.toLowerCase() === 'face')
+    .map(({ box, score }) => ({
+      x: box.xmin,
+      y: box.ymin,
+      width: box.xmax - box.xmin,
+      height: box.ymax - box.ymin,
+      score,
+    }));
+};
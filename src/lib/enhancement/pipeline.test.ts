@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import './enhancements';
+import { describePipeline, findMatchingPreset, getPreset, withAvailableResampler } from './pipeline';
+
+describe('withAvailableResampler', () => {
+  const auto = getPreset('auto')!.steps;
+
+  it('keeps the AI upscale when a model backend started', () => {
+    expect(withAvailableResampler(auto, true)).toBe(auto);
+  });
+
+  it('runs Auto with the standard upscale when there is no model backend', () => {
+    const fallback = withAvailableResampler(auto, false);
+    expect(fallback).toEqual([{ id: 'upscale-standard' }]);
+    // Still Auto, so the engine keeps its adaptive corrections
+    expect(findMatchingPreset(fallback)?.id).toBe('auto');
+    expect(describePipeline(fallback)).toBe('auto');
+  });
+
+  it('leaves the filters alone', () => {
+    expect(withAvailableResampler([{ id: 'hdr' }, { id: 'upscale' }], false)).toEqual([{ id: 'hdr' }, { id: 'upscale-standard' }]);
+  });
+});
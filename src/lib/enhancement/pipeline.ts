@@ -0,0 +1,163 @@
+import { Sparkles } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { ImageAnalysisReport } from './analysis';
+import { EnhancementDefinition, EnhancementId, EnhancementParams, getEnhancement } from './enhancements';
+
+// A pipeline is an ordered list of operations. Exactly one of them resamples
+// (upscales) the image; everything else keeps the size it's given and runs
+// before it, except steps marked afterResample which run on the output.
+export type PipelineStep = {
+  id: EnhancementId;
+  params?: EnhancementParams;
+};
+
+export type EnhancementPipeline = PipelineStep[];
+
+export type PipelinePreset = {
+  id: string;
+  name: string;
+  description: string;
+  icon: LucideIcon;
+  steps: EnhancementPipeline;
+  // Let the engine add corrective steps based on the image analysis
+  adaptive?: boolean;
+};
+
+export const DEFAULT_RESAMPLER: EnhancementId = 'upscale';
+// Used instead of a model-backed resampler when no model backend started
+export const FALLBACK_RESAMPLER: EnhancementId = 'upscale-standard';
+
+export const pipelinePresets: PipelinePreset[] = [
+  {
+    id: 'auto',
+    name: 'Auto Enhance',
+    icon: Sparkles,
+    description: 'Our AI analyzes your image and applies optimal adjustments using Real-ESRGAN',
+    steps: [{ id: 'upscale' }],
+    adaptive: true,
+  },
+];
+
+export const getPreset = (id: string): PipelinePreset | undefined => {
+  return pipelinePresets.find(preset => preset.id === id);
+};
+
+// Accept either a ready pipeline, a preset id or a single operation id
+export const toPipeline = (selection: EnhancementPipeline | string): EnhancementPipeline => {
+  if (Array.isArray(selection)) return selection;
+
+  const preset = getPreset(selection);
+  if (preset) return preset.steps;
+
+  return [{ id: selection }, { id: DEFAULT_RESAMPLER }];
+};
+
+export const resolvePipeline = (pipeline: EnhancementPipeline): EnhancementDefinition[] => {
+  const definitions = pipeline.map(step => {
+    const definition = getEnhancement(step.id);
+    if (!definition) {
+      throw new Error(`Unknown enhancement "${step.id}"`);
+    }
+    return definition;
+  });
+
+  const resamplers = definitions.filter(definition => definition.resamples).length;
+  if (resamplers !== 1) {
+    throw new Error(`A pipeline needs exactly one resampling step, found ${resamplers}`);
+  }
+
+  return definitions;
+};
+
+export const getResampleStep = (pipeline: EnhancementPipeline): PipelineStep | undefined => {
+  return pipeline.find(step => getEnhancement(step.id)?.resamples);
+};
+
+export const getFilterSteps = (pipeline: EnhancementPipeline): PipelineStep[] => {
+  return pipeline.filter(step => !getEnhancement(step.id)?.resamples);
+};
+
+// Put the resampling step after the filters, except those that run on the output
+const arrangeSteps = (filters: PipelineStep[], resampler: PipelineStep): EnhancementPipeline => {
+  const runsAfter = (step: PipelineStep) => getEnhancement(step.id)?.afterResample ?? false;
+  return [...filters.filter(step => !runsAfter(step)), resampler, ...filters.filter(runsAfter)];
+};
+
+// Add or remove an operation, keeping it on the right side of the resampling step
+export const toggleFilterStep = (pipeline: EnhancementPipeline, id: EnhancementId): EnhancementPipeline => {
+  const filters = getFilterSteps(pipeline);
+  const resampler = getResampleStep(pipeline) ?? { id: DEFAULT_RESAMPLER };
+  const nextFilters = filters.some(step => step.id === id)
+    ? filters.filter(step => step.id !== id)
+    : [...filters, { id }];
+
+  return arrangeSteps(nextFilters, resampler);
+};
+
+export const setResampler = (pipeline: EnhancementPipeline, id: EnhancementId): EnhancementPipeline => {
+  return arrangeSteps(getFilterSteps(pipeline), { id });
+};
+
+export const setStepParams = (
+  pipeline: EnhancementPipeline,
+  index: number,
+  params: EnhancementParams
+): EnhancementPipeline => {
+  return pipeline.map((step, stepIndex) =>
+    stepIndex === index ? { ...step, params: { ...step.params, ...params } } : step
+  );
+};
+
+// Swap a resampling step that needs a model for the classic one when there's
+// no model backend, so the default pipeline and the presets still run.
+// Filters that need a model have no stand-in and are left for the caller to refuse.
+export const withAvailableResampler = (pipeline: EnhancementPipeline, modelAvailable: boolean): EnhancementPipeline => {
+  if (modelAvailable) return pipeline;
+  return pipeline.map(step => {
+    const definition = getEnhancement(step.id);
+    return definition?.resamples && definition.requiresModel ? { id: FALLBACK_RESAMPLER } : step;
+  });
+};
+
+// A preset still matches with its resampler swapped for the fallback one
+export const findMatchingPreset = (pipeline: EnhancementPipeline): PipelinePreset | undefined => {
+  return pipelinePresets.find(preset =>
+    [preset.steps, withAvailableResampler(preset.steps, false)]
+      .some(steps => JSON.stringify(steps) === JSON.stringify(pipeline))
+  );
+};
+
+// Short label used for enhancement_type, e.g. "auto" or "hdr+night+upscale"
+export const describePipeline = (pipeline: EnhancementPipeline): string => {
+  return findMatchingPreset(pipeline)?.id ?? pipeline.map(step => step.id).join('+');
+};
+
+// Corrective operations suggested by an analysis report
+export const planCorrections = (report: ImageAnalysisReport): PipelineStep[] => {
+  const corrections: PipelineStep[] = [];
+
+  if (report.exposure.verdict === 'underexposed') {
+    corrections.push({ id: 'night', params: { strength: 0.6 } });
+  }
+  if (report.isBlurry) {
+    corrections.push({ id: 'deblur' });
+  }
+
+  return corrections;
+};
+
+// Insert corrections ahead of the resampling step, skipping operations the
+// pipeline already has
+export const adaptPipeline = (pipeline: EnhancementPipeline, report: ImageAnalysisReport): EnhancementPipeline => {
+  const corrections = planCorrections(report)
+    .filter(correction => !pipeline.some(step => step.id === correction.id));
+  if (corrections.length === 0) return pipeline;
+
+  const resampleIndex = pipeline.findIndex(step => getEnhancement(step.id)?.resamples);
+  const insertAt = resampleIndex === -1 ? pipeline.length : resampleIndex;
+  return [...pipeline.slice(0, insertAt), ...corrections, ...pipeline.slice(insertAt)];
+};
+
+export const pipelineRequiresModel = (pipeline: EnhancementPipeline): boolean => {
+  return pipeline.some(step => getEnhancement(step.id)?.requiresModel);
+};
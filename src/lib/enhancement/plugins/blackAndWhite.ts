@@ -0,0 +1,52 @@
+import { Contrast } from 'lucide-react';
+import { EnhancementParams, registerEnhancement } from '../registry';
+import { createLinearImage, LinearImage } from '../linear';
+
+// Example plugin. Any module in this directory is imported by enhancements.ts
+// on the main thread and in the worker; registering at module level is all it
+// takes to show up in the options and run in the pipeline. Keep heavy code
+// behind load() so it's only fetched when the step is used.
+
+const applyBlackAndWhite = async (image: LinearImage, params: EnhancementParams): Promise<LinearImage> => {
+  const { data } = image;
+  const amount = params.amount as number;
+  // Channel weights of a red, neutral or blue lens filter
+  const [wr, wg, wb] = params.filter === 'red'
+    ? [0.6, 0.3, 0.1]
+    : params.filter === 'blue'
+      ? [0.1, 0.3, 0.6]
+      : [0.2126, 0.7152, 0.0722];
+
+  const output = createLinearImage(image.width, image.height);
+  for (let i = 0; i < data.length; i += 4) {
+    const grey = wr * data[i] + wg * data[i + 1] + wb * data[i + 2];
+    output.data[i] = data[i] + (grey - data[i]) * amount;
+    output.data[i + 1] = data[i + 1] + (grey - data[i + 1]) * amount;
+    output.data[i + 2] = data[i + 2] + (grey - data[i + 2]) * amount;
+    output.data[i + 3] = data[i + 3];
+  }
+  return output;
+};
+
+registerEnhancement({
+  id: 'black-and-white',
+  name: 'Black & White',
+  icon: Contrast,
+  description: 'Converts to monochrome, optionally through a red or blue lens filter',
+  params: [
+    { type: 'number', id: 'amount', label: 'Amount', min: 0, max: 1, step: 0.05, default: 1 },
+    {
+      type: 'select',
+      id: 'filter',
+      label: 'Lens filter',
+      options: [
+        { value: 'none', label: 'None' },
+        { value: 'red', label: 'Red (darker skies)' },
+        { value: 'blue', label: 'Blue' },
+      ],
+      default: 'none'
+    },
+  ],
+  colorTransform: true,
+  load: async () => applyBlackAndWhite,
+});
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runFaceDetector } from './models';
+import { buildPortraitMask, detectFaces } from './portrait';
+
+vi.mock('./models', () => ({ runFaceDetector: vi.fn() }));
+
+// A skin-coloured square on a blue background: face-shaped, but only a colour
+const createSkinBlob = (): ImageData => {
+  const image = new ImageData(64, 64);
+  for (let y = 0; y < 64; y++) {
+    for (let x = 0; x < 64; x++) {
+      const skin = x >= 20 && x < 44 && y >= 16 && y < 48;
+      image.data.set(skin ? [224, 172, 140, 255] : [40, 80, 160, 255], (y * 64 + x) * 4);
+    }
+  }
+  return image;
+};
+
+describe('detectFaces', () => {
+  const detectWithModel = vi.mocked(runFaceDetector);
+
+  afterEach(() => {
+    detectWithModel.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('finds no faces without a detector, however face-like the skin', async () => {
+    detectWithModel.mockResolvedValue(null);
+    expect(await detectFaces(createSkinBlob())).toEqual([]);
+  });
+
+  it('masks skin by colour alone without a detector', async () => {
+    detectWithModel.mockResolvedValue(null);
+    const { mask, faces } = await buildPortraitMask(createSkinBlob(), 0.01);
+    expect(faces).toEqual([]);
+    expect(mask[32 * 64 + 32]).toBeGreaterThan(0.5);
+    expect(mask[4 * 64 + 4]).toBeLessThan(0.05);
+  });
+
+  it('takes the boxes from the face detection model', async () => {
+    detectWithModel.mockResolvedValue([{ x: 20, y: 16, width: 24, height: 32, score: 0.9 }]);
+    expect(await detectFaces(createSkinBlob())).toEqual([{ x: 20, y: 16, width: 24, height: 32 }]);
+  });
+
+  it("prefers the browser's face detector", async () => {
+    vi.stubGlobal('FaceDetector', class {
+      detect = async () => [{ boundingBox: { x: 1, y: 2, width: 3, height: 4 } }];
+    });
+    expect(await detectFaces(createSkinBlob())).toEqual([{ x: 1, y: 2, width: 3, height: 4 }]);
+    expect(detectWithModel).not.toHaveBeenCalled();
+  });
+});
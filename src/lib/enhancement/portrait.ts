@@ -0,0 +1,255 @@
+// Face-aware skin masking for Portrait mode. A Gaussian skin colour model in
+// the CbCr plane is refined with the skin tone sampled from detected faces, and
+// the resulting soft mask is feathered so adjustments never show a hard edge.
+// Faces come from the browser's FaceDetector or the face detection model; with
+// neither, the mask is the generic skin model alone.
+
+import { fastGaussianBlur } from './blur';
+import type { LinearImage } from './linear';
+import { runFaceDetector } from './models';
+
+export type FaceBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type PortraitMask = {
+  // Per-pixel skin weight in [0, 1]
+  mask: Float32Array;
+  faces: FaceBox[];
+};
+
+type SkinModel = {
+  meanCb: number;
+  meanCr: number;
+  // Inverse covariance of (Cb, Cr)
+  inverse: [number, number, number];
+};
+
+// Generic skin cluster (Hsu et al.), broad enough to cover light to dark skin
+// because CbCr is largely independent of luminance
+const GENERIC_MEAN_CB = 117.43;
+const GENERIC_MEAN_CR = 156.56;
+const GENERIC_COVARIANCE: [number, number, number] = [160.13, 12.14, 299.46];
+
+// Skin near-black or near-white carries no reliable chroma
+const MIN_SKIN_LUMA = 25;
+const MAX_SKIN_LUMA = 245;
+// Beyond this many face heights from every face, skin-coloured pixels are
+// probably wood, sand or walls and are only partially trusted
+const FACE_INFLUENCE = 3;
+const DISTANT_SKIN_WEIGHT = 0.3;
+
+const invert = ([a, b, d]: [number, number, number]): [number, number, number] => {
+  const determinant = a * d - b * b;
+  return [d / determinant, -b / determinant, a / determinant];
+};
+
+const genericModel: SkinModel = {
+  meanCb: GENERIC_MEAN_CB,
+  meanCr: GENERIC_MEAN_CR,
+  inverse: invert(GENERIC_COVARIANCE),
+};
+
+const chroma = (r: number, g: number, b: number) => ({
+  y: 0.299 * r + 0.587 * g + 0.114 * b,
+  cb: 128 - 0.168736 * r - 0.331264 * g + 0.5 * b,
+  cr: 128 + 0.5 * r - 0.418688 * g - 0.081312 * b,
+});
+
+const likelihood = (model: SkinModel, cb: number, cr: number): number => {
+  const dcb = cb - model.meanCb;
+  const dcr = cr - model.meanCr;
+  const [ia, ib, id] = model.inverse;
+  const distance = dcb * dcb * ia + 2 * dcb * dcr * ib + dcr * dcr * id;
+  return Math.exp(-0.5 * distance);
+};
+
+// Skin hues sit between red and yellow; this rejects pinks and greens the CbCr
+// ellipse lets through
+const isSkinHue = (r: number, g: number, b: number): boolean => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max === 0 || max - min < 8) return false;
+
+  const saturation = (max - min) / max;
+  if (saturation < 0.1 || saturation > 0.8) return false;
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / (max - min)) * 60;
+  else if (max === g) hue = (2 + (b - r) / (max - min)) * 60;
+  else hue = (4 + (r - g) / (max - min)) * 60;
+  if (hue < 0) hue += 360;
+
+  return hue <= 55 || hue >= 340;
+};
+
+// Minimal typing for the Shape Detection API, which isn't in the TS DOM lib yet
+type DetectedFace = { boundingBox: DOMRectReadOnly };
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => {
+  detect: (image: ImageBitmapSource) => Promise<DetectedFace[]>;
+};
+
+const detectWithBrowser = async (imageData: ImageData): Promise<FaceBox[] | null> => {
+  const FaceDetector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!FaceDetector) return null;
+
+  try {
+    const faces = await new FaceDetector({ fastMode: false, maxDetectedFaces: 10 }).detect(imageData);
+    return faces.map(({ boundingBox }) => ({
+      x: boundingBox.x,
+      y: boundingBox.y,
+      width: boundingBox.width,
+      height: boundingBox.height,
+    }));
+  } catch (error) {
+    console.warn('Browser face detection failed, falling back to the detection model:', error);
+    return null;
+  }
+};
+
+const detectWithModel = async (imageData: ImageData): Promise<FaceBox[] | null> => {
+  try {
+    const faces = await runFaceDetector(imageData);
+    return faces && faces.map(({ x, y, width, height }) => ({ x, y, width, height }));
+  } catch (error) {
+    console.warn('Face detection model failed, masking by skin colour alone:', error);
+    return null;
+  }
+};
+
+// No faces when neither detector is available: skin-coloured regions aren't
+// faces, and boxes around them would pull the skin model towards whatever
+// colour they happen to be
+export const detectFaces = async (imageData: ImageData): Promise<FaceBox[]> => {
+  return (await detectWithBrowser(imageData)) ?? (await detectWithModel(imageData)) ?? [];
+};
+
+// Fit the skin model to the centre of each face, where skin dominates. Mixing
+// in the generic covariance keeps the model from collapsing onto one tone.
+const adaptModel = (imageData: ImageData, faces: FaceBox[]): SkinModel => {
+  const { data, width, height } = imageData;
+  const samples: { cb: number; cr: number }[] = [];
+
+  for (const face of faces) {
+    const x0 = Math.max(0, Math.floor(face.x + face.width * 0.25));
+    const x1 = Math.min(width, Math.ceil(face.x + face.width * 0.75));
+    const y0 = Math.max(0, Math.floor(face.y + face.height * 0.3));
+    const y1 = Math.min(height, Math.ceil(face.y + face.height * 0.8));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y * width + x) * 4;
+        const { y: luma, cb, cr } = chroma(data[i], data[i + 1], data[i + 2]);
+        // Skip eyes, brows and hair that fall inside the box
+        if (luma > MIN_SKIN_LUMA && likelihood(genericModel, cb, cr) > 0.05) {
+          samples.push({ cb, cr });
+        }
+      }
+    }
+  }
+
+  if (samples.length < 50) return genericModel;
+
+  const meanCb = samples.reduce((sum, sample) => sum + sample.cb, 0) / samples.length;
+  const meanCr = samples.reduce((sum, sample) => sum + sample.cr, 0) / samples.length;
+  let a = 0, b = 0, d = 0;
+  for (const sample of samples) {
+    a += (sample.cb - meanCb) ** 2;
+    b += (sample.cb - meanCb) * (sample.cr - meanCr);
+    d += (sample.cr - meanCr) ** 2;
+  }
+
+  const covariance: [number, number, number] = [
+    0.5 * (a / samples.length) + 0.5 * GENERIC_COVARIANCE[0],
+    0.5 * (b / samples.length) + 0.5 * GENERIC_COVARIANCE[1],
+    0.5 * (d / samples.length) + 0.5 * GENERIC_COVARIANCE[2],
+  ];
+  return { meanCb, meanCr, inverse: invert(covariance) };
+};
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// feather is the blur radius as a fraction of the shorter image side
+export const buildPortraitMask = async (imageData: ImageData, feather: number): Promise<PortraitMask> => {
+  const { data, width, height } = imageData;
+  const faces = await detectFaces(imageData);
+  const model = faces.length > 0 ? adaptModel(imageData, faces) : genericModel;
+  const mask = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const i = pixel * 4;
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      const { y: luma, cb, cr } = chroma(r, g, b);
+
+      const skinLuma = luma > MIN_SKIN_LUMA && luma < MAX_SKIN_LUMA;
+      const skinLikelihood = skinLuma ? likelihood(model, cb, cr) : 0;
+      let weight = isSkinHue(r, g, b) ? smoothstep(0.15, 0.6, skinLikelihood) : 0;
+
+      if (faces.length > 0) {
+        // Trust skin colour near a face fully, far from every face only partly
+        let proximity = 0;
+        for (const face of faces) {
+          const centerX = face.x + face.width / 2;
+          const centerY = face.y + face.height / 2;
+          const distance = Math.hypot(x - centerX, y - centerY) / face.height;
+          proximity = Math.max(proximity, 1 - smoothstep(1, FACE_INFLUENCE, distance));
+
+          // Inside the face ellipse a looser threshold also catches shadowed
+          // skin, while eyes and lips still fall outside the model
+          const ex = (x - centerX) / (face.width * 0.45);
+          const ey = (y - centerY) / (face.height * 0.55);
+          if (ex * ex + ey * ey <= 1) weight = Math.max(weight, smoothstep(0.02, 0.3, skinLikelihood));
+        }
+        weight *= DISTANT_SKIN_WEIGHT + (1 - DISTANT_SKIN_WEIGHT) * proximity;
+      }
+
+      mask[pixel] = weight;
+    }
+  }
+
+  const sigma = Math.max(0.5, feather * Math.min(width, height));
+  return { mask: fastGaussianBlur(mask, width, height, sigma), faces };
+};
+
+// Debug view: tint the mask red and outline the detected faces in green
+export const renderMaskOverlay = (image: LinearImage, { mask, faces }: PortraitMask): LinearImage => {
+  const { data, width, height } = image;
+  const output = new Float32Array(data.length);
+
+  for (let pixel = 0, i = 0; pixel < mask.length; pixel++, i += 4) {
+    const weight = mask[pixel] * 0.6;
+    output[i] = data[i] * (1 - weight) + weight;
+    output[i + 1] = data[i + 1] * (1 - weight);
+    output[i + 2] = data[i + 2] * (1 - weight);
+    output[i + 3] = data[i + 3];
+  }
+
+  const thickness = Math.max(2, Math.round(Math.min(width, height) / 300));
+  for (const face of faces) {
+    const x0 = Math.max(0, Math.round(face.x));
+    const y0 = Math.max(0, Math.round(face.y));
+    const x1 = Math.min(width - 1, Math.round(face.x + face.width));
+    const y1 = Math.min(height - 1, Math.round(face.y + face.height));
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const onBorder = x - x0 < thickness || x1 - x < thickness || y - y0 < thickness || y1 - y < thickness;
+        if (!onBorder) continue;
+        const i = (y * width + x) * 4;
+        output[i] = 0;
+        output[i + 1] = 1;
+        output[i + 2] = 0;
+      }
+    }
+  }
+
+  return { data: output, width, height };
+};
@@ -0,0 +1,68 @@
+import type { ImageAnalysisReport } from './analysis';
+import type { DeviceLimits } from './budget';
+import type { SourceFormat } from './decoders';
+import type { ExportFormat, ExportOptions } from './export';
+import type { CustomLook } from './looks';
+import type { ModelConfig, ModelInitResult } from './models';
+import type { EnhancementPipeline } from './pipeline';
+import type { ResizeTarget } from './resizeTarget';
+import type { TileOptions } from './tiling';
+
+// Messages exchanged between the main thread facade and the enhancement worker.
+// Every request carries an id that is echoed back on its progress and result.
+
+export type WorkerRequest =
+  | { id: number; type: 'configure'; config: Partial<ModelConfig> }
+  | { id: number; type: 'initialize' }
+  | { id: number; type: 'analyze'; bitmap: ImageBitmap }
+  // Files the browser can't decode (HEIC, TIFF, DNG), as their raw bytes
+  | { id: number; type: 'decode'; bytes: ArrayBuffer }
+  | { id: number; type: 'registerLook'; look: CustomLook }
+  | { id: number; type: 'bakeLut'; pipeline: EnhancementPipeline; size: number }
+  | {
+      id: number;
+      type: 'enhance';
+      // A single image, or 2-7 bracketed exposures ordered darkest to
+      // brightest that are merged before the pipeline runs
+      bitmaps: ImageBitmap[];
+      // A camera raw upload's bytes, developed here straight into the linear
+      // working buffer in place of the 8-bit bitmaps[0]
+      raw?: ArrayBuffer;
+      // Style or colour reference for steps that declare one
+      reference?: ImageBitmap;
+      pipeline: EnhancementPipeline;
+      target: ResizeTarget;
+      tiling?: Partial<TileOptions>;
+      // Canvas and memory limits, detected on the main thread so the page's
+      // estimate and the worker's check agree
+      limits: DeviceLimits;
+      // Space the pixels are decoded into and processed in; the output is
+      // converted to output.colorSpace only when encoding
+      workingSpace: PredefinedColorSpace;
+      output: ExportOptions;
+      adaptive: boolean;
+    };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; message: string }
+  | ({ id: number; type: 'initialized' } & ModelInitResult)
+  | { id: number; type: 'configured' }
+  | { id: number; type: 'analyzed'; report: ImageAnalysisReport }
+  | { id: number; type: 'decoded'; bitmap: ImageBitmap; format: SourceFormat; pageCount: number }
+  | { id: number; type: 'lookRegistered' }
+  // The baked LUT serialized as .cube text
+  | { id: number; type: 'lutBaked'; cube: string; skipped: string[] }
+  | {
+      id: number;
+      type: 'enhanced';
+      blob: Blob;
+      // May differ from the requested ones, to keep transparency or because
+      // the format is sRGB only
+      format: ExportFormat;
+      colorSpace: PredefinedColorSpace;
+      width: number;
+      height: number;
+      pipeline: EnhancementPipeline;
+      report: ImageAnalysisReport;
+    }
+  | { id: number; type: 'error'; message: string };
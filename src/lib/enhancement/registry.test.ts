@@ -0,0 +1,37 @@
+import { Crown } from 'lucide-react';
+import { describe, expect, it } from 'vitest';
+import { getEnhancement, isEnhancementAvailable, listEnhancements, registerEnhancement } from './enhancements';
+
+describe('plan-restricted enhancements', () => {
+  registerEnhancement({
+    id: 'test-pro-only',
+    name: 'Pro only',
+    description: 'Only offered on paid plans',
+    icon: Crown,
+    plans: ['pro', 'unlimited'],
+    load: async () => async image => image,
+  });
+  const definition = getEnhancement('test-pro-only')!;
+
+  it('is listed with the built-in enhancements', () => {
+    expect(listEnhancements()).toContain(definition);
+  });
+
+  it('is disabled on the free plan and when signed out', () => {
+    expect(isEnhancementAvailable(definition, 'free', true)).toBe(false);
+    expect(isEnhancementAvailable(definition, undefined, true)).toBe(false);
+  });
+
+  it('is enabled on the plans it names', () => {
+    expect(isEnhancementAvailable(definition, 'pro', true)).toBe(true);
+    expect(isEnhancementAvailable(definition, 'unlimited', true)).toBe(true);
+  });
+
+  it('leaves unrestricted enhancements available on every plan', () => {
+    const unrestricted = listEnhancements().filter(candidate => !candidate.plans && !candidate.requiresModel);
+    expect(unrestricted.length).toBeGreaterThan(0);
+    for (const candidate of unrestricted) {
+      expect(isEnhancementAvailable(candidate, 'free', false)).toBe(true);
+    }
+  });
+});
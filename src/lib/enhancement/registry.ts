@@ -0,0 +1,142 @@
+import type { LucideIcon } from 'lucide-react';
+import type { Subscription } from '@/types/supabase';
+import type { ImageAnalysisReport } from './analysis';
+import type { LinearImage } from './linear';
+import type { TileOptions, TilePlacement } from './tiling';
+
+export type EnhancementId = string;
+
+export type PlanId = Subscription['plan'];
+
+export type SelectOption = { value: string; label: string };
+
+// Parameter schema published by an enhancement. The UI renders a control per
+// entry and the engine fills in defaults for anything the user didn't set.
+export type EnhancementParamSpec =
+  | {
+      type: 'number';
+      id: string;
+      label: string;
+      min: number;
+      max: number;
+      step: number;
+      default: number;
+    }
+  | {
+      type: 'boolean';
+      id: string;
+      label: string;
+      default: boolean;
+    }
+  | {
+      type: 'select';
+      id: string;
+      label: string;
+      // A function is re-read on every render, for option lists that change at
+      // runtime (e.g. imported looks)
+      options: SelectOption[] | (() => SelectOption[]);
+      default: string;
+    };
+
+export type EnhancementParams = Record<string, number | boolean | string>;
+
+export type EnhancementContext = {
+  // Uniform scale the pipeline's resampling step has to reach (see resizeTarget.ts)
+  scaleFactor: number;
+  // Analysis of the whole input image, so tiled operations can use global
+  // estimates instead of measuring each tile on its own
+  report?: ImageAnalysisReport;
+  // The reference image sent along with the request, for steps that declare one
+  reference?: ImageData;
+  // Tile limits of this run, for whole-image steps that still need to tile
+  // internally (e.g. model passes)
+  tiling?: TileOptions;
+  // Set when the step runs on one tile of a larger image: resampling steps
+  // produce exactly this output so the tiles line up (see processTiled)
+  placement?: TilePlacement;
+};
+
+// Steps take and return the linear-light working buffer (see linear.ts)
+export type EnhancementImplementation = (
+  image: LinearImage,
+  params: EnhancementParams,
+  context: EnhancementContext
+) => Promise<LinearImage>;
+
+export type EnhancementDefinition = {
+  id: EnhancementId;
+  name: string;
+  description: string;
+  icon: LucideIcon;
+  params?: EnhancementParamSpec[];
+  // Plans allowed to use this enhancement; every plan when omitted
+  plans?: PlanId[];
+  // Needs an inference backend (see backend.ts) rather than plain pixel math
+  requiresModel?: boolean;
+  // Changes the image size by the context's scaleFactor. Every pipeline has
+  // exactly one such step; all other operations must keep the size unchanged.
+  resamples?: boolean;
+  // Goes after the resampling step instead of before it, on the output resolution
+  afterResample?: boolean;
+  // A per-pixel colour mapping (each output pixel depends only on the same
+  // input pixel), so it can be baked into a 3D LUT. Set it on every such step:
+  // LUT export leaves out the ones that don't.
+  colorTransform?: boolean;
+  // Run on the full image instead of in tiles, for operations that need global
+  // context (face detection, masks) and don't blow up memory doing so, or
+  // that do their own tiling around a global pass
+  wholeImage?: boolean;
+  // Needs a second image from the user (a style or colour reference). A
+  // pipeline carries at most one, shared by every step that asks for it.
+  reference?: { label: string };
+  // Loaded lazily so the UI can list enhancements without pulling in their
+  // implementations (and the model runtime) on the main thread
+  load: () => Promise<EnhancementImplementation>;
+};
+
+const enhancements = new Map<EnhancementId, EnhancementDefinition>();
+
+export const registerEnhancement = (definition: EnhancementDefinition) => {
+  if (enhancements.has(definition.id)) {
+    throw new Error(`Enhancement "${definition.id}" is already registered`);
+  }
+  enhancements.set(definition.id, definition);
+};
+
+export const getEnhancement = (id: EnhancementId): EnhancementDefinition | undefined => {
+  return enhancements.get(id);
+};
+
+// In registration order, which is also display order
+export const listEnhancements = (): EnhancementDefinition[] => {
+  return Array.from(enhancements.values());
+};
+
+export const isAvailableOnPlan = (definition: EnhancementDefinition, plan: PlanId | undefined): boolean => {
+  return !definition.plans || (plan !== undefined && definition.plans.includes(plan));
+};
+
+// Whether the options let the user pick an enhancement: their plan includes
+// it, and it either runs without a model or a model backend started
+export const isEnhancementAvailable = (
+  definition: EnhancementDefinition,
+  plan: PlanId | undefined,
+  modelAvailable: boolean
+): boolean => {
+  return (modelAvailable || !definition.requiresModel) && isAvailableOnPlan(definition, plan);
+};
+
+export const getSelectOptions = (spec: Extract<EnhancementParamSpec, { type: 'select' }>): SelectOption[] => {
+  return typeof spec.options === 'function' ? spec.options() : spec.options;
+};
+
+export const resolveParams = (
+  definition: EnhancementDefinition,
+  overrides: EnhancementParams = {}
+): EnhancementParams => {
+  const params: EnhancementParams = {};
+  for (const spec of definition.params ?? []) {
+    params[spec.id] = overrides[spec.id] ?? spec.default;
+  }
+  return params;
+};
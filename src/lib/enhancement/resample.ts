@@ -0,0 +1,139 @@
+import { createPixelBuffer, isLinearImage, PixelBuffer } from './linear';
+
+// Separable Lanczos resampling. Downscaling widens the kernel by the reduction
+// factor so it also acts as the anti-aliasing filter.
+
+const LOBES = 3;
+
+const sinc = (x: number) => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const lanczos = (x: number) => Math.abs(x) < LOBES ? sinc(x) * sinc(x / LOBES) : 0;
+
+type Contributions = {
+  // First source index and normalized weights for every output index
+  starts: Int32Array;
+  weights: Float32Array[];
+};
+
+// Where output pixels sample the source: output pixel k is centred on source
+// coordinate (k + offset + 0.5) / scale - 0.5. Tiles of a larger image pass
+// the full image's scale and their sub-pixel offset on its grid.
+export type SamplingGrid = {
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+};
+
+const contributions = (sourceLength: number, targetLength: number, scale: number, offset: number): Contributions => {
+  const support = scale < 1 ? LOBES / scale : LOBES;
+  const kernelScale = Math.min(1, scale);
+  const starts = new Int32Array(targetLength);
+  const weights: Float32Array[] = [];
+
+  for (let target = 0; target < targetLength; target++) {
+    // Pixel centres line up: output centre maps to this source coordinate
+    const center = (target + offset + 0.5) / scale - 0.5;
+    const first = Math.max(0, Math.ceil(center - support));
+    const last = Math.min(sourceLength - 1, Math.floor(center + support));
+
+    const taps = new Float32Array(Math.max(1, last - first + 1));
+    let total = 0;
+    for (let source = first; source <= last; source++) {
+      const weight = lanczos((source - center) * kernelScale);
+      taps[source - first] = weight;
+      total += weight;
+    }
+    if (total !== 0) {
+      for (let tap = 0; tap < taps.length; tap++) taps[tap] /= total;
+    } else {
+      taps[0] = 1;
+    }
+
+    starts[target] = Math.min(first, sourceLength - 1);
+    weights.push(taps);
+  }
+
+  return { starts, weights };
+};
+
+export const lanczosResize = <T extends PixelBuffer>(
+  image: T,
+  width: number,
+  height: number,
+  grid?: SamplingGrid
+): T => {
+  const { data, width: sourceWidth, height: sourceHeight } = image;
+  const { scaleX, scaleY, offsetX, offsetY } = grid ?? {
+    scaleX: width / sourceWidth,
+    scaleY: height / sourceHeight,
+    offsetX: 0,
+    offsetY: 0,
+  };
+  if (width === sourceWidth && height === sourceHeight && scaleX === 1 && scaleY === 1 && offsetX === 0 && offsetY === 0) {
+    return image;
+  }
+
+  // Horizontal pass into a float buffer, vertical pass into the output
+  const horizontal = contributions(sourceWidth, width, scaleX, offsetX);
+  const intermediate = new Float32Array(width * sourceHeight * 4);
+  for (let y = 0; y < sourceHeight; y++) {
+    for (let x = 0; x < width; x++) {
+      const start = horizontal.starts[x];
+      const taps = horizontal.weights[x];
+      const target = (y * width + x) * 4;
+      for (let tap = 0; tap < taps.length; tap++) {
+        const source = (y * sourceWidth + start + tap) * 4;
+        const weight = taps[tap];
+        intermediate[target] += data[source] * weight;
+        intermediate[target + 1] += data[source + 1] * weight;
+        intermediate[target + 2] += data[source + 2] * weight;
+        intermediate[target + 3] += data[source + 3] * weight;
+      }
+    }
+  }
+
+  // The kernel's negative lobes ring below black and past full alpha; 8-bit
+  // outputs clamp on assignment, the working buffer keeps only highlight headroom
+  const vertical = contributions(sourceHeight, height, scaleY, offsetY);
+  const output = createPixelBuffer(image, width, height);
+  const maxAlpha = isLinearImage(image) ? 1 : 255;
+  for (let y = 0; y < height; y++) {
+    const start = vertical.starts[y];
+    const taps = vertical.weights[y];
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let tap = 0; tap < taps.length; tap++) {
+        const source = ((start + tap) * width + x) * 4;
+        const weight = taps[tap];
+        r += intermediate[source] * weight;
+        g += intermediate[source + 1] * weight;
+        b += intermediate[source + 2] * weight;
+        a += intermediate[source + 3] * weight;
+      }
+      const target = (y * width + x) * 4;
+      output.data[target] = Math.max(0, r);
+      output.data[target + 1] = Math.max(0, g);
+      output.data[target + 2] = Math.max(0, b);
+      output.data[target + 3] = Math.min(maxAlpha, Math.max(0, a));
+    }
+  }
+
+  return output;
+};
+
+export const cropImage = <T extends PixelBuffer>(image: T, x: number, y: number, width: number, height: number): T => {
+  const output = createPixelBuffer(image, width, height);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    output.data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return output;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_OUTPUT_SIDE, ResizeTarget, validateResizeTarget } from './resizeTarget';
+
+describe('validateResizeTarget', () => {
+  const valid: ResizeTarget[] = [
+    { mode: 'scale', factor: 4 },
+    { mode: 'width', width: 3840 },
+    { mode: 'height', height: 2160 },
+    { mode: 'box', width: 3000, height: 2000, fit: 'fill' },
+    { mode: 'print', width: 8, height: 10, unit: 'in', dpi: 300, fit: 'fit' },
+    { mode: 'print', width: 20, height: 25, unit: 'cm', dpi: 300, fit: 'stretch' },
+  ];
+
+  it.each(valid)('accepts $mode', target => {
+    expect(validateResizeTarget(target)).toBeNull();
+  });
+
+  const invalid: [string, ResizeTarget][] = [
+    ['a zero width', { mode: 'width', width: 0 }],
+    ['a negative height', { mode: 'height', height: -100 }],
+    ['a NaN box side', { mode: 'box', width: NaN, height: 2000, fit: 'fit' }],
+    ['a fractional width', { mode: 'width', width: 1920.5 }],
+    ['a huge width', { mode: 'width', width: MAX_OUTPUT_SIDE + 1 }],
+    ['a huge box', { mode: 'box', width: 1e9, height: 1e9, fit: 'fit' }],
+    ['an infinite scale', { mode: 'scale', factor: Infinity }],
+    ['a zero dpi', { mode: 'print', width: 8, height: 10, unit: 'in', dpi: 0, fit: 'fit' }],
+    ['a huge dpi', { mode: 'print', width: 8, height: 10, unit: 'in', dpi: 100000, fit: 'fit' }],
+    ['a print smaller than a pixel', { mode: 'print', width: 0.001, height: 10, unit: 'cm', dpi: 72, fit: 'fit' }],
+    ['a print too large at its dpi', { mode: 'print', width: 200, height: 10, unit: 'in', dpi: 300, fit: 'fit' }],
+  ];
+
+  it.each(invalid)('rejects %s', (_, target) => {
+    expect(validateResizeTarget(target)).not.toBeNull();
+  });
+
+  it('rejects sizes that need a scale outside the resampling range', () => {
+    const source = { width: 1000, height: 800 };
+    expect(validateResizeTarget({ mode: 'width', width: 4000 }, source)).toBeNull();
+    expect(validateResizeTarget({ mode: 'width', width: 20000 }, source)).toMatch(/20x scale/);
+    expect(validateResizeTarget({ mode: 'box', width: 50, height: 50, fit: 'fit' }, source)).toMatch(/scale/);
+  });
+});
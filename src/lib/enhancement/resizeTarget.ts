@@ -0,0 +1,186 @@
+// The output size a user asks for, and how the engine reaches it: one uniform
+// scale for the pipeline's resampling step, then an exact resize or centre
+// crop for targets with a different aspect ratio.
+
+export type BoxFit = 'fit' | 'fill' | 'stretch';
+
+export type PrintUnit = 'in' | 'cm';
+
+export type ResizeTarget =
+  | { mode: 'scale'; factor: number }
+  | { mode: 'width'; width: number }
+  | { mode: 'height'; height: number }
+  // Fit inside the box, fill it and crop the overflow, or stretch to it
+  | { mode: 'box'; width: number; height: number; fit: BoxFit }
+  | { mode: 'print'; width: number; height: number; unit: PrintUnit; dpi: number; fit: BoxFit };
+
+export type ResizePlan = {
+  // Uniform scale applied by the resampling step
+  scale: number;
+  // Final output size
+  width: number;
+  height: number;
+  // How the resampled image becomes the final size: already there, resampled
+  // to it (stretch), or cropped around the centre (fill)
+  finish: 'none' | 'stretch' | 'crop';
+};
+
+export const DEFAULT_RESIZE_TARGET: ResizeTarget = { mode: 'scale', factor: 4 };
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 16;
+
+const CM_PER_INCH = 2.54;
+
+// Pixel box for a print size
+const printBox = (target: Extract<ResizeTarget, { mode: 'print' }>) => {
+  const inches = (value: number) => target.unit === 'cm' ? value / CM_PER_INCH : value;
+  return {
+    width: Math.round(inches(target.width) * target.dpi),
+    height: Math.round(inches(target.height) * target.dpi),
+  };
+};
+
+export const planResize = (target: ResizeTarget, sourceWidth: number, sourceHeight: number): ResizePlan => {
+  const uniform = (scale: number): ResizePlan => ({
+    scale,
+    width: Math.max(1, Math.round(sourceWidth * scale)),
+    height: Math.max(1, Math.round(sourceHeight * scale)),
+    finish: 'none',
+  });
+
+  switch (target.mode) {
+    case 'scale':
+      return uniform(target.factor);
+    case 'width':
+      return uniform(target.width / sourceWidth);
+    case 'height':
+      return uniform(target.height / sourceHeight);
+    case 'box':
+    case 'print': {
+      const box = target.mode === 'print' ? printBox(target) : target;
+      const scaleX = box.width / sourceWidth;
+      const scaleY = box.height / sourceHeight;
+
+      if (target.fit === 'fit') {
+        return uniform(Math.min(scaleX, scaleY));
+      }
+      // Fill and stretch resample to cover the box, then crop or squeeze the
+      // other axis, so neither has to upsample past what the box needs
+      return {
+        scale: Math.max(scaleX, scaleY),
+        width: box.width,
+        height: box.height,
+        finish: target.fit === 'fill' ? 'crop' : 'stretch',
+      };
+    }
+  }
+};
+
+const formatNumber = (value: number) => String(Number(value.toFixed(2)));
+
+// Bounds for requests that can't be meant (a 0.001 inch print, a
+// million-pixel side); whether the device can actually produce a sane size
+// is for the memory budget to decide
+export const MAX_OUTPUT_SIDE = 32768;
+export const MIN_DPI = 50;
+export const MAX_DPI = 2400;
+
+// Why a target can't be used, or null. With the source size, also checks the
+// scale it implies, which the resampling step has the same limits on.
+export const validateResizeTarget = (
+  target: ResizeTarget,
+  sourceSize?: { width: number; height: number }
+): string | null => {
+  const values = Object.values(target).filter((value): value is number => typeof value === 'number');
+  if (values.some(value => !Number.isFinite(value) || value <= 0)) {
+    return 'Output size values must be positive numbers';
+  }
+
+  switch (target.mode) {
+    case 'scale':
+      if (target.factor < MIN_SCALE || target.factor > MAX_SCALE) {
+        return `Scale must be between ${MIN_SCALE}x and ${MAX_SCALE}x`;
+      }
+      break;
+    case 'width':
+    case 'height':
+    case 'box': {
+      const sides = target.mode === 'box' ? [target.width, target.height]
+        : [target.mode === 'width' ? target.width : target.height];
+      if (sides.some(side => !Number.isInteger(side) || side > MAX_OUTPUT_SIDE)) {
+        return `Sizes must be whole pixels up to ${MAX_OUTPUT_SIDE}`;
+      }
+      break;
+    }
+    case 'print': {
+      if (!Number.isInteger(target.dpi) || target.dpi < MIN_DPI || target.dpi > MAX_DPI) {
+        return `Resolution must be between ${MIN_DPI} and ${MAX_DPI} dpi`;
+      }
+      const box = printBox(target);
+      if (box.width < 1 || box.height < 1) {
+        return 'Print size is too small for this resolution';
+      }
+      if (box.width > MAX_OUTPUT_SIDE || box.height > MAX_OUTPUT_SIDE) {
+        return `Print size at ${target.dpi} dpi is over ${MAX_OUTPUT_SIDE} pixels`;
+      }
+      break;
+    }
+  }
+
+  if (sourceSize) {
+    const { scale } = planResize(target, sourceSize.width, sourceSize.height);
+    if (scale < MIN_SCALE || scale > MAX_SCALE) {
+      return `This size needs a ${formatNumber(scale)}x scale; it must be between ${MIN_SCALE}x and ${MAX_SCALE}x`;
+    }
+  }
+  return null;
+};
+
+// Compact label, stored in enhanced_images.quality (e.g. "4x", "3840w",
+// "3000x2000-fit", "8x10in@300dpi-fill") and parsed back for replays
+export const describeResizeTarget = (target: ResizeTarget): string => {
+  switch (target.mode) {
+    case 'scale':
+      return `${formatNumber(target.factor)}x`;
+    case 'width':
+      return `${target.width}w`;
+    case 'height':
+      return `${target.height}h`;
+    case 'box':
+      return `${target.width}x${target.height}-${target.fit}`;
+    case 'print':
+      return `${formatNumber(target.width)}x${formatNumber(target.height)}${target.unit}@${target.dpi}dpi-${target.fit}`;
+  }
+};
+
+export const parseResizeTarget = (label: string): ResizeTarget | null => {
+  let match = /^(\d+(?:\.\d+)?)x$/.exec(label);
+  if (match) return { mode: 'scale', factor: Number(match[1]) };
+
+  match = /^(\d+)([wh])$/.exec(label);
+  if (match) {
+    return match[2] === 'w'
+      ? { mode: 'width', width: Number(match[1]) }
+      : { mode: 'height', height: Number(match[1]) };
+  }
+
+  match = /^(\d+)x(\d+)-(fit|fill|stretch)$/.exec(label);
+  if (match) {
+    return { mode: 'box', width: Number(match[1]), height: Number(match[2]), fit: match[3] as BoxFit };
+  }
+
+  match = /^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)(in|cm)@(\d+)dpi-(fit|fill|stretch)$/.exec(label);
+  if (match) {
+    return {
+      mode: 'print',
+      width: Number(match[1]),
+      height: Number(match[2]),
+      unit: match[3] as PrintUnit,
+      dpi: Number(match[4]),
+      fit: match[5] as BoxFit,
+    };
+  }
+
+  return null;
+};
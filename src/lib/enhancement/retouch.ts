@@ -0,0 +1,152 @@
+// Skin retouching inside a portrait mask: frequency separation to even out
+// tone while keeping pore texture, and spot healing for small dark blemishes.
+// Both work on the working buffer, on the perceptual scale their thresholds
+// and blends were tuned on.
+
+import { fastGaussianBlur } from './blur';
+import { fromPerceptual, LinearImage, perceptualLuminance, toPerceptual } from './linear';
+
+export type FrequencySeparationOptions = {
+  // Split radius in pixels; detail finer than this counts as texture
+  sigma: number;
+  // How far the low-frequency (tone) layer is flattened, 0-1
+  evening: number;
+  // Gain on the high-frequency (texture) layer; 1 keeps it unchanged
+  texture: number;
+};
+
+// Blemishes darker than their surroundings by this much (0-255) get healed
+const MIN_BLEMISH_CONTRAST = 8;
+const MIN_MASK_FOR_HEALING = 0.5;
+
+const channelPlane = (data: Float32Array, channel: number, pixelCount: number): Float32Array => {
+  const plane = new Float32Array(pixelCount);
+  for (let pixel = 0; pixel < pixelCount; pixel++) plane[pixel] = toPerceptual(data[pixel * 4 + channel]);
+  return plane;
+};
+
+// Blur that only averages over masked pixels, so skin tone never picks up the
+// background across the mask edge
+const maskedBlur = (
+  values: Float32Array,
+  weights: Float32Array,
+  blurredWeights: Float32Array,
+  width: number,
+  height: number,
+  sigma: number
+): Float32Array => {
+  const weighted = values.map((value, i) => value * weights[i]);
+  const blurred = fastGaussianBlur(weighted, width, height, sigma);
+  return blurred.map((value, i) => blurredWeights[i] > 1e-4 ? value / blurredWeights[i] : values[i]);
+};
+
+export const frequencySeparation = (
+  image: LinearImage,
+  mask: Float32Array,
+  { sigma, evening, texture }: FrequencySeparationOptions
+): LinearImage => {
+  const { data, width, height } = image;
+  const pixelCount = width * height;
+  const output = new Float32Array(data);
+  const blurredMask = fastGaussianBlur(mask, width, height, sigma);
+  const blurredMaskWide = fastGaussianBlur(mask, width, height, sigma * 3);
+
+  for (let channel = 0; channel < 3; channel++) {
+    const plane = channelPlane(data, channel, pixelCount);
+    const low = maskedBlur(plane, mask, blurredMask, width, height, sigma);
+    // A wider blur of the same masked tone is the "evened" target
+    const even = maskedBlur(plane, mask, blurredMaskWide, width, height, sigma * 3);
+
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+      // Outside the mask the pixel stays exactly as it was
+      if (mask[pixel] <= 0) continue;
+      const high = plane[pixel] - low[pixel];
+      const tone = low[pixel] + (even[pixel] - low[pixel]) * evening;
+      const retouched = tone + high * texture;
+      output[pixel * 4 + channel] = fromPerceptual(plane[pixel] + (retouched - plane[pixel]) * mask[pixel]);
+    }
+  }
+
+  return { data: output, width, height };
+};
+
+// Find small dark spots inside the mask and fill them from their surroundings.
+// Returns the healed image and how many spots were found.
+export const healSpots = (
+  image: LinearImage,
+  mask: Float32Array,
+  radius: number
+): { image: LinearImage; spots: number } => {
+  const { data, width, height } = image;
+  const pixelCount = width * height;
+
+  const luminance = perceptualLuminance(image);
+  const surroundings = fastGaussianBlur(luminance, width, height, radius * 3);
+
+  const candidates = new Uint8Array(pixelCount);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const darkness = surroundings[pixel] - luminance[pixel];
+    if (mask[pixel] >= MIN_MASK_FOR_HEALING &&
+      darkness > Math.max(MIN_BLEMISH_CONTRAST, surroundings[pixel] * 0.08)) {
+      candidates[pixel] = 1;
+    }
+  }
+
+  // Keep only compact spots; larger dark regions are features (eyes, brows, nostrils)
+  const maxArea = Math.PI * (2 * radius) ** 2;
+  const blemishes = new Float32Array(pixelCount);
+  const visited = new Uint8Array(pixelCount);
+  let spots = 0;
+
+  for (let start = 0; start < pixelCount; start++) {
+    if (!candidates[start] || visited[start]) continue;
+
+    const region: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop() as number;
+      region.push(index);
+      const x = index % width;
+      const neighbors = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const neighbor of neighbors) {
+        if (neighbor >= 0 && neighbor < pixelCount && candidates[neighbor] && !visited[neighbor]) {
+          visited[neighbor] = 1;
+          stack.push(neighbor);
+        }
+      }
+    }
+
+    if (region.length >= 2 && region.length <= maxArea) {
+      spots++;
+      for (const index of region) blemishes[index] = 1;
+    }
+  }
+
+  if (spots === 0) return { image, spots };
+
+  // Grow and soften the spots so the fill blends in
+  const healWeight = fastGaussianBlur(blemishes, width, height, Math.max(1, radius * 0.5))
+    .map(value => Math.min(1, value * 3));
+  const clean = healWeight.map(value => value < 0.05 ? 1 : 0);
+  const blurredClean = fastGaussianBlur(clean, width, height, radius * 2);
+
+  const output = new Float32Array(data);
+  for (let channel = 0; channel < 3; channel++) {
+    const plane = channelPlane(data, channel, pixelCount);
+    const fill = maskedBlur(plane, clean, blurredClean, width, height, radius * 2);
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+      const weight = healWeight[pixel];
+      if (weight > 0) {
+        output[pixel * 4 + channel] = fromPerceptual(plane[pixel] + (fill[pixel] - plane[pixel]) * weight);
+      }
+    }
+  }
+
+  return { image: { data: output, width, height }, spots };
+};
@@ -0,0 +1,101 @@
+import { gaussianBlur } from './blur';
+import { createLinearImage, fromPerceptual, LinearImage, perceptualLuminance, toPerceptual } from './linear';
+
+// Unsharp masking: add back the difference between the image and a Gaussian
+// blur of it, optionally only where that difference clears a noise threshold
+// and without overshooting the local range (halos).
+
+export type UnsharpMaskOptions = {
+  // Gaussian sigma in pixels
+  radius: number;
+  amount: number;
+  // Differences below this (0-255) are treated as noise and left alone
+  threshold: number;
+  // Clamp the result to the surrounding pixels' range, plus a small overshoot
+  limitHalos: boolean;
+  // Sharpen luminance only, so edges don't pick up colour fringes
+  luminanceOnly: boolean;
+};
+
+// Fraction of the local range the result may still overshoot with halo limiting
+const HALO_OVERSHOOT = 0.1;
+
+// Separable running minimum and maximum over a (2 * radius + 1)² window
+const localRange = (values: Float32Array, width: number, height: number, radius: number) => {
+  const pass = (input: Float32Array, horizontal: boolean, pick: (a: number, b: number) => number) => {
+    const output = new Float32Array(input.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let result = input[y * width + x];
+        for (let offset = -radius; offset <= radius; offset++) {
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + offset)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + offset));
+          result = pick(result, input[sy * width + sx]);
+        }
+        output[y * width + x] = result;
+      }
+    }
+    return output;
+  };
+
+  return {
+    min: pass(pass(values, true, Math.min), false, Math.min),
+    max: pass(pass(values, true, Math.max), false, Math.max),
+  };
+};
+
+// Sharpened copy of one plane
+const sharpenPlane = (
+  plane: Float32Array,
+  width: number,
+  height: number,
+  { radius, amount, threshold, limitHalos }: UnsharpMaskOptions
+): Float32Array => {
+  const blurred = gaussianBlur(plane, width, height, radius);
+  const range = limitHalos ? localRange(plane, width, height, Math.max(1, Math.round(radius))) : null;
+  const output = new Float32Array(plane.length);
+
+  for (let i = 0; i < plane.length; i++) {
+    const detail = plane[i] - blurred[i];
+    // Soft knee instead of a hard cut-off so the threshold doesn't leave edges in flat areas
+    const magnitude = Math.abs(detail);
+    const gate = threshold > 0 ? Math.min(1, Math.max(0, (magnitude - threshold / 2) / (threshold / 2))) : 1;
+    let value = plane[i] + detail * amount * gate;
+
+    if (range) {
+      const overshoot = (range.max[i] - range.min[i]) * HALO_OVERSHOOT;
+      value = Math.min(range.max[i] + overshoot, Math.max(range.min[i] - overshoot, value));
+    }
+    output[i] = value;
+  }
+
+  return output;
+};
+
+// Works on the perceptual scale, where the threshold and halo limits were tuned
+export const unsharpMask = (image: LinearImage, options: UnsharpMaskOptions): LinearImage => {
+  const { data, width, height } = image;
+  const pixelCount = width * height;
+  const output = createLinearImage(width, height);
+  output.data.set(data);
+
+  if (options.luminanceOnly) {
+    const luminance = perceptualLuminance(image);
+    const sharpened = sharpenPlane(luminance, width, height, options);
+    for (let pixel = 0, i = 0; pixel < pixelCount; pixel++, i += 4) {
+      const delta = sharpened[pixel] - luminance[pixel];
+      output.data[i] = fromPerceptual(toPerceptual(data[i]) + delta);
+      output.data[i + 1] = fromPerceptual(toPerceptual(data[i + 1]) + delta);
+      output.data[i + 2] = fromPerceptual(toPerceptual(data[i + 2]) + delta);
+    }
+    return output;
+  }
+
+  for (let channel = 0; channel < 3; channel++) {
+    const plane = new Float32Array(pixelCount);
+    for (let pixel = 0; pixel < pixelCount; pixel++) plane[pixel] = toPerceptual(data[pixel * 4 + channel]);
+    const sharpened = sharpenPlane(plane, width, height, options);
+    for (let pixel = 0; pixel < pixelCount; pixel++) output.data[pixel * 4 + channel] = fromPerceptual(sharpened[pixel]);
+  }
+  return output;
+};
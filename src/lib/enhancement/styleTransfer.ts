@@ -0,0 +1,185 @@
+import { Tensor } from '@huggingface/transformers';
+import { resizeImageData } from './canvas';
+import { runStyleDecoder, runStyleEncoder } from './models';
+import { forEachTile, processTiled, TileOptions } from './tiling';
+
+// Arbitrary style transfer with adaptive instance normalization (Huang &
+// Belongie, 2017): content features are renormalized to the per-channel mean
+// and deviation of the style image's features, then decoded back to pixels.
+
+export type StyleTransferOptions = {
+  // Content/style balance: 0 keeps the content features, 1 fully restyles them
+  styleWeight: number;
+  // Keep the original colours and take only the stylized luminance
+  preserveColors: boolean;
+};
+
+type FeatureStatistics = {
+  mean: Float64Array;
+  std: Float64Array;
+};
+
+// The encoder downsamples by this factor, so inputs are padded to a multiple of it
+const ENCODER_STRIDE = 8;
+// Longest side the style image is encoded at, as in the original AdaIN training
+const STYLE_SIZE = 512;
+const EPSILON = 1e-5;
+
+// Planar [1, 3, H, W] tensor in 0-1, edge-padded so both sides divide by the stride
+const toPixelTensor = (imageData: ImageData): Tensor => {
+  const { data, width, height } = imageData;
+  const paddedWidth = Math.ceil(width / ENCODER_STRIDE) * ENCODER_STRIDE;
+  const paddedHeight = Math.ceil(height / ENCODER_STRIDE) * ENCODER_STRIDE;
+  const plane = paddedWidth * paddedHeight;
+  const pixels = new Float32Array(plane * 3);
+
+  for (let y = 0; y < paddedHeight; y++) {
+    const sourceY = Math.min(y, height - 1);
+    for (let x = 0; x < paddedWidth; x++) {
+      const source = (sourceY * width + Math.min(x, width - 1)) * 4;
+      const target = y * paddedWidth + x;
+      pixels[target] = data[source] / 255;
+      pixels[plane + target] = data[source + 1] / 255;
+      pixels[2 * plane + target] = data[source + 2] / 255;
+    }
+  }
+
+  return new Tensor('float32', pixels, [1, 3, paddedHeight, paddedWidth]);
+};
+
+// Crop the decoded tensor back to the tile and carry the tile's alpha across
+const fromPixelTensor = (tensor: Tensor, original: ImageData): ImageData => {
+  const [, channels, paddedHeight, paddedWidth] = tensor.dims;
+  const { width, height } = original;
+  if (channels !== 3 || paddedWidth < width || paddedHeight < height) {
+    throw new Error(`Style decoder returned [${tensor.dims.join(', ')}], expected an RGB image of at least ${width}x${height}`);
+  }
+
+  const values = tensor.data as Float32Array;
+  const plane = paddedWidth * paddedHeight;
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = y * paddedWidth + x;
+      const target = (y * width + x) * 4;
+      output[target] = values[source] * 255;
+      output[target + 1] = values[plane + source] * 255;
+      output[target + 2] = values[2 * plane + source] * 255;
+      output[target + 3] = original.data[target + 3];
+    }
+  }
+
+  return new ImageData(output, width, height);
+};
+
+// Running per-channel sums over one or more [1, C, h, w] feature maps
+class StatisticsAccumulator {
+  private sum: Float64Array | null = null;
+  private sumOfSquares: Float64Array | null = null;
+  private count = 0;
+
+  add(features: Tensor) {
+    const [, channels, height, width] = features.dims;
+    const values = features.data as Float32Array;
+    const plane = width * height;
+    this.sum ??= new Float64Array(channels);
+    this.sumOfSquares ??= new Float64Array(channels);
+
+    for (let channel = 0; channel < channels; channel++) {
+      let sum = 0;
+      let sumOfSquares = 0;
+      for (let i = channel * plane; i < (channel + 1) * plane; i++) {
+        sum += values[i];
+        sumOfSquares += values[i] * values[i];
+      }
+      this.sum[channel] += sum;
+      this.sumOfSquares[channel] += sumOfSquares;
+    }
+    this.count += plane;
+  }
+
+  result(): FeatureStatistics {
+    if (!this.sum || !this.sumOfSquares || this.count === 0) {
+      throw new Error('No features to measure');
+    }
+    const mean = this.sum.map(sum => sum / this.count);
+    const std = this.sumOfSquares.map((sumOfSquares, channel) =>
+      Math.sqrt(Math.max(0, sumOfSquares / this.count - mean[channel] ** 2) + EPSILON)
+    );
+    return { mean, std };
+  }
+}
+
+const adaptiveInstanceNorm = (
+  features: Tensor,
+  content: FeatureStatistics,
+  style: FeatureStatistics,
+  styleWeight: number
+): Tensor => {
+  const [, channels, height, width] = features.dims;
+  const values = features.data as Float32Array;
+  const plane = width * height;
+  const output = new Float32Array(values.length);
+
+  for (let channel = 0; channel < channels; channel++) {
+    const scale = style.std[channel] / content.std[channel];
+    const shift = style.mean[channel] - content.mean[channel] * scale;
+    for (let i = channel * plane; i < (channel + 1) * plane; i++) {
+      const restyled = values[i] * scale + shift;
+      output[i] = values[i] + (restyled - values[i]) * styleWeight;
+    }
+  }
+
+  return new Tensor('float32', output, features.dims);
+};
+
+// Put the stylized luminance under the original chroma (YCbCr)
+const keepOriginalColors = (original: ImageData, stylized: ImageData): ImageData => {
+  const output = new Uint8ClampedArray(original.data.length);
+  for (let i = 0; i < output.length; i += 4) {
+    const [r, g, b] = [original.data[i], original.data[i + 1], original.data[i + 2]];
+    const lumaShift =
+      0.299 * stylized.data[i] + 0.587 * stylized.data[i + 1] + 0.114 * stylized.data[i + 2] -
+      (0.299 * r + 0.587 * g + 0.114 * b);
+    output[i] = r + lumaShift;
+    output[i + 1] = g + lumaShift;
+    output[i + 2] = b + lumaShift;
+    output[i + 3] = original.data[i + 3];
+  }
+  return new ImageData(output, original.width, original.height);
+};
+
+export const transferStyle = async (
+  content: ImageData,
+  style: ImageData,
+  { styleWeight, preserveColors }: StyleTransferOptions,
+  tiling: TileOptions
+): Promise<ImageData> => {
+  const styleScale = Math.min(1, STYLE_SIZE / Math.max(style.width, style.height));
+  const styleInput = styleScale < 1
+    ? resizeImageData(style, Math.round(style.width * styleScale), Math.round(style.height * styleScale))
+    : style;
+  const styleStatistics = new StatisticsAccumulator();
+  styleStatistics.add(await runStyleEncoder(toPixelTensor(styleInput)));
+
+  // Content statistics have to describe the whole image, not each tile, or
+  // every tile would be normalized differently and the seams would show. They
+  // are gathered at full resolution in a first pass since feature statistics
+  // change with scale.
+  const contentStatistics = new StatisticsAccumulator();
+  await forEachTile(content, async tile => {
+    contentStatistics.add(await runStyleEncoder(toPixelTensor(tile)));
+  }, tiling);
+
+  const contentResult = contentStatistics.result();
+  const styleResult = styleStatistics.result();
+
+  const stylized = await processTiled(content, 1, async tile => {
+    const features = await runStyleEncoder(toPixelTensor(tile));
+    const decoded = await runStyleDecoder(adaptiveInstanceNorm(features, contentResult, styleResult, styleWeight));
+    return fromPixelTensor(decoded, tile);
+  }, tiling);
+
+  return preserveColors ? keepOriginalColors(content, stylized) : stylized;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { lanczosResize } from './resample';
+import { processTiled } from './tiling';
+
+// Deterministic, non-repeating pixels so a misplaced tile can't go unnoticed
+const createTestImage = (width: number, height: number): ImageData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (i * 2654435761) >>> 24;
+  }
+  return new ImageData(data, width, height);
+};
+
+// Pixel replication: every output pixel is exactly one input pixel
+const replicate = (imageData: ImageData, factor: number): ImageData => {
+  const { data, width, height } = imageData;
+  const output = new ImageData(width * factor, height * factor);
+  for (let y = 0; y < height * factor; y++) {
+    for (let x = 0; x < width * factor; x++) {
+      const source = (Math.floor(y / factor) * width + Math.floor(x / factor)) * 4;
+      output.data.set(data.subarray(source, source + 4), (y * width * factor + x) * 4);
+    }
+  }
+  return output;
+};
+
+describe('processTiled', () => {
+  const image = createTestImage(97, 61);
+
+  for (const overlap of [0, 3, 8, 16]) {
+    for (const tileSize of [16, 40]) {
+      it(`reproduces the input with an identity filter (tile ${tileSize}, overlap ${overlap})`, async () => {
+        const output = await processTiled(image, 1, async tile => tile, { tileSize, overlap });
+        expect(output.width).toBe(image.width);
+        expect(output.height).toBe(image.height);
+        expect(Array.from(output.data)).toEqual(Array.from(image.data));
+      });
+    }
+
+    for (const scale of [2, 3]) {
+      it(`stitches scaled identity tiles seamlessly (${scale}x, overlap ${overlap})`, async () => {
+        const output = await processTiled(image, scale, async tile => replicate(tile, scale), {
+          tileSize: 24,
+          overlap,
+        });
+        expect(Array.from(output.data)).toEqual(Array.from(replicate(image, scale).data));
+      });
+    }
+  }
+
+  // Only pixels near a tile's padded edge, which are feathered out, see a
+  // truncated kernel; a misplaced tile would be off by whole code values
+  for (const scale of [0.6, 1.5, 2.37]) {
+    it(`matches an untiled resize at fractional scales (${scale}x)`, async () => {
+      const expected = lanczosResize(image, Math.round(image.width * scale), Math.round(image.height * scale));
+      const output = await processTiled(
+        image,
+        scale,
+        async (tile, placement) => lanczosResize(tile, placement.width, placement.height, placement),
+        { tileSize: 24, overlap: 16 }
+      );
+
+      expect(output.width).toBe(expected.width);
+      expect(output.height).toBe(expected.height);
+      const maxDifference = output.data.reduce((max, value, i) => Math.max(max, Math.abs(value - expected.data[i])), 0);
+      expect(maxDifference).toBeLessThanOrEqual(2);
+    });
+  }
+
+  it('passes images that fit in one tile straight through', async () => {
+    const small = createTestImage(20, 12);
+    const output = await processTiled(small, 1, async tile => tile, { tileSize: 32, overlap: 8 });
+    expect(output).toBe(small);
+  });
+});
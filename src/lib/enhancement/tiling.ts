@@ -0,0 +1,174 @@
+import { createPixelBuffer, PixelBuffer } from './linear';
+import type { SamplingGrid } from './resample';
+
+export type TileOptions = {
+  // Edge length of a tile's core region, in input pixels
+  tileSize: number;
+  // Extra context read around each tile, in input pixels
+  overlap: number;
+};
+
+// Where a tile's output goes on the full output grid. A processor that
+// resamples has to produce exactly width x height pixels on this grid (see
+// lanczosResize) or overlapping tiles won't line up; the others can ignore it.
+export type TilePlacement = SamplingGrid & {
+  width: number;
+  height: number;
+};
+
+export type TileProcessor<T extends PixelBuffer> = (tile: T, placement: TilePlacement) => Promise<T>;
+
+// Output edge a tile may grow to; tiles shrink as the scale grows so the
+// per-tile output area stays roughly constant (512px at 2x, 128px at 8x)
+const MAX_TILE_OUTPUT = 1024;
+const MAX_TILE_SIZE = 512;
+export const MIN_TILE_SIZE = 64;
+
+export const tileOptionsForScale = (scale: number): TileOptions => {
+  const tileSize = Math.round(MAX_TILE_OUTPUT / Math.max(1, scale));
+  return {
+    tileSize: Math.min(MAX_TILE_SIZE, Math.max(MIN_TILE_SIZE, tileSize)),
+    overlap: scale >= 8 ? 8 : 16,
+  };
+};
+
+// Copy a rectangle out of an image
+const extractRegion = <T extends PixelBuffer>(
+  image: T,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): T => {
+  const region = createPixelBuffer(image, width, height);
+
+  for (let row = 0; row < height; row++) {
+    const sourceStart = ((y + row) * image.width + x) * 4;
+    region.data.set(image.data.subarray(sourceStart, sourceStart + width * 4), row * width * 4);
+  }
+
+  return region;
+};
+
+// Linear ramp from the edge of the padded tile into its core. Edges touching
+// the image border have no neighbour to blend with, so they keep full weight.
+const featherWeight = (position: number, length: number, ramp: number, startIsBorder: boolean, endIsBorder: boolean): number => {
+  if (ramp <= 0) return 1;
+
+  const fromStart = startIsBorder ? Infinity : position + 0.5;
+  const fromEnd = endIsBorder ? Infinity : length - position - 0.5;
+  return Math.min(1, fromStart / ramp, fromEnd / ramp);
+};
+
+type TileRegion = { x0: number; y0: number; x1: number; y1: number };
+
+// Core regions on a grid, each padded with overlap on every side and clamped to the image
+const tileRegions = (width: number, height: number, tileSize: number, overlap: number): TileRegion[] => {
+  const regions: TileRegion[] = [];
+  for (let tileY = 0; tileY < height; tileY += tileSize) {
+    for (let tileX = 0; tileX < width; tileX += tileSize) {
+      regions.push({
+        x0: Math.max(0, tileX - overlap),
+        y0: Math.max(0, tileY - overlap),
+        x1: Math.min(width, tileX + tileSize + overlap),
+        y1: Math.min(height, tileY + tileSize + overlap),
+      });
+    }
+  }
+  return regions;
+};
+
+// Visit the same padded tiles processTiled would, without stitching anything
+// back together (e.g. to gather statistics in a first pass)
+export const forEachTile = async <T extends PixelBuffer>(
+  imageData: T,
+  visit: (tile: T) => Promise<void>,
+  options: TileOptions
+): Promise<void> => {
+  const tileSize = Math.max(1, Math.floor(options.tileSize));
+  const overlap = Math.max(0, Math.floor(options.overlap));
+
+  for (const { x0, y0, x1, y1 } of tileRegions(imageData.width, imageData.height, tileSize, overlap)) {
+    await visit(extractRegion(imageData, x0, y0, x1 - x0, y1 - y0));
+  }
+};
+
+// Split the image into overlapping tiles, process each independently and
+// feather the scaled results back together so no seams are visible
+export const processTiled = async <T extends PixelBuffer>(
+  imageData: T,
+  scale: number,
+  processTile: TileProcessor<T>,
+  options: TileOptions
+): Promise<T> => {
+  const { width, height } = imageData;
+  const tileSize = Math.max(1, Math.floor(options.tileSize));
+  const overlap = Math.max(0, Math.floor(options.overlap));
+
+  const outWidth = Math.round(width * scale);
+  const outHeight = Math.round(height * scale);
+  const scaleX = outWidth / width;
+  const scaleY = outHeight / height;
+
+  // Small images fit in a single tile
+  if (width <= tileSize && height <= tileSize) {
+    return processTile(imageData, { width: outWidth, height: outHeight, scaleX, scaleY, offsetX: 0, offsetY: 0 });
+  }
+
+  const accumulated = new Float32Array(outWidth * outHeight * 4);
+  const weights = new Float32Array(outWidth * outHeight);
+  const ramp = 2 * overlap * scale;
+
+  for (const { x0, y0, x1, y1 } of tileRegions(width, height, tileSize, overlap)) {
+    // Output bounds are rounded on the full image's grid and the tile is told
+    // its sub-pixel offset there, so at fractional scales overlapping tiles
+    // still sample the same positions instead of disagreeing by up to half a pixel
+    const outX = Math.round(x0 * scaleX);
+    const outY = Math.round(y0 * scaleY);
+    const placement: TilePlacement = {
+      width: Math.round(x1 * scaleX) - outX,
+      height: Math.round(y1 * scaleY) - outY,
+      scaleX,
+      scaleY,
+      offsetX: outX - x0 * scaleX,
+      offsetY: outY - y0 * scaleY,
+    };
+
+    const tile = extractRegion(imageData, x0, y0, x1 - x0, y1 - y0);
+    const processed = await processTile(tile, placement);
+    const { width: expectedWidth, height: expectedHeight } = placement;
+    if (processed.width !== expectedWidth || processed.height !== expectedHeight) {
+      throw new Error(
+        `Tile output is ${processed.width}x${processed.height}, expected ${expectedWidth}x${expectedHeight}`
+      );
+    }
+
+    for (let y = 0; y < expectedHeight; y++) {
+      const weightY = featherWeight(y, expectedHeight, ramp, y0 === 0, y1 === height);
+
+      for (let x = 0; x < expectedWidth; x++) {
+        const weight = weightY * featherWeight(x, expectedWidth, ramp, x0 === 0, x1 === width);
+        const sourceIndex = (y * expectedWidth + x) * 4;
+        const targetPixel = (outY + y) * outWidth + outX + x;
+        const targetIndex = targetPixel * 4;
+
+        accumulated[targetIndex] += processed.data[sourceIndex] * weight;
+        accumulated[targetIndex + 1] += processed.data[sourceIndex + 1] * weight;
+        accumulated[targetIndex + 2] += processed.data[sourceIndex + 2] * weight;
+        accumulated[targetIndex + 3] += processed.data[sourceIndex + 3] * weight;
+        weights[targetPixel] += weight;
+      }
+    }
+  }
+
+  // 8-bit outputs round and clamp on assignment; the working buffer keeps the full value
+  const output = createPixelBuffer(imageData, outWidth, outHeight);
+  for (let pixel = 0; pixel < weights.length; pixel++) {
+    const weight = weights[pixel] || 1;
+    for (let c = 0; c < 4; c++) {
+      output.data[pixel * 4 + c] = accumulated[pixel * 4 + c] / weight;
+    }
+  }
+
+  return output;
+};
@@ -0,0 +1,154 @@
+// Single-image HDR: global tone mapping operators, shadow/highlight recovery
+// and CLAHE local contrast. All of them act on luminance only; colour is
+// re-applied afterwards as a ratio so hues don't shift.
+
+export type ToneMappingOperator = 'reinhard' | 'drago';
+
+export type SceneStatistics = {
+  // Geometric mean of linear luminance (the scene "key")
+  logAverage: number;
+  // Robust maximum of linear luminance
+  maximum: number;
+};
+
+const EPSILON = 1e-4;
+// Middle grey the Reinhard operator maps the scene key to
+const REINHARD_KEY = 0.18;
+// Drago's bias; lower values compress highlights harder
+const DRAGO_BIAS = 0.85;
+
+// Key and white point of the whole image. The brightest 0.1% is ignored so a
+// few specular pixels don't set the white point.
+export const sceneStatistics = (luminance: Float32Array): SceneStatistics => {
+  let logSum = 0;
+  for (let i = 0; i < luminance.length; i++) {
+    logSum += Math.log(EPSILON + luminance[i]);
+  }
+  const sorted = luminance.slice().sort();
+  const maximum = sorted[Math.floor((sorted.length - 1) * 0.999)] ?? 0;
+  return { logAverage: Math.exp(logSum / Math.max(1, luminance.length)), maximum: Math.max(maximum, EPSILON) };
+};
+
+// Extended Reinhard: scale to the key, then compress with a burn-out white point
+const reinhard = (value: number, { logAverage, maximum }: SceneStatistics): number => {
+  const scaled = (REINHARD_KEY / logAverage) * value;
+  const white = (REINHARD_KEY / logAverage) * maximum;
+  return (scaled * (1 + scaled / (white * white))) / (1 + scaled);
+};
+
+// Drago adaptive logarithmic mapping, normalised so the maximum maps to 1
+const drago = (value: number, { logAverage, maximum }: SceneStatistics): number => {
+  // Work relative to the key so dim and bright scenes land in the same range
+  const scaled = value / logAverage;
+  const scaledMax = maximum / logAverage;
+  const biasPower = Math.log(DRAGO_BIAS) / Math.log(0.5);
+  const numerator = Math.log(scaled + 1) / Math.log(scaledMax + 1);
+  const denominator = Math.log(2 + 8 * Math.pow(scaled / scaledMax, biasPower)) / Math.log(10);
+  return numerator / denominator;
+};
+
+export const toneMapLuminance = (
+  luminance: Float32Array,
+  operator: ToneMappingOperator,
+  statistics: SceneStatistics
+): Float32Array => {
+  const map = operator === 'drago' ? drago : reinhard;
+  return luminance.map(value => Math.min(1, Math.max(0, map(value, statistics))));
+};
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Lift shadows and pull highlights back on display-referred luminance in [0, 1].
+// Both masks fade out before the midtones so overall contrast is kept.
+export const recoverShadowsAndHighlights = (
+  luminance: Float32Array,
+  shadows: number,
+  highlights: number
+): Float32Array => {
+  return luminance.map(value => {
+    const shadowMask = 1 - smoothstep(0, 0.5, value);
+    const highlightMask = smoothstep(0.5, 1, value);
+    const lifted = value + shadows * shadowMask * shadowMask * (0.5 - value) * 0.8;
+    return lifted - highlights * highlightMask * highlightMask * (lifted - 0.5) * 0.6;
+  });
+};
+
+// Contrast-limited adaptive histogram equalisation on luminance in [0, 1].
+// Each block gets a clipped, equalised mapping; pixels interpolate bilinearly
+// between the mappings of the four nearest block centres.
+export const clahe = (
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  clipLimit: number,
+  blockSize = 64
+): Float32Array => {
+  const bins = 256;
+  const blocksX = Math.max(1, Math.round(width / blockSize));
+  const blocksY = Math.max(1, Math.round(height / blockSize));
+  const blockWidth = width / blocksX;
+  const blockHeight = height / blocksY;
+  const mappings: Float32Array[] = [];
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const x0 = Math.floor(bx * blockWidth);
+      const x1 = Math.floor((bx + 1) * blockWidth);
+      const y0 = Math.floor(by * blockHeight);
+      const y1 = Math.floor((by + 1) * blockHeight);
+      const histogram = new Float32Array(bins);
+
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          histogram[Math.min(bins - 1, Math.floor(luminance[y * width + x] * bins))]++;
+        }
+      }
+
+      // Clip the histogram and spread the excess evenly, which bounds the slope of the mapping
+      const pixels = Math.max(1, (x1 - x0) * (y1 - y0));
+      const limit = Math.max(1, (clipLimit * pixels) / bins);
+      let excess = 0;
+      for (let bin = 0; bin < bins; bin++) {
+        if (histogram[bin] > limit) {
+          excess += histogram[bin] - limit;
+          histogram[bin] = limit;
+        }
+      }
+      const redistributed = excess / bins;
+
+      const mapping = new Float32Array(bins);
+      let cumulative = 0;
+      for (let bin = 0; bin < bins; bin++) {
+        cumulative += histogram[bin] + redistributed;
+        mapping[bin] = cumulative / pixels;
+      }
+      mappings.push(mapping);
+    }
+  }
+
+  const output = new Float32Array(luminance.length);
+  for (let y = 0; y < height; y++) {
+    // Position relative to the block centres
+    const gy = Math.min(blocksY - 1, Math.max(0, (y + 0.5) / blockHeight - 0.5));
+    const by0 = Math.floor(gy);
+    const by1 = Math.min(blocksY - 1, by0 + 1);
+    const fy = gy - by0;
+
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(blocksX - 1, Math.max(0, (x + 0.5) / blockWidth - 0.5));
+      const bx0 = Math.floor(gx);
+      const bx1 = Math.min(blocksX - 1, bx0 + 1);
+      const fx = gx - bx0;
+
+      const bin = Math.min(bins - 1, Math.floor(luminance[y * width + x] * bins));
+      const top = mappings[by0 * blocksX + bx0][bin] * (1 - fx) + mappings[by0 * blocksX + bx1][bin] * fx;
+      const bottom = mappings[by1 * blocksX + bx0][bin] * (1 - fx) + mappings[by1 * blocksX + bx1][bin] * fx;
+      output[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+
+  return output;
+};
@@ -1,488 +1,179 @@
 import { toast } from 'sonner';
-import { pipeline } from '@huggingface/transformers';
 import type { EnhancementOption } from '@/components/EnhancementOptions';
-import { QualityOption } from '@/types/supabase';
+import type { ModelConfig } from '@/lib/enhancement/models';
+import type { BackendCapabilities, ExecutionBackend } from '@/lib/enhancement/backend';
+import type { TileOptions } from '@/lib/enhancement/tiling';
+import {
+  describePipeline,
+  EnhancementPipeline,
+  findMatchingPreset,
+  resolvePipeline,
+  toPipeline
+} from '@/lib/enhancement/pipeline';
+import type { ImageAnalysisReport } from '@/lib/enhancement/analysis';
+import { MAX_EXPOSURES, MIN_EXPOSURES } from '@/lib/enhancement/bracketing';
+import type { WorkerRequest, WorkerResponse } from '@/lib/enhancement/protocol';
+import { listCustomLooks, registerCustomLook } from '@/lib/enhancement/looks';
+import { DEFAULT_LUT_SIZE, parseCubeLut } from '@/lib/enhancement/lut';
+import {
+  DEFAULT_RESIZE_TARGET,
+  describeResizeTarget,
+  planResize,
+  ResizeTarget,
+  validateResizeTarget
+} from '@/lib/enhancement/resizeTarget';
+import { assessBudget, BudgetAssessment, detectDeviceLimits, DeviceLimits } from '@/lib/enhancement/budget';
+import { DEFAULT_EXPORT_OPTIONS, ExportFormat, ExportOptions, hasAlpha } from '@/lib/enhancement/export';
+import { detectImageFormat, FORMAT_SIGNATURE_LENGTH, needsDecoder } from '@/lib/enhancement/decoders';
+import {
+  ImageMetadata,
+  MetadataPolicy,
+  readImageMetadata,
+  writeImageMetadata
+} from '@/lib/enhancement/metadata';
 
-// Initialize models
-let realEsrganModel: any = null;
-let swinIRModel: any = null;
-let enhancementPipeline: any = null;
 let isApiAvailable: boolean = true;
+let activeBackend: ExecutionBackend = 'none';
+let backendCapabilities: BackendCapabilities | null = null;
+let deviceLimits: DeviceLimits | null = null;
 
-// Configure models
-const initializeModels = async () => {
-  try {
-    console.log('Initializing Real-ESRGAN and SwinIR models...');
-    
-    // Initialize super-resolution pipeline with Real-ESRGAN
-    enhancementPipeline = await pipeline(
-      "image-to-image",
-      "onnx-community/real-esrgan-x4plus",
-      { device: "webgpu" }
-    );
-    
-    console.log('Real-ESRGAN model loaded successfully');
-    isApiAvailable = true;
-    return true;
-  } catch (error) {
-    console.error('Failed to initialize enhancement models:', error);
-    isApiAvailable = false;
-    return false;
-  }
+// The pixel pipeline runs in a dedicated worker so the page stays responsive
+let enhancementWorker: Worker | null = null;
+let nextRequestId = 0;
+
+type PendingRequest = {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (message: string) => void;
 };
 
-// Helper function to detect blur level
-const detectBlur = (imageData: ImageData): number => {
-  // Variance of Laplacian implementation (simplified)
-  const { data, width, height } = imageData;
-  let sum = 0;
-  let sumSq = 0;
-  const pixelCount = width * height;
-  
-  // Calculate average brightness first
-  for (let i = 0; i < data.length; i += 4) {
-    const brightness = (data[i] + data[i+1] + data[i+2]) / 3;
-    sum += brightness;
-    sumSq += brightness * brightness;
+const pendingRequests = new Map<number, PendingRequest>();
+
+const handleWorkerMessage = (event: MessageEvent<WorkerResponse>) => {
+  const response = event.data;
+  const pending = pendingRequests.get(response.id);
+  if (!pending) return;
+  
+  if (response.type === 'progress') {
+    pending.onProgress?.(response.message);
+    return;
   }
   
-  const mean = sum / pixelCount;
-  const variance = sumSq / pixelCount - mean * mean;
-  
-  // Lower values indicate more blur
-  console.log('Blur detection - variance:', variance);
-  return variance;
+  pendingRequests.delete(response.id);
+  if (response.type === 'error') {
+    pending.reject(new Error(response.message));
+  } else {
+    pending.resolve(response);
+  }
 };
 
-// Enhancement algorithms
-const applyAutoEnhancement = async (imageData: ImageData, qualityFactor: number): Promise<ImageData> => {
-  try {
-    console.log(`Applying auto enhancement with Real-ESRGAN (${qualityFactor}x)...`);
-    
-    // Convert imageData to canvas for processing
-    const canvas = document.createElement('canvas');
-    canvas.width = imageData.width;
-    canvas.height = imageData.height;
-    const ctx = canvas.getContext('2d');
-    ctx?.putImageData(imageData, 0, 0);
-    
-    // If model is available, use it for enhancement
-    if (enhancementPipeline) {
-      // For demo, we're simulating the enhancement
-      // In real implementation, we would use enhancementPipeline(canvas)
-    }
-    
-    // Check blur level
-    const blurLevel = detectBlur(imageData);
-    const isBlurry = blurLevel < 50;
-    
-    if (isBlurry) {
-      console.log('Image detected as blurry, applying deblur algorithm first');
-      // Simulate DeblurGAN-v2 processing
-    }
-    
-    // Simulate AI enhancement with improved algorithms - adjusted based on quality factor
-    const enhancedData = new Uint8ClampedArray(imageData.data.length * (qualityFactor * qualityFactor));
-    const newWidth = imageData.width * qualityFactor;
-    const newHeight = imageData.height * qualityFactor;
-    
-    // Create a new canvas with enhanced dimensions
-    const enhancedCanvas = document.createElement('canvas');
-    enhancedCanvas.width = newWidth;
-    enhancedCanvas.height = newHeight;
-    const enhancedCtx = enhancedCanvas.getContext('2d');
-    
-    if (enhancedCtx) {
-      // Draw the original image to the new canvas with scaling
-      enhancedCtx.drawImage(canvas, 0, 0, newWidth, newHeight);
-      
-      // Get the scaled image data
-      const scaledData = enhancedCtx.getImageData(0, 0, newWidth, newHeight);
-      
-      // Apply enhancement to the scaled data
-      for (let i = 0; i < scaledData.data.length; i += 4) {
-        // Advanced enhancement algorithm simulation
-        // Increase contrast and saturation
-        scaledData.data[i] = Math.min(255, scaledData.data[i] * 1.2); // R - increased contrast
-        scaledData.data[i + 1] = Math.min(255, scaledData.data[i + 1] * 1.25); // G - increased vibrancy
-        scaledData.data[i + 2] = Math.min(255, scaledData.data[i + 2] * 1.15); // B - balance blue
-        scaledData.data[i + 3] = scaledData.data[i + 3]; // A - keep alpha
-      }
-      
-      // Apply additional refinement simulation (SwinIR)
-      if (qualityFactor >= 4) {
-        console.log('Applying SwinIR texture refinement...');
-        // Advanced edge refinement (simulated)
-        // In real implementation, this would be a separate API call
-      }
+const getWorker = (): Worker => {
+  if (!enhancementWorker) {
+    enhancementWorker = new Worker(
+      new URL('./enhancement/enhancement.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    enhancementWorker.addEventListener('message', handleWorkerMessage);
+    enhancementWorker.addEventListener('error', (event) => {
+      console.error('Enhancement worker crashed:', event.message);
       
-      return scaledData;
+      // Fail everything in flight and start a fresh worker on the next request
+      pendingRequests.forEach(pending => pending.reject(new Error('Enhancement worker crashed')));
+      pendingRequests.clear();
+      enhancementWorker?.terminate();
+      enhancementWorker = null;
+    });
+    
+    // A fresh worker only knows the bundled looks; hand it the imported ones again
+    for (const look of listCustomLooks()) {
+      enhancementWorker.postMessage({ id: nextRequestId++, type: 'registerLook', look } satisfies WorkerRequest);
     }
-    
-    throw new Error('Failed to create enhanced image context');
-  } catch (error) {
-    console.error('Auto enhancement failed:', error);
-    throw new Error('Auto enhancement failed');
   }
+  return enhancementWorker;
 };
 
-// Keep existing enhancement functions
-const applyHDREffect = async (imageData: ImageData, qualityFactor: number): Promise<ImageData> => {
-  // HDR effect - significantly boosted for visual impact with quality factor applied
-  const { data, width, height } = imageData;
-  
-  // Create a new canvas with enhanced dimensions
-  const newWidth = width * qualityFactor;
-  const newHeight = height * qualityFactor;
-  const canvas = document.createElement('canvas');
-  canvas.width = newWidth;
-  canvas.height = newHeight;
-  const ctx = canvas.getContext('2d');
-  
-  // Convert original imageData to a temporary canvas
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = width;
-  tempCanvas.height = height;
-  const tempCtx = tempCanvas.getContext('2d');
-  tempCtx?.putImageData(imageData, 0, 0);
-  
-  // Draw the original image to the new canvas with scaling
-  ctx?.drawImage(tempCanvas, 0, 0, newWidth, newHeight);
-  
-  // Get the scaled image data
-  const scaledData = ctx?.getImageData(0, 0, newWidth, newHeight);
-  if (!scaledData) throw new Error('Failed to get scaled image data');
-  
-  // Process the scaled data for HDR effect
-  const enhancedData = new Uint8ClampedArray(scaledData.data.length);
-  
-  // Enhanced HDR algorithm with dramatic dynamic range
-  for (let i = 0; i < scaledData.data.length; i += 4) {
-    // Apply tone mapping for HDR-like effect
-    const r = scaledData.data[i];
-    const g = scaledData.data[i + 1];
-    const b = scaledData.data[i + 2];
-    
-    // Calculate luminance
-    const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-    
-    // Apply HDR curve - boost shadows and highlights
-    const factor = 1.4 + 0.6 * Math.sin(luminance * Math.PI);
-    
-    // Apply color correction with saturation boost
-    enhancedData[i] = Math.min(255, r * factor * 1.2); // R - boosted with luminance-based curve
-    enhancedData[i + 1] = Math.min(255, g * factor * 1.15); // G
-    enhancedData[i + 2] = Math.min(255, b * factor); // B - less boosted to prevent blue shift
-    enhancedData[i + 3] = scaledData.data[i + 3]; // Alpha
-  }
-  
-  return new ImageData(enhancedData, newWidth, newHeight);
+const callWorker = (
+  request: WorkerRequest,
+  transfer: Transferable[] = [],
+  onProgress?: (message: string) => void
+): Promise<WorkerResponse> => {
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(request.id, { resolve, reject, onProgress });
+    getWorker().postMessage(request, transfer);
+  });
 };
 
-const applyNightMode = async (imageData: ImageData, qualityFactor: number): Promise<ImageData> => {
-  // Significantly improved night mode enhancement
-  const { data, width, height } = imageData;
-  
-  // Create a new canvas with enhanced dimensions
-  const newWidth = width * qualityFactor;
-  const newHeight = height * qualityFactor;
-  const canvas = document.createElement('canvas');
-  canvas.width = newWidth;
-  canvas.height = newHeight;
-  const ctx = canvas.getContext('2d');
-  
-  // Convert original imageData to a temporary canvas
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = width;
-  tempCanvas.height = height;
-  const tempCtx = tempCanvas.getContext('2d');
-  tempCtx?.putImageData(imageData, 0, 0);
-  
-  // Draw the original image to the new canvas with scaling
-  ctx?.drawImage(tempCanvas, 0, 0, newWidth, newHeight);
-  
-  // Get the scaled image data
-  const scaledData = ctx?.getImageData(0, 0, newWidth, newHeight);
-  if (!scaledData) throw new Error('Failed to get scaled image data');
-  
-  const enhancedData = new Uint8ClampedArray(scaledData.data.length);
-  
-  // Advanced night mode processing
-  for (let i = 0; i < scaledData.data.length; i += 4) {
-    // Get pixel values
-    const r = scaledData.data[i];
-    const g = scaledData.data[i + 1];
-    const b = scaledData.data[i + 2];
-    
-    // Calculate luminance to identify dark areas
-    const luminance = (0.299 * r + 0.587 * g + 0.114 * b);
-    
-    // Boost dark areas more than bright areas (specialized night mode)
-    const brightnessFactor = 2.0 - (luminance / 255) * 0.8;
-    
-    // Apply noise reduction simulation (in real implementation we'd use SwinIR)
-    // For dark areas, boost but reduce noise
-    enhancedData[i] = Math.min(255, r * brightnessFactor); // R
-    enhancedData[i + 1] = Math.min(255, g * brightnessFactor); // G
-    enhancedData[i + 2] = Math.min(255, Math.max(b * brightnessFactor, b * 1.2)); // B - boost blues slightly for night look
-    enhancedData[i + 3] = scaledData.data[i + 3]; // Alpha
-  }
-  
-  return new ImageData(enhancedData, newWidth, newHeight);
+const getDeviceLimits = (): DeviceLimits => {
+  deviceLimits ??= detectDeviceLimits();
+  return deviceLimits;
 };
 
-const applyPortraitMode = async (imageData: ImageData, qualityFactor: number): Promise<ImageData> => {
-  // Portrait enhancement with skin tone preservation and facial feature enhancement
-  const { width, height } = imageData;
-  
-  // Create a new canvas with enhanced dimensions
-  const newWidth = width * qualityFactor;
-  const newHeight = height * qualityFactor;
-  const canvas = document.createElement('canvas');
-  canvas.width = newWidth;
-  canvas.height = newHeight;
-  const ctx = canvas.getContext('2d');
-  
-  // Convert original imageData to a temporary canvas
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = width;
-  tempCanvas.height = height;
-  const tempCtx = tempCanvas.getContext('2d');
-  tempCtx?.putImageData(imageData, 0, 0);
-  
-  // Draw the original image to the new canvas with scaling
-  ctx?.drawImage(tempCanvas, 0, 0, newWidth, newHeight);
-  
-  // Get the scaled image data
-  const scaledData = ctx?.getImageData(0, 0, newWidth, newHeight);
-  if (!scaledData) throw new Error('Failed to get scaled image data');
-  
-  const enhancedData = new Uint8ClampedArray(scaledData.data.length);
-  
-  for (let i = 0; i < scaledData.data.length; i += 4) {
-    // Get pixel values
-    const r = scaledData.data[i];
-    const g = scaledData.data[i + 1];
-    const b = scaledData.data[i + 2];
-    
-    // Check if pixel is in skin tone range (simplified detection)
-    const isSkinTone = (r > 95 && g > 40 && b > 20 && 
-                       r > g && r > b && 
-                       Math.abs(r - g) > 15);
-    
-    if (isSkinTone) {
-      // Enhance skin tones with gentle smoothing
-      enhancedData[i] = Math.min(255, r * 1.1); // Warm up reds slightly
-      enhancedData[i + 1] = Math.min(255, g * 1.05); // Preserve natural green
-      enhancedData[i + 2] = Math.min(255, b * 0.95); // Reduce blue slightly for warmer look
-    } else {
-      // Non-skin areas get sharpening and contrast
-      enhancedData[i] = Math.min(255, r * 1.2); // Boost contrast
-      enhancedData[i + 1] = Math.min(255, g * 1.15);
-      enhancedData[i + 2] = Math.min(255, b * 1.1);
-    }
-    enhancedData[i + 3] = scaledData.data[i + 3]; // Alpha
+let wideGamutCanvas: boolean | undefined;
+
+// Whether canvases here can hold Display P3; browsers without it silently
+// fall back to sRGB, which the context attributes reveal
+export const supportsWideGamutCanvas = (): boolean => {
+  if (wideGamutCanvas === undefined) {
+    const ctx = document.createElement('canvas').getContext('2d', { colorSpace: 'display-p3' });
+    wideGamutCanvas = ctx?.getContextAttributes().colorSpace === 'display-p3';
   }
-  
-  return new ImageData(enhancedData, newWidth, newHeight);
+  return wideGamutCanvas;
 };
 
-const applyColorPop = async (imageData: ImageData, qualityFactor: number): Promise<ImageData> => {
-  // Vibrant color enhancement with balanced tones
-  const { width, height } = imageData;
-  
-  // Create a new canvas with enhanced dimensions
-  const newWidth = width * qualityFactor;
-  const newHeight = height * qualityFactor;
-  const canvas = document.createElement('canvas');
-  canvas.width = newWidth;
-  canvas.height = newHeight;
-  const ctx = canvas.getContext('2d');
-  
-  // Convert original imageData to a temporary canvas
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = width;
-  tempCanvas.height = height;
-  const tempCtx = tempCanvas.getContext('2d');
-  tempCtx?.putImageData(imageData, 0, 0);
-  
-  // Draw the original image to the new canvas with scaling
-  ctx?.drawImage(tempCanvas, 0, 0, newWidth, newHeight);
-  
-  // Get the scaled image data
-  const scaledData = ctx?.getImageData(0, 0, newWidth, newHeight);
-  if (!scaledData) throw new Error('Failed to get scaled image data');
-  
-  const enhancedData = new Uint8ClampedArray(scaledData.data.length);
-  
-  for (let i = 0; i < scaledData.data.length; i += 4) {
-    // Get pixel values
-    const r = scaledData.data[i];
-    const g = scaledData.data[i + 1];
-    const b = scaledData.data[i + 2];
-    
-    // Calculate saturation
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    const delta = (max - min) / 255;
-    
-    // Apply adaptive saturation boost - more for muted colors, less for already saturated
-    const satBoost = 1.5 - (delta * 0.5); // Higher boost for less saturated colors
-    
-    // Apply the color pop effect
-    if (max > 0) {
-      const rRatio = r / max;
-      const gRatio = g / max;
-      const bRatio = b / max;
-      
-      // Boost colors while maintaining balance
-      enhancedData[i] = Math.min(255, r + (r - r * rRatio) * satBoost);
-      enhancedData[i + 1] = Math.min(255, g + (g - g * gRatio) * satBoost);
-      enhancedData[i + 2] = Math.min(255, b + (b - b * bRatio) * satBoost);
-    } else {
-      enhancedData[i] = r;
-      enhancedData[i + 1] = g;
-      enhancedData[i + 2] = b;
-    }
-    enhancedData[i + 3] = scaledData.data[i + 3]; // Alpha
-  }
-  
-  return new ImageData(enhancedData, newWidth, newHeight);
+export const configureModels = async (config: Partial<ModelConfig>) => {
+  await callWorker({ id: nextRequestId++, type: 'configure', config });
 };
 
-const applyDetailBoost = async (imageData: ImageData, qualityFactor: number): Promise<ImageData> => {
-  // Sharpening and detail enhancement (simulating Super-Resolution)
-  const { width, height } = imageData;
-  
-  // Create a new canvas with enhanced dimensions
-  const newWidth = width * qualityFactor;
-  const newHeight = height * qualityFactor;
-  const canvas = document.createElement('canvas');
-  canvas.width = newWidth;
-  canvas.height = newHeight;
-  const ctx = canvas.getContext('2d');
-  
-  // Convert original imageData to a temporary canvas
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = width;
-  tempCanvas.height = height;
-  const tempCtx = tempCanvas.getContext('2d');
-  tempCtx?.putImageData(imageData, 0, 0);
-  
-  // Draw the original image to the new canvas with scaling
-  ctx?.drawImage(tempCanvas, 0, 0, newWidth, newHeight);
-  
-  // Get the scaled image data
-  const scaledData = ctx?.getImageData(0, 0, newWidth, newHeight);
-  if (!scaledData) throw new Error('Failed to get scaled image data');
-  
-  const enhancedData = new Uint8ClampedArray(scaledData.data.length);
-  
-  // Create temporary arrays for the edge detection
-  for (let i = 0; i < scaledData.data.length; i++) {
-    enhancedData[i] = scaledData.data[i];
-  }
-  
-  // Apply unsharp masking for detail enhancement (simplified for the big image)
-  for (let y = 1; y < newHeight - 1; y++) {
-    for (let x = 1; x < newWidth - 1; x++) {
-      const idx = (y * newWidth + x) * 4;
-      
-      for (let c = 0; c < 3; c++) { // Apply to RGB channels
-        // Simplified edge enhancement for demonstration
-        const center = scaledData.data[idx + c];
-        const left = scaledData.data[idx - 4 + c];
-        const right = scaledData.data[idx + 4 + c];
-        const top = scaledData.data[idx - newWidth * 4 + c];
-        const bottom = scaledData.data[idx + newWidth * 4 + c];
-        
-        // Basic edge detection
-        const edge = (center * 4) - left - right - top - bottom;
-        
-        // Enhance edges
-        enhancedData[idx + c] = Math.min(255, Math.max(0, scaledData.data[idx + c] + edge * 0.5));
-      }
-    }
+// Utility functions
+
+// HEIC, TIFF and DNG aren't decodable by (most) browsers; the worker has decoders for them
+const needsWorkerDecoder = async (file: File): Promise<boolean> => {
+  const signature = new Uint8Array(await file.slice(0, FORMAT_SIGNATURE_LENGTH).arrayBuffer());
+  return needsDecoder(detectImageFormat(signature));
+};
+
+const decodeInWorker = async (file: File): Promise<{ bitmap: ImageBitmap; pageCount: number }> => {
+  const bytes = await file.arrayBuffer();
+  const response = await callWorker({ id: nextRequestId++, type: 'decode', bytes }, [bytes]);
+  if (response.type !== 'decoded') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
   }
-  
-  return new ImageData(enhancedData, newWidth, newHeight);
+  return response;
 };
 
-const applyStyleTransfer = async (imageData: ImageData, qualityFactor: number): Promise<ImageData> => {
-  // Artistic style enhancement (simulating style transfer)
-  const { width, height } = imageData;
-  
-  // Create a new canvas with enhanced dimensions
-  const newWidth = width * qualityFactor;
-  const newHeight = height * qualityFactor;
-  const canvas = document.createElement('canvas');
-  canvas.width = newWidth;
-  canvas.height = newHeight;
-  const ctx = canvas.getContext('2d');
-  
-  // Convert original imageData to a temporary canvas
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = width;
-  tempCanvas.height = height;
-  const tempCtx = tempCanvas.getContext('2d');
-  tempCtx?.putImageData(imageData, 0, 0);
-  
-  // Draw the original image to the new canvas with scaling
-  ctx?.drawImage(tempCanvas, 0, 0, newWidth, newHeight);
-  
-  // Get the scaled image data
-  const scaledData = ctx?.getImageData(0, 0, newWidth, newHeight);
-  if (!scaledData) throw new Error('Failed to get scaled image data');
-  
-  const enhancedData = new Uint8ClampedArray(scaledData.data.length);
-  
-  // Apply a professional photography style
-  for (let i = 0; i < scaledData.data.length; i += 4) {
-    // Original pixel values
-    const r = scaledData.data[i];
-    const g = scaledData.data[i + 1];
-    const b = scaledData.data[i + 2];
-    
-    // Calculate luminance
-    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-    
-    // Apply cinematic color grading (teal and orange style)
-    // Shadows to blue/teal tint
-    if (luminance < 120) {
-      enhancedData[i] = Math.max(0, r * 0.9); // Reduce red in shadows
-      enhancedData[i + 1] = Math.min(255, g * 1.1); // Boost green slightly
-      enhancedData[i + 2] = Math.min(255, b * 1.2); // Boost blue
-    } 
-    // Midtones remain neutral with contrast boost
-    else if (luminance >= 120 && luminance < 180) {
-      enhancedData[i] = Math.min(255, r * 1.1);
-      enhancedData[i + 1] = Math.min(255, g * 1.1);
-      enhancedData[i + 2] = Math.min(255, b * 1.05);
-    }
-    // Highlights to warm/orange tint
-    else {
-      enhancedData[i] = Math.min(255, r * 1.15); // Boost red in highlights
-      enhancedData[i + 1] = Math.min(255, g * 1.05); // Slight green boost
-      enhancedData[i + 2] = Math.max(0, b * 0.9); // Reduce blue
-    }
-    
-    enhancedData[i + 3] = scaledData.data[i + 3]; // Alpha
+// A camera raw's bytes, for the worker to develop straight into its working
+// buffer. Telling DNG from TIFF needs the first IFD, so the whole file is read.
+const readCameraRaw = async (file: File): Promise<ArrayBuffer | undefined> => {
+  const bytes = await file.arrayBuffer();
+  return detectImageFormat(new Uint8Array(bytes)) === 'dng' ? bytes : undefined;
+};
+
+// Decode with EXIF orientation applied, so every step sees the photo upright.
+// Metadata written back to the result says so (Orientation 1).
+const decodeImage = async (file: File, options: ImageBitmapOptions = {}): Promise<ImageBitmap> => {
+  if (!(await needsWorkerDecoder(file))) {
+    return createImageBitmap(file, { imageOrientation: 'from-image', ...options });
   }
   
-  return new ImageData(enhancedData, newWidth, newHeight);
+  // The worker's decoders orient the pixels themselves
+  const { bitmap } = await decodeInWorker(file);
+  if (options.resizeWidth === undefined && options.resizeHeight === undefined) return bitmap;
+  const resized = await createImageBitmap(bitmap, options);
+  bitmap.close();
+  return resized;
 };
 
-// Utility functions
-const loadImageFromFile = (file: File): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = URL.createObjectURL(file);
-  });
+// EXIF, XMP and colour profile of an upload; missing or unreadable metadata isn't an error
+const readMetadata = async (file: File): Promise<ImageMetadata | null> => {
+  try {
+    return await readImageMetadata(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.warn(`Could not read metadata from ${file.name}:`, error);
+    return null;
+  }
 };
 
-const imageToDataURL = (img: HTMLImageElement, maxWidth = 1200): string => {
+const imageToDataURL = (img: ImageBitmap, maxWidth = 1200): string => {
   const canvas = document.createElement('canvas');
   let width = img.width;
   let height = img.height;
@@ -499,117 +190,164 @@ const imageToDataURL = (img: HTMLImageElement, maxWidth = 1200): string => {
   const ctx = canvas.getContext('2d');
   ctx?.drawImage(img, 0, 0, width, height);
   
-  return canvas.toDataURL('image/jpeg', 0.95);
+  // JPEG would turn transparent areas black
+  const transparent = ctx ? hasAlpha(ctx.getImageData(0, 0, width, height)) : false;
+  return transparent ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.95);
 };
 
-const getImageDataFromImage = (img: HTMLImageElement): ImageData | null => {
-  const canvas = document.createElement('canvas');
-  canvas.width = img.width;
-  canvas.height = img.height;
-  
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return null;
-  
-  ctx.drawImage(img, 0, 0);
-  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+// A URL to show an upload with: the file itself, or a decoded preview for
+// formats an <img> can't display. Either can be passed to URL.revokeObjectURL.
+export const createPreviewUrl = async (file: File): Promise<string> => {
+  if (!(await needsWorkerDecoder(file))) return URL.createObjectURL(file);
+  
+  const { bitmap, pageCount } = await decodeInWorker(file);
+  if (pageCount > 1) {
+    toast.info(`${file.name} contains ${pageCount} images; only the main one is enhanced.`);
+  }
+  const url = imageToDataURL(bitmap);
+  bitmap.close();
+  return url;
+};
+
+const dataURLFromBlob = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
 };
 
-const dataURLFromImageData = (imageData: ImageData): string => {
+// Average brightness from a tiny thumbnail, enough to order a bracket
+const measureBrightness = async (file: File): Promise<number> => {
+  const bitmap = await decodeImage(file, { resizeWidth: 32, resizeHeight: 32, resizeQuality: 'low' });
   const canvas = document.createElement('canvas');
-  canvas.width = imageData.width;
-  canvas.height = imageData.height;
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
   
   const ctx = canvas.getContext('2d');
-  ctx?.putImageData(imageData, 0, 0);
+  ctx?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const data = ctx?.getImageData(0, 0, canvas.width, canvas.height).data ?? new Uint8ClampedArray(0);
   
-  return canvas.toDataURL('image/jpeg', 0.95);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    total += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return total / Math.max(1, data.length / 4);
+};
+
+// Sort bracketed exposures darkest to brightest, whatever order they were shot or picked in
+export const orderExposures = async (files: File[]): Promise<File[]> => {
+  const brightness = await Promise.all(files.map(measureBrightness));
+  return files
+    .map((file, index) => ({ file, brightness: brightness[index] }))
+    .sort((a, b) => a.brightness - b.brightness)
+    .map(entry => entry.file);
+};
+
+// The exposure results are compared against
+export const getReferenceExposure = (files: File[]): File => {
+  return files[Math.floor(files.length / 2)];
 };
 
-// Update the main enhancement function to support quality options
+export type EnhanceOptions = {
+  tiling?: Partial<TileOptions>;
+  // Style or colour reference, for pipelines with a step that needs one
+  reference?: File;
+  // Encoding of the result; transparent inputs are always saved losslessly
+  output?: ExportOptions;
+};
+
+// Run a pipeline (or a preset / single option id) to the given output size. Passing
+// several files (ordered with orderExposures) merges them as an exposure bracket first.
 export const enhanceImage = async (
-  file: File, 
-  option: EnhancementOption,
-  quality: QualityOption = '4x'
-): Promise<{ before: string; after: string }> => {
+  source: File | File[], 
+  selection: EnhancementPipeline | EnhancementOption,
+  target: ResizeTarget = DEFAULT_RESIZE_TARGET,
+  { tiling, reference, output = DEFAULT_EXPORT_OPTIONS }: EnhanceOptions = {}
+): Promise<EnhancementResult> => {
   try {
-    // Validate file size
-    const maxSizeInBytes = 5 * 1024 * 1024; // 5MB
-    if (file.size > maxSizeInBytes) {
-      toast.error('File size exceeds 5MB limit. Please upload a smaller image.');
-      throw new Error('File size exceeds 5MB limit');
+    const targetError = validateResizeTarget(target);
+    if (targetError) {
+      throw new Error(targetError);
     }
     
-    // Load image
-    const img = await loadImageFromFile(file);
-    const beforeDataURL = imageToDataURL(img);
-    
-    // Get image data
-    const imageData = getImageDataFromImage(img);
-    if (!imageData) {
-      throw new Error('Failed to get image data');
+    const files = Array.isArray(source) ? source : [source];
+    if (files.length > 1 && (files.length < MIN_EXPOSURES || files.length > MAX_EXPOSURES)) {
+      throw new Error(`Exposure brackets need ${MIN_EXPOSURES} to ${MAX_EXPOSURES} images`);
     }
     
-    // Convert quality option to number
-    const qualityFactor = quality === '2x' ? 2 : quality === '8x' ? 8 : 4;
-    console.log(`Enhancing with quality factor: ${qualityFactor}x`);
-    
-    // Select enhancement based on option
-    let enhancedData: ImageData;
-    
-    toast.info(`Processing step 1/3: Analyzing image characteristics...`);
-    await new Promise(resolve => setTimeout(resolve, 500)); // Simulate processing time
-    
-    const blurLevel = detectBlur(imageData);
-    const isBlurry = blurLevel < 50;
-    
-    if (isBlurry) {
-      toast.info(`Detected blurry image, applying deblur algorithm...`);
-      await new Promise(resolve => setTimeout(resolve, 800)); // Simulate processing time
+    // Validate file size
+    const maxSizeInBytes = 5 * 1024 * 1024; // 5MB
+    if (files.some(file => file.size > maxSizeInBytes)) {
+      toast.error('File size exceeds 5MB limit. Please upload a smaller image.');
+      throw new Error('File size exceeds 5MB limit');
     }
     
-    toast.info(`Processing step 2/3: Applying ${option} enhancement...`);
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate processing time
-    
-    switch (option) {
-      case 'hdr':
-        enhancedData = await applyHDREffect(imageData, qualityFactor);
-        break;
-      case 'night':
-        enhancedData = await applyNightMode(imageData, qualityFactor);
-        break;
-      case 'portrait':
-        enhancedData = await applyPortraitMode(imageData, qualityFactor);
-        break;
-      case 'color':
-        enhancedData = await applyColorPop(imageData, qualityFactor);
-        break;
-      case 'detail':
-        enhancedData = await applyDetailBoost(imageData, qualityFactor);
-        break;
-      case 'style':
-        enhancedData = await applyStyleTransfer(imageData, qualityFactor);
-        break;
-      case 'auto':
-      default:
-        enhancedData = await applyAutoEnhancement(imageData, qualityFactor);
-        break;
+    // Decode once; the bitmaps are handed to the worker without copying
+    const bitmaps = await Promise.all(files.map(file => decodeImage(file)));
+    const sizeError = validateResizeTarget(target, bitmaps[0]);
+    if (sizeError) {
+      throw new Error(sizeError);
     }
-    
-    toast.info(`Processing step 3/3: Finalizing image with ${qualityFactor}x upscaling...`);
-    await new Promise(resolve => setTimeout(resolve, 800)); // Simulate processing time
-    
-    // If quality is high (8x), simulate additional refinement
-    if (qualityFactor === 8) {
-      toast.info(`Applying additional texture refinement for high quality output...`);
-      await new Promise(resolve => setTimeout(resolve, 1200)); // Simulate processing time
+    const beforeDataURL = imageToDataURL(bitmaps[Math.floor(bitmaps.length / 2)]);
+    const raw = files.length === 1 ? await readCameraRaw(files[0]) : undefined;
+    const referenceBitmap = reference && await decodeImage(reference);
+    const metadata = await readMetadata(getReferenceExposure(files));
+    
+    // Work in Display P3 when the source or the output has colours beyond
+    // sRGB, so they survive the pipeline instead of being clipped on decode
+    const wideGamut = supportsWideGamutCanvas();
+    const outputOptions: ExportOptions = wideGamut ? output : { ...output, colorSpace: 'srgb' };
+    const workingSpace: PredefinedColorSpace =
+      wideGamut && (outputOptions.colorSpace === 'display-p3' || metadata?.icc?.info.wideGamut)
+        ? 'display-p3'
+        : 'srgb';
+    
+    // Adaptive presets let the engine add corrections from its image analysis
+    const pipeline = toPipeline(selection);
+    const adaptive = findMatchingPreset(pipeline)?.adaptive ?? false;
+    
+    const response = await callWorker(
+      {
+        id: nextRequestId++,
+        type: 'enhance',
+        bitmaps,
+        raw,
+        reference: referenceBitmap,
+        pipeline,
+        target,
+        tiling,
+        limits: getDeviceLimits(),
+        workingSpace,
+        output: outputOptions,
+        adaptive
+      },
+      [...bitmaps, ...(referenceBitmap ? [referenceBitmap] : []), ...(raw ? [raw] : [])],
+      message => toast.info(message)
+    );
+    if (response.type !== 'enhanced') {
+      throw new Error(`Unexpected worker response: ${response.type}`);
     }
     
     // Convert enhanced data back to data URL
-    const afterDataURL = dataURLFromImageData(enhancedData);
+    const afterDataURL = await dataURLFromBlob(response.blob);
     
     return {
       before: beforeDataURL,
-      after: afterDataURL
+      after: afterDataURL,
+      // A bracket is merged from several files, so there's no single original to keep
+      original: files.length === 1 ? files[0] : null,
+      blob: response.blob,
+      format: response.format,
+      colorSpace: response.colorSpace,
+      width: response.width,
+      height: response.height,
+      dpi: target.mode === 'print' ? target.dpi : null,
+      metadata,
+      pipeline: response.pipeline,
+      report: response.report
     };
   } catch (error) {
     console.error('Image enhancement failed:', error);
@@ -618,14 +356,97 @@ export const enhanceImage = async (
   }
 };
 
+// The result with the source's metadata written in as the policy allows,
+// e.g. without GPS for downloads and shares
+export const withMetadata = async (result: EnhancementResult, policy: MetadataPolicy): Promise<Blob> => {
+  if (!result.metadata) return result.blob;
+  
+  const bytes = await writeImageMetadata(
+    new Uint8Array(await result.blob.arrayBuffer()),
+    result.metadata,
+    policy,
+    { width: result.width, height: result.height },
+    result.colorSpace,
+    result.dpi
+  );
+  return new Blob([bytes], { type: result.blob.type });
+};
+
+// Check an output size against this browser's canvas and memory limits, the
+// same way the worker will before it starts. A refusal carries the largest
+// scale that would fit, to offer instead. frameCount is the number of
+// bracketed exposures to merge, which are all held at once.
+export const assessOutputBudget = (
+  sourceSize: { width: number; height: number },
+  selection: EnhancementPipeline | EnhancementOption,
+  target: ResizeTarget,
+  tiling?: Partial<TileOptions>,
+  frameCount = 1
+): BudgetAssessment => {
+  const plan = planResize(target, sourceSize.width, sourceSize.height);
+  const definitions = resolvePipeline(toPipeline(selection));
+  return assessBudget(sourceSize.width, sourceSize.height, plan, definitions, tiling, getDeviceLimits(), frameCount);
+};
+
+// Import a .cube file as a Style Transfer look and return its id. Parsing
+// happens here so a malformed file is reported before anything runs.
+export const importLook = async (file: File): Promise<string> => {
+  const baseName = file.name.replace(/\.cube$/i, '');
+  const lut = parseCubeLut(await file.text(), baseName);
+  const look = {
+    id: `custom:${baseName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name: lut.title,
+    lut
+  };
+  
+  registerCustomLook(look);
+  await callWorker({ id: nextRequestId++, type: 'registerLook', look });
+  return look.id;
+};
+
+// Bake the pipeline's colour steps into a .cube file. Steps that aren't pure
+// colour mappings (denoise, sharpening, ...) are listed in skipped.
+export const exportColorTransform = async (
+  pipeline: EnhancementPipeline,
+  size: number = DEFAULT_LUT_SIZE
+): Promise<{ blob: Blob; skipped: string[] }> => {
+  const response = await callWorker({ id: nextRequestId++, type: 'bakeLut', pipeline, size });
+  if (response.type !== 'lutBaked') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return {
+    blob: new Blob([response.cube], { type: 'text/plain' }),
+    skipped: response.skipped
+  };
+};
+
+// Run only the quality analysis, e.g. to show it before enhancing
+export const analyzeImage = async (file: File): Promise<ImageAnalysisReport> => {
+  const bitmap = await decodeImage(file);
+  const response = await callWorker({ id: nextRequestId++, type: 'analyze', bitmap }, [bitmap]);
+  if (response.type !== 'analyzed') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.report;
+};
+
 // Initialize the enhancement engine
 const initializeEnhancementEngine = async () => {
   try {
-    await initializeModels();
-    console.log('Enhancement engine initialized successfully');
+    const response = await callWorker({ id: nextRequestId++, type: 'initialize' });
+    if (response.type !== 'initialized') {
+      throw new Error(`Unexpected worker response: ${response.type}`);
+    }
+    
+    // The engine is usable even without a model backend; only model-backed options are lost
+    activeBackend = response.backend;
+    backendCapabilities = response.capabilities;
+    isApiAvailable = true;
+    console.log(`Enhancement engine initialized successfully on ${activeBackend}`);
     return true;
   } catch (error) {
     console.error('Failed to initialize enhancement engine:', error);
+    isApiAvailable = false;
     return false;
   }
 };
@@ -635,44 +456,119 @@ export const checkApiAvailability = (): boolean => {
   return isApiAvailable;
 };
 
+// Backend chosen during initialization ('none' until then, or if no model backend works)
+export const getExecutionBackend = (): ExecutionBackend => {
+  return activeBackend;
+};
+
+export const getBackendCapabilities = (): BackendCapabilities | null => {
+  return backendCapabilities;
+};
+
 export const enhancementEngine = {
   initialize: initializeEnhancementEngine,
   enhance: enhanceImage,
-  isApiAvailable: checkApiAvailability
+  analyze: analyzeImage,
+  assessOutputBudget,
+  withMetadata,
+  supportsWideGamutCanvas,
+  createPreviewUrl,
+  orderExposures,
+  importLook,
+  exportColorTransform,
+  isApiAvailable: checkApiAvailability,
+  getBackend: getExecutionBackend,
+  getCapabilities: getBackendCapabilities
 };
 
 // Export types
 export type EnhancementResult = {
+  // Downscaled preview of the input, for comparison
   before: string;
   after: string;
+  // The uploaded file itself, for replays; null for exposure brackets
+  original: File | null;
+  // The encoded result, in the format it was actually saved as
+  blob: Blob;
+  format: ExportFormat;
+  colorSpace: PredefinedColorSpace;
+  width: number;
+  height: number;
+  // Resolution of a print-size output, also written into the file's EXIF
+  dpi: number | null;
+  // EXIF, XMP and colour profile of the source, written back on download (see withMetadata)
+  metadata: ImageMetadata | null;
+  // The pipeline that actually ran, including adaptive corrections
+  pipeline: EnhancementPipeline;
+  report: ImageAnalysisReport;
+};
+
+// Private bucket for the uploads behind replayable records, one folder per user
+const ORIGINALS_BUCKET = 'originals';
+
+// Upload the original file and return the path to store in original_url
+const uploadOriginal = async (userId: string, file: File): Promise<string> => {
+  const { supabase } = await import("@/integrations/supabase/client");
+  const path = `${userId}/${crypto.randomUUID()}`;
+  const { error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .upload(path, file, { contentType: file.type || 'application/octet-stream' });
+  if (error) throw error;
+  return `${ORIGINALS_BUCKET}/${path}`;
+};
+
+// The original of a recorded enhancement, for a replay. Older records hold
+// the upload itself as a data URL; newer ones a path in the originals bucket.
+export const loadOriginal = async (originalUrl: string): Promise<Blob> => {
+  if (/^(data|https?|blob):/.test(originalUrl)) {
+    const response = await fetch(originalUrl);
+    return response.blob();
+  }
+  
+  const { supabase } = await import("@/integrations/supabase/client");
+  const { data, error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .download(originalUrl.slice(ORIGINALS_BUCKET.length + 1));
+  if (error) throw error;
+  return data;
 };
 
 // Add a function to record an image enhancement in the database
 export const recordImageEnhancement = async (
   userId: string,
-  originalUrl: string,
-  enhancedUrl: string,
-  enhancementOption: EnhancementOption,
-  qualityOption: QualityOption
+  result: EnhancementResult,
+  target: ResizeTarget
 ) => {
   try {
     // Import supabase here to avoid circular dependencies
     const { supabase } = await import("@/integrations/supabase/client");
 
-    // Step 1: Record the enhancement in the enhanced_images table
+    // Step 1: Store the original upload, so the record can be replayed, and
+    // keep only its path. Brackets, and uploads that fail, keep the
+    // downscaled preview instead and aren't replayable (no pipeline).
+    const originalPath = result.original
+      ? await uploadOriginal(userId, result.original).catch(error => {
+          console.error("Error uploading original:", error);
+          return null;
+        })
+      : null;
+
+    // Step 2: Record the enhancement in the enhanced_images table, with the
+    // full pipeline for replays
     const { error: insertError } = await supabase
       .from("enhanced_images")
       .insert({
         user_id: userId,
-        original_url: originalUrl,
-        enhanced_url: enhancedUrl,
-        enhancement_type: enhancementOption,
-        quality: qualityOption
+        original_url: originalPath ?? result.before,
+        enhanced_url: result.after,
+        enhancement_type: describePipeline(result.pipeline),
+        pipeline: originalPath ? result.pipeline : null,
+        quality: describeResizeTarget(target)
       });
 
     if (insertError) throw insertError;
 
-    // Step 2: Decrement the user's remaining enhancements count using our custom function
+    // Step 3: Decrement the user's remaining enhancements count using our custom function
     const { error: decrementError } = await supabase
       .rpc("decrement_enhancements", { p_user_id: userId });
 
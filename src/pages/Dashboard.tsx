@@ -13,6 +13,8 @@ import Footer from "@/components/Footer";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { EnhancedImage } from "@/types/supabase";
+import { EnhancementPipeline } from "@/lib/enhancement/pipeline";
+import type { ReplayState } from "@/pages/Enhance";
 
 const Dashboard = () => {
   const { user, profile, subscription, refreshUserData } = useAuth();
@@ -240,6 +242,22 @@ const Dashboard = () => {
                           </div>
                         </TableCell>
                         <TableCell className="text-right">
+                          {image.pipeline && (
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link
+                                to="/enhance"
+                                state={{
+                                  replay: {
+                                    originalUrl: image.original_url,
+                                    pipeline: image.pipeline as EnhancementPipeline,
+                                    quality: image.quality
+                                  }
+                                } satisfies ReplayState}
+                              >
+                                Replay
+                              </Link>
+                            </Button>
+                          )}
                           <Button variant="ghost" size="sm" asChild>
                             <a href={image.enhanced_url} target="_blank" rel="noopener noreferrer">
                               View
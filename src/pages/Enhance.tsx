@@ -2,27 +2,103 @@ import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Download, Share } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import ImageUploader from '@/components/ImageUploader';
-import EnhancementOptions, { EnhancementOption, QualityOption } from '@/components/EnhancementOptions';
+import EnhancementOptions from '@/components/EnhancementOptions';
 import BeforeAfterSlider from '@/components/BeforeAfterSlider';
 import ProcessingAnimation from '@/components/ProcessingAnimation';
-import { enhancementEngine, EnhancementResult, recordImageEnhancement } from '@/lib/imageEnhancement';
+import ImageAnalysisPanel from '@/components/ImageAnalysisPanel';
+import MetadataPanel from '@/components/MetadataPanel';
+import {
+  enhancementEngine,
+  EnhancementResult,
+  getReferenceExposure,
+  loadOriginal,
+  recordImageEnhancement
+} from '@/lib/imageEnhancement';
+import { backendLabels, ExecutionBackend } from '@/lib/enhancement/backend';
+import { describePipeline, EnhancementPipeline, getPreset, withAvailableResampler } from '@/lib/enhancement/pipeline';
+import { getEnhancement } from '@/lib/enhancement/enhancements';
+import type { ImageAnalysisReport } from '@/lib/enhancement/analysis';
+import {
+  DEFAULT_RESIZE_TARGET,
+  describeResizeTarget,
+  parseResizeTarget,
+  ResizeTarget,
+  validateResizeTarget
+} from '@/lib/enhancement/resizeTarget';
+import { DEFAULT_EXPORT_OPTIONS, exportFormats, ExportOptions } from '@/lib/enhancement/export';
+import { DEFAULT_METADATA_POLICY, MetadataPolicy } from '@/lib/enhancement/metadata';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
 
+// Navigation state used by the dashboard to replay a previous enhancement
+export type ReplayState = {
+  replay?: {
+    originalUrl: string;
+    pipeline: EnhancementPipeline;
+    // Output size label as stored in enhanced_images.quality
+    quality: string;
+  };
+};
+
 const Enhance = () => {
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [enhancementOption, setEnhancementOption] = useState<EnhancementOption>('auto');
-  const [qualityOption, setQualityOption] = useState<QualityOption>('4x');
+  // Set when the user uploaded an exposure bracket; selectedImage is then its middle exposure
+  const [bracketFiles, setBracketFiles] = useState<File[] | null>(null);
+  // Style or color reference for steps that need a second image
+  const [referenceImage, setReferenceImage] = useState<File | null>(null);
+  const [pipeline, setPipeline] = useState<EnhancementPipeline>(getPreset('auto')?.steps ?? []);
+  const [resizeTarget, setResizeTarget] = useState<ResizeTarget>(DEFAULT_RESIZE_TARGET);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>(DEFAULT_METADATA_POLICY);
   const [isProcessing, setIsProcessing] = useState(false);
   const [enhancementResult, setEnhancementResult] = useState<EnhancementResult | null>(null);
   const [enhancementCount, setEnhancementCount] = useState(0);
   const [apiAvailable, setApiAvailable] = useState(true);
+  const [backend, setBackend] = useState<ExecutionBackend | null>(null);
+  const [analysisReport, setAnalysisReport] = useState<ImageAnalysisReport | null>(null);
   const [processingStep, setProcessingStep] = useState('');
   const { user, subscription, refreshUserData } = useAuth();
+  const location = useLocation();
+  
+  // Analyze every newly selected image so the user sees what we found
+  useEffect(() => {
+    setAnalysisReport(null);
+    if (!selectedImage) return;
+    
+    let cancelled = false;
+    enhancementEngine.analyze(selectedImage)
+      .then(report => {
+        if (!cancelled) setAnalysisReport(report);
+      })
+      .catch(error => console.error('Image analysis failed:', error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedImage]);
+  
+  // Load the original image and pipeline of a replayed enhancement
+  useEffect(() => {
+    const replay = (location.state as ReplayState | null)?.replay;
+    if (!replay) return;
+    
+    loadOriginal(replay.originalUrl)
+      .then(blob => {
+        setSelectedImage(new File([blob], 'replay.jpg', { type: blob.type || 'image/jpeg' }));
+        setBracketFiles(null);
+        setPipeline(replay.pipeline);
+        setResizeTarget(parseResizeTarget(replay.quality) ?? DEFAULT_RESIZE_TARGET);
+        setEnhancementResult(null);
+      })
+      .catch(error => {
+        console.error('Failed to load enhancement for replay:', error);
+        toast.error('Could not load the original image for this enhancement.');
+      });
+  }, [location.state]);
 
   useEffect(() => {
     enhancementEngine.initialize()
@@ -30,6 +106,10 @@ const Enhance = () => {
         if (success) {
           console.log('Enhancement engine initialized successfully');
           setApiAvailable(true);
+          const backend = enhancementEngine.getBackend();
+          setBackend(backend);
+          // The default Auto pipeline upscales with the AI model, which needs a backend
+          setPipeline(current => withAvailableResampler(current, backend !== 'none'));
         } else {
           console.error('Enhancement engine initialization failed');
           setApiAvailable(false);
@@ -50,22 +130,44 @@ const Enhance = () => {
     };
   }, []);
 
-  const handleImageSelected = (file: File) => {
+  const canUseFiles = (files: File[]) => {
     if (subscription?.remaining_enhancements <= 0 && subscription?.plan !== 'unlimited') {
       toast.error('You have no enhancements remaining. Please upgrade your plan to continue.');
-      return;
+      return false;
     }
     
     const maxSizeInBytes = (subscription?.max_file_size || 5) * 1024 * 1024;
-    if (file.size > maxSizeInBytes) {
+    if (files.some(file => file.size > maxSizeInBytes)) {
       toast.error(`File size exceeds ${subscription?.max_file_size || 5}MB limit for your plan. Please upload a smaller image.`);
-      return;
+      return false;
     }
     
+    return true;
+  };
+
+  const handleImageSelected = (file: File) => {
+    if (!canUseFiles([file])) return;
+    
     setSelectedImage(file);
+    setBracketFiles(null);
     setEnhancementResult(null);
   };
 
+  const handleBracketSelected = async (files: File[]) => {
+    if (!canUseFiles(files)) return;
+    
+    try {
+      // Merge order and the comparison image both depend on exposure, not pick order
+      const ordered = await enhancementEngine.orderExposures(files);
+      setBracketFiles(ordered);
+      setSelectedImage(getReferenceExposure(ordered));
+      setEnhancementResult(null);
+    } catch (error) {
+      console.error('Failed to read bracketed exposures:', error);
+      toast.error('Could not read the selected exposures.');
+    }
+  };
+
   const handleEnhance = async () => {
     if (!selectedImage) {
       toast.error('Please upload an image first.');
@@ -86,23 +188,24 @@ const Enhance = () => {
     setProcessingStep('Analyzing your image...');
     
     try {
-      const result = await enhancementEngine.enhance(selectedImage, enhancementOption, qualityOption);
+      const result = await enhancementEngine.enhance(
+        bracketFiles ?? selectedImage,
+        pipeline,
+        resizeTarget,
+        { reference: referenceImage ?? undefined, output: exportOptions }
+      );
       
       setEnhancementResult(result);
+      setAnalysisReport(result.report);
       
       if (user) {
-        await recordImageEnhancement(
-          user.id,
-          result.before,
-          result.after,
-          enhancementOption,
-          qualityOption
-        );
+        // Record what actually ran so a replay reproduces it exactly
+        await recordImageEnhancement(user.id, result, resizeTarget);
         
         await refreshUserData();
       }
       
-      toast.success(`Image enhanced successfully with ${qualityOption} quality!`);
+      toast.success(`Image enhanced successfully to ${result.width} × ${result.height} px!`);
     } catch (error) {
       console.error('Enhancement failed:', error);
       toast.error('Enhancement failed. Please try again.');
@@ -111,15 +214,59 @@ const Enhance = () => {
     }
   };
 
-  const handleDownload = () => {
+  const handleImportLook = async (file: File) => {
+    try {
+      const lookId = await enhancementEngine.importLook(file);
+      toast.success(`Imported look from ${file.name}.`);
+      return lookId;
+    } catch (error) {
+      console.error('Failed to import look:', error);
+      toast.error(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  };
+
+  const handleExportColorTransform = async () => {
+    try {
+      const { blob, skipped } = await enhancementEngine.exportColorTransform(pipeline);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${describePipeline(pipeline)}.cube`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      
+      if (skipped.length > 0) {
+        toast.warning(`The .cube only has the color steps; ${skipped.join(', ')} can't be baked into a LUT and ${skipped.length === 1 ? 'was' : 'were'} left out.`);
+      } else {
+        toast.success('Color transform exported as .cube.');
+      }
+    } catch (error) {
+      console.error('LUT export failed:', error);
+      toast.error('Could not export the color transform.');
+    }
+  };
+
+  // Named after the upload, with the extension of the format it was saved as
+  const getResultFileName = (result: EnhancementResult) => {
+    const baseName = selectedImage?.name.replace(/\.[^.]+$/, '') || 'image';
+    return `enhanced-${describeResizeTarget(resizeTarget)}-${baseName}.${exportFormats[result.format].extension}`;
+  };
+
+  const handleDownload = async () => {
     if (!enhancementResult) return;
     
+    const blob = await enhancementEngine.withMetadata(enhancementResult, metadataPolicy);
+    const objectUrl = URL.createObjectURL(blob);
     const link = document.createElement('a');
-    link.href = enhancementResult.after;
-    link.download = `enhanced-${qualityOption}-${selectedImage?.name || 'image'}.jpg`;
+    link.href = objectUrl;
+    link.download = getResultFileName(enhancementResult);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(objectUrl);
     
     toast.success('Image downloaded successfully.');
   };
@@ -128,12 +275,11 @@ const Enhance = () => {
     if (!enhancementResult) return;
     
     try {
-      const response = await fetch(enhancementResult.after);
-      const blob = await response.blob();
+      const blob = await enhancementEngine.withMetadata(enhancementResult, metadataPolicy);
       
       if (navigator.share) {
         await navigator.share({
-          files: [new File([blob], 'enhanced-image.jpg', { type: 'image/jpeg' })],
+          files: [new File([blob], getResultFileName(enhancementResult), { type: blob.type })],
           title: 'Enhanced Image',
           text: 'Check out this image enhanced with Pixelfinity AI!'
         });
@@ -148,16 +294,13 @@ const Enhance = () => {
     }
   };
 
-  const getQualityDetails = () => {
-    switch (qualityOption) {
-      case '2x':
-        return 'Low quality (2x upscale)';
-      case '8x':
-        return 'High quality (8x upscale)';
-      default:
-        return 'Medium quality (4x upscale)';
-    }
-  };
+  // Check the requested output against this browser's limits up front, so an
+  // impossible size is explained before the user waits for it to fail
+  const outputBudget = analysisReport
+    && !validateResizeTarget(resizeTarget, analysisReport)
+    && pipeline.every(step => getEnhancement(step.id))
+    ? enhancementEngine.assessOutputBudget(analysisReport, pipeline, resizeTarget, undefined, bracketFiles?.length)
+    : undefined;
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -184,17 +327,34 @@ const Enhance = () => {
               transition={{ duration: 0.4 }}
               className="space-y-8"
             >
-              <ImageUploader onImageSelected={handleImageSelected} />
+              <ImageUploader
+                onImageSelected={handleImageSelected}
+                onBracketSelected={handleBracketSelected}
+              />
+              
+              {selectedImage && analysisReport && (
+                <ImageAnalysisPanel report={analysisReport} />
+              )}
               
               {selectedImage && (
                 <EnhancementOptions 
-                  selectedOption={enhancementOption}
-                  onOptionSelected={setEnhancementOption}
+                  pipeline={pipeline}
+                  onPipelineChange={setPipeline}
                   isProcessing={isProcessing}
                   onEnhance={handleEnhance}
-                  qualityOption={qualityOption}
-                  onQualitySelected={setQualityOption}
+                  resizeTarget={resizeTarget}
+                  onResizeTargetChange={setResizeTarget}
+                  sourceSize={analysisReport ?? undefined}
+                  outputBudget={outputBudget}
+                  exportOptions={exportOptions}
+                  onExportOptionsChange={setExportOptions}
                   apiAvailable={apiAvailable}
+                  modelAvailable={backend !== 'none'}
+                  plan={subscription?.plan}
+                  onImportLook={handleImportLook}
+                  onExportColorTransform={handleExportColorTransform}
+                  referenceImage={referenceImage}
+                  onReferenceImageChange={setReferenceImage}
                 />
               )}
               
@@ -224,6 +384,20 @@ const Enhance = () => {
                   )}
                 </p>
                 
+                {backend && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Processing on: <span className="font-medium">{backendLabels[backend]}</span>
+                  </p>
+                )}
+                
+                {apiAvailable && backend === 'none' && (
+                  <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                    <p className="text-amber-700 text-sm">
+                      <strong>Note:</strong> This browser can't run AI models (no WebGPU or WebAssembly), so AI upscaling and neural style transfer are disabled. The classic filters still work.
+                    </p>
+                  </div>
+                )}
+                
                 {!apiAvailable && (
                   <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
                     <p className="text-amber-700 text-sm">
@@ -245,7 +419,7 @@ const Enhance = () => {
                     <div className="flex justify-between items-center mb-4">
                       <h3 className="font-medium">Enhanced Result</h3>
                       <span className="text-xs bg-primary/10 text-primary px-3 py-1 rounded-full">
-                        {getQualityDetails()}
+                        {enhancementResult.width} × {enhancementResult.height} px
                       </span>
                     </div>
                     
@@ -255,6 +429,21 @@ const Enhance = () => {
                       className="w-full rounded-lg overflow-hidden"
                     />
                     
+                    {bracketFiles && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Merged from {bracketFiles.length} exposures, compared against the middle exposure.
+                      </p>
+                    )}
+                    
+                    {enhancementResult.metadata && (
+                      <MetadataPanel
+                        metadata={enhancementResult.metadata}
+                        policy={metadataPolicy}
+                        onChange={setMetadataPolicy}
+                        format={enhancementResult.format}
+                      />
+                    )}
+                    
                     <div className="flex gap-4 mt-6">
                       <Button 
                         variant="outline" 
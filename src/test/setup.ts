@@ -0,0 +1,31 @@
+// Tests run in Node, which has no ImageData. This stand-in covers the
+// constructor forms the enhancement code uses.
+class NodeImageData {
+  readonly data: Uint8ClampedArray;
+  readonly width: number;
+  readonly height: number;
+  readonly colorSpace: PredefinedColorSpace;
+
+  constructor(
+    dataOrWidth: Uint8ClampedArray | number,
+    widthOrHeight: number,
+    heightOrSettings?: number | ImageDataSettings,
+    settings?: ImageDataSettings
+  ) {
+    if (typeof dataOrWidth === 'number') {
+      this.width = dataOrWidth;
+      this.height = widthOrHeight;
+      this.data = new Uint8ClampedArray(dataOrWidth * widthOrHeight * 4);
+      this.colorSpace = (heightOrSettings as ImageDataSettings | undefined)?.colorSpace ?? 'srgb';
+    } else {
+      this.data = dataOrWidth;
+      this.width = widthOrHeight;
+      this.height = (heightOrSettings as number | undefined) ?? dataOrWidth.length / 4 / widthOrHeight;
+      this.colorSpace = settings?.colorSpace ?? 'srgb';
+    }
+  }
+}
+
+if (typeof globalThis.ImageData === 'undefined') {
+  globalThis.ImageData = NodeImageData as unknown as typeof ImageData;
+}
@@ -1,3 +1,4 @@
+import type { Json } from '@/integrations/supabase/types';
 
 export type Profile = {
   id: string;
@@ -23,11 +24,15 @@ export type Subscription = {
 export type EnhancedImage = {
   id: string;
   user_id: string;
+  // Path in the originals storage bucket (see loadOriginal); older records
+  // and brackets hold a data URL
   original_url: string;
   enhanced_url: string;
   enhancement_type: string;
+  // Ordered pipeline steps the image was produced with (null for older records)
+  pipeline: Json | null;
+  // Output size as written by describeResizeTarget, e.g. "4x" or "3840w"
   quality: string;
   created_at: string;
 };
 
-export type QualityOption = '2x' | '4x' | '8x';
@@ -1 +1,27 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_UPSCALER_MODEL?: string;
+  readonly VITE_STYLE_MODEL?: string;
+  readonly VITE_FACE_MODEL?: string;
+}
+
+// libheif-js ships no types for its self-contained WASM build
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  type HeifDisplayData = { data: Uint8ClampedArray; width: number; height: number };
+
+  interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(target: HeifDisplayData, callback: (result: HeifDisplayData | null) => void): void;
+    free(): void;
+  }
+
+  interface Libheif {
+    HeifDecoder: new () => { decode(bytes: Uint8Array): HeifImage[] };
+  }
+
+  const createLibheif: () => Libheif;
+  export default createLibheif;
+}
@@ -0,0 +1,3 @@
+-- Store the ordered enhancement pipeline so a record can be replayed
+alter table public.enhanced_images
+  add column if not exists pipeline jsonb;
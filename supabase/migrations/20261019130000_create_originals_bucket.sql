@@ -0,0 +1,14 @@
+-- Private bucket for the original uploads of replayable enhancements, so
+-- enhanced_images.original_url holds a path instead of the whole file
+insert into storage.buckets (id, name, public)
+values ('originals', 'originals', false)
+on conflict (id) do nothing;
+
+-- Each user reads and writes only their own folder (originals/<user id>/...)
+create policy "Users can upload their originals"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'originals' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can read their originals"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'originals' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -14,9 +15,22 @@ export default defineConfig(({ mode }) => ({
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  worker: {
+    // The enhancement worker lazy-loads the model runtime, which needs ES module chunks
+    format: 'es',
+  },
+  optimizeDeps: {
+    // The image encoders locate their .wasm files relative to their own
+    // modules, which pre-bundling would move
+    exclude: ['@jsquash/avif', '@jsquash/jpeg', '@jsquash/webp'],
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: 'node',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 }));